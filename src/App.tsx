@@ -3,6 +3,7 @@ import { signInWithPopup, signOut, onAuthStateChanged } from 'firebase/auth';
 import type { User } from 'firebase/auth';
 import { auth, googleProvider } from './firebase';
 import { MapView } from './components/MapView';
+import { clearHistoryCaches } from './utils/historyCache';
 
 function App() {
   const [user, setUser] = useState<User | null>(null);
@@ -28,6 +29,10 @@ function App() {
   const handleLogout = async () => {
     if (window.confirm('ログアウトしますか？')) {
       try {
+        // 別のユーザーに履歴が表示されないよう、端末内のキャッシュを削除してからログアウト
+        await clearHistoryCaches().catch((error) => {
+          console.error('Failed to clear history caches:', error);
+        });
         await signOut(auth);
       } catch {
         // ログアウトエラー
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import type { ActivityProfile, ActivityType } from '../types/Activity';
+import { ACTIVITY_PROFILES } from '../constants/activity';
+import { TRACKING_CONFIG } from '../constants/tracking';
+
+interface ActivitySelectorProps {
+  activity: ActivityType;
+  customProfile: ActivityProfile;
+  disabled: boolean;
+  onActivityChange: (activity: ActivityType) => void;
+  onCustomProfileChange: (changes: Partial<ActivityProfile>) => void;
+}
+
+const fieldStyle: React.CSSProperties = {
+  backgroundColor: '#0f172a',
+  border: '1px solid #475569',
+  borderRadius: '4px',
+  color: '#e2e8f0',
+  fontFamily: 'monospace',
+  fontSize: '12px',
+  padding: '4px 6px',
+  width: '72px',
+  boxSizing: 'border-box',
+};
+
+// カスタムプロファイルで編集できる数値項目
+const CUSTOM_FIELDS: { key: keyof ActivityProfile; label: string }[] = [
+  { key: 'maxSpeedKmh', label: '最大速度 (km/h)' },
+  { key: 'minDistance', label: '記録間隔 (m)' },
+  { key: 'maxAccuracy', label: '許容誤差 (m)' },
+  { key: 'explorationRadius', label: '探索半径 (m)' },
+];
+
+// アクティビティの選択（記録中は変更不可）とカスタムプロファイルの編集
+export function ActivitySelector({
+  activity,
+  customProfile,
+  disabled,
+  onActivityChange,
+  onCustomProfileChange,
+}: ActivitySelectorProps) {
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  return (
+    <div style={{ position: 'relative', display: 'flex', alignItems: 'center', gap: '4px' }}>
+      <select
+        value={activity}
+        disabled={disabled}
+        onChange={(e) => onActivityChange(e.target.value as ActivityType)}
+        title={disabled ? '記録中はアクティビティを変更できません' : 'アクティビティ'}
+        style={{
+          backgroundColor: 'rgba(15, 23, 42, 0.8)',
+          border: '1px solid #1e293b',
+          borderRadius: '8px',
+          color: '#67e8f9',
+          fontFamily: 'monospace',
+          fontSize: '12px',
+          height: '32px',
+          padding: '0 6px',
+          cursor: disabled ? 'not-allowed' : 'pointer',
+          opacity: disabled ? 0.6 : 1,
+        }}
+      >
+        {Object.values(ACTIVITY_PROFILES).map((profile) => (
+          <option key={profile.type} value={profile.type}>
+            {profile.icon} {profile.label}
+          </option>
+        ))}
+      </select>
+
+      {activity === 'custom' && !disabled && (
+        <button
+          onClick={() => setIsEditorOpen((prev) => !prev)}
+          title="カスタムプロファイルを編集"
+          style={{
+            background: 'transparent',
+            border: '1px solid #475569',
+            borderRadius: '8px',
+            color: '#94a3b8',
+            cursor: 'pointer',
+            height: '32px',
+            padding: '0 8px',
+            fontSize: '12px',
+          }}
+        >
+          ✎
+        </button>
+      )}
+
+      {isEditorOpen && activity === 'custom' && !disabled && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '40px',
+            left: 0,
+            backgroundColor: 'rgba(15, 23, 42, 0.95)',
+            border: '1px solid #1e293b',
+            borderRadius: '8px',
+            padding: '12px',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '8px',
+            fontFamily: 'monospace',
+            fontSize: '12px',
+            color: '#e2e8f0',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {CUSTOM_FIELDS.map(({ key, label }) => (
+            <label
+              key={key}
+              style={{ display: 'flex', justifyContent: 'space-between', gap: '8px' }}
+            >
+              {label}
+              <input
+                type="number"
+                min={1}
+                value={customProfile[key] as number}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (value > 0) onCustomProfileChange({ [key]: value });
+                }}
+                style={fieldStyle}
+              />
+            </label>
+          ))}
+          <label style={{ display: 'flex', justifyContent: 'space-between', gap: '8px' }}>
+            高精度測位
+            <input
+              type="checkbox"
+              checked={customProfile.geolocationOptions.enableHighAccuracy === true}
+              onChange={(e) =>
+                onCustomProfileChange({
+                  geolocationOptions: e.target.checked
+                    ? TRACKING_CONFIG.GEOLOCATION_OPTIONS.HIGH_ACCURACY
+                    : TRACKING_CONFIG.GEOLOCATION_OPTIONS.BATTERY_SAVING,
+                })
+              }
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState, useCallback } from 'react';
+import type { PositionSourceKind, PositionSourceSelection } from '../types/Tracking';
+import { SIMULATION_CONFIG } from '../constants/tracking';
+import { buildSourceSelectionUrl } from '../tracking/positionSourceSelection';
+import { parseTrack } from '../utils/trackParser';
+
+interface DevSourceMenuProps {
+  selection: PositionSourceSelection;
+}
+
+const SOURCE_LABELS: Record<PositionSourceKind, string> = {
+  gps: 'GPS',
+  replay: 'REPLAY',
+  random: 'RANDOM WALK',
+  manual: 'MANUAL (CLICK)',
+};
+
+const fieldStyle: React.CSSProperties = {
+  backgroundColor: '#0f172a',
+  border: '1px solid #475569',
+  borderRadius: '4px',
+  color: '#e2e8f0',
+  fontFamily: 'monospace',
+  fontSize: '12px',
+  padding: '4px 6px',
+  width: '100%',
+  boxSizing: 'border-box',
+};
+
+// 位置情報ソースを切り替える開発者メニュー
+export function DevSourceMenu({ selection }: DevSourceMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<PositionSourceSelection>(selection);
+  const [trackStatus, setTrackStatus] = useState<string | null>(null);
+
+  // 読み込んだトラックはLocalStorageに保存し、URL未指定時のリプレイに使う
+  const handleTrackFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const points = parseTrack(text);
+      localStorage.setItem(SIMULATION_CONFIG.DEV_TRACK_STORAGE_KEY, text);
+      setDraft((prev) => ({ ...prev, kind: 'replay', trackUrl: undefined }));
+      setTrackStatus(`${file.name}: ${points.length} points`);
+    } catch (error) {
+      setTrackStatus(error instanceof Error ? error.message : String(error));
+    }
+  }, []);
+
+  const handleApply = useCallback(() => {
+    window.location.assign(buildSourceSelectionUrl(draft));
+  }, [draft]);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: '12px',
+        bottom: '24px',
+        zIndex: 1000,
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        color: '#e2e8f0',
+      }}
+    >
+      {isOpen && (
+        <div
+          style={{
+            backgroundColor: 'rgba(15, 23, 42, 0.95)',
+            border: '1px solid #1e293b',
+            borderRadius: '8px',
+            padding: '12px',
+            marginBottom: '8px',
+            width: '220px',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '8px',
+          }}
+        >
+          <label>
+            SOURCE
+            <select
+              value={draft.kind}
+              onChange={(e) =>
+                setDraft((prev) => ({ ...prev, kind: e.target.value as PositionSourceKind }))
+              }
+              style={fieldStyle}
+            >
+              {(Object.keys(SOURCE_LABELS) as PositionSourceKind[]).map((kind) => (
+                <option key={kind} value={kind}>
+                  {SOURCE_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {draft.kind === 'replay' && (
+            <>
+              <label>
+                SPEED (x)
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.5}
+                  value={draft.speed}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, speed: Number(e.target.value) }))}
+                  style={fieldStyle}
+                />
+              </label>
+              <label>
+                TRACK URL (GPX / JSON)
+                <input
+                  type="text"
+                  value={draft.trackUrl || ''}
+                  placeholder="/tracks/walk.gpx"
+                  onChange={(e) =>
+                    setDraft((prev) => ({ ...prev, trackUrl: e.target.value || undefined }))
+                  }
+                  style={fieldStyle}
+                />
+              </label>
+              <label>
+                TRACK FILE
+                <input
+                  type="file"
+                  accept=".gpx,.json,application/gpx+xml,application/json"
+                  onChange={handleTrackFile}
+                  style={{ ...fieldStyle, border: 'none', padding: 0 }}
+                />
+              </label>
+              {trackStatus && <span style={{ color: '#94a3b8' }}>{trackStatus}</span>}
+            </>
+          )}
+
+          {draft.kind === 'random' && (
+            <label>
+              SEED
+              <input
+                type="number"
+                value={draft.seed}
+                onChange={(e) => setDraft((prev) => ({ ...prev, seed: Number(e.target.value) }))}
+                style={fieldStyle}
+              />
+            </label>
+          )}
+
+          {draft.kind === 'manual' && (
+            <span style={{ color: '#94a3b8' }}>地図をクリックすると現在位置が移動します</span>
+          )}
+
+          <button
+            onClick={handleApply}
+            style={{
+              background: 'linear-gradient(to right, #0891b2, #0284c7)',
+              border: 'none',
+              borderRadius: '4px',
+              color: 'white',
+              cursor: 'pointer',
+              fontFamily: 'monospace',
+              fontWeight: '600',
+              padding: '6px',
+            }}
+          >
+            APPLY &amp; RELOAD
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        style={{
+          backgroundColor: 'rgba(15, 23, 42, 0.9)',
+          border: `1px solid ${selection.kind === 'gps' ? '#475569' : '#fbbf24'}`,
+          borderRadius: '8px',
+          color: selection.kind === 'gps' ? '#94a3b8' : '#fbbf24',
+          cursor: 'pointer',
+          fontFamily: 'monospace',
+          fontWeight: '600',
+          fontSize: '12px',
+          padding: '6px 12px',
+        }}
+      >
+        DEV: {SOURCE_LABELS[selection.kind]}
+      </button>
+    </div>
+  );
+}
@@ -12,27 +12,8 @@ export function ExploredAreaLayer({ exploredAreas, isVisible }: ExploredAreaLaye
   return (
     <>
       {exploredAreas.map((area, index) => {
-        // timestampの型を安全に処理
-        const getTimestamp = (timestamp: unknown): number => {
-          if (
-            timestamp &&
-            typeof (timestamp as { getTime?: () => number }).getTime === 'function'
-          ) {
-            return (timestamp as { getTime: () => number }).getTime();
-          } else if (
-            timestamp &&
-            typeof (timestamp as { toDate?: () => Date }).toDate === 'function'
-          ) {
-            // Firestore Timestamp
-            return (timestamp as { toDate: () => Date }).toDate().getTime();
-          } else if (timestamp && typeof (timestamp as { seconds?: number }).seconds === 'number') {
-            // Firestore Timestamp object
-            return (timestamp as { seconds: number }).seconds * 1000;
-          }
-          return Date.now();
-        };
-
-        const timestamp = getTimestamp(area.timestamp);
+        // リポジトリの読み込み時に Date へ変換済み
+        const timestamp = area.timestamp.getTime();
 
         return (
           <div key={`explored-area-${index}-${timestamp}`}>
@@ -0,0 +1,17 @@
+import { useMapEvents } from 'react-leaflet';
+import type { ManualPositionSource } from '../types/Tracking';
+
+interface ManualPositionControlProps {
+  source: ManualPositionSource;
+}
+
+// 手動ソース選択時、地図クリックで現在位置を移動する
+export function ManualPositionControl({ source }: ManualPositionControlProps) {
+  useMapEvents({
+    click(event) {
+      source.moveTo(event.latlng.lat, event.latlng.lng);
+    },
+  });
+
+  return null;
+}
@@ -1,20 +1,79 @@
 import React, { useCallback } from 'react';
 import type { MapHeaderProps } from '../types/MapHeader';
+import type { AccuracyModeReason } from '../types/Tracking';
+import { ActivitySelector } from './ActivitySelector';
+import { StorageModeSelector } from './StorageModeSelector';
+import { describeSessionMetrics, formatPace } from '../utils/sessionMetrics';
+import { formatDistance, formatDuration } from '../utils/sessionSummary';
+import { formatArea } from '../utils/explorationUtils';
+
+// 送信待ちの状態の説明（データ数表示のツールチップ）
+const describeSyncStatus = (syncStatus: MapHeaderProps['syncStatus'], pendingCount: number) => {
+  switch (syncStatus.state) {
+    case 'offline':
+      return `オフラインのため ${pendingCount} 件の送信を待っています`;
+    case 'error': {
+      const retryAt = syncStatus.nextRetryAt
+        ? new Date(syncStatus.nextRetryAt).toLocaleTimeString('ja-JP')
+        : '';
+      return `送信に失敗しました（${syncStatus.failureCount} 回）。${retryAt} に再試行します`;
+    }
+    case 'syncing':
+      return '送信中';
+    default:
+      return pendingCount > 0 ? `${pendingCount} 件が送信待ちです` : 'すべて送信済みです';
+  }
+};
+
+// 古いポイントの間引き結果の説明（データ数表示のツールチップ）
+const describeRetentionReport = (report: MapHeaderProps['retentionReport']) =>
+  report && report.pointsRemoved > 0
+    ? `\n古いポイントを整理: ${report.pointsRemoved} 件 / 約 ${(report.bytesReclaimed / 1024).toFixed(1)}KB 削減（${report.ranAt.toLocaleDateString('ja-JP')}）`
+    : '';
+
+// 測位精度モードの理由の表示用ラベル
+const ACCURACY_REASON_LABELS: Record<AccuracyModeReason, string> = {
+  profile: 'アクティビティの既定値',
+  moving_fast: '高速移動中',
+  poor_accuracy: '測位誤差が大きい',
+  stationary: '静止中',
+  battery_low: 'バッテリー残量が少ない',
+};
 
 export const MapHeader = React.memo<MapHeaderProps>(
   ({
     user,
     isTracking,
+    isPaused,
+    isStationary,
+    startError,
+    isReadOnly,
+    isOtherTabTracking,
+    isOtherDeviceTracking,
     totalPointsCount,
     pendingCount,
+    syncStatus,
+    retentionReport,
+    historySync,
+    isLiveSynced,
+    sessionMetrics,
     lastLocationUpdate,
+    accuracyMode,
     isUploading,
     fileInputRef,
     onStartTracking,
     onStopTracking,
+    onPauseTracking,
+    onResumeTracking,
     onCameraClick,
     onFileSelect,
     onLogout,
+    activity,
+    customProfile,
+    onActivityChange,
+    onCustomProfileChange,
+    storageMode,
+    onStorageModeChange,
   }) => {
     // ボタンイベントハンドラー（メモ化）
     const handleRecordButtonMouseEnter = useCallback(
@@ -77,6 +136,14 @@ export const MapHeader = React.memo<MapHeaderProps>(
       }
     }, [isTracking, onStartTracking, onStopTracking]);
 
+    const handlePauseButtonClick = useCallback(() => {
+      if (isPaused) {
+        onResumeTracking();
+      } else {
+        onPauseTracking();
+      }
+    }, [isPaused, onPauseTracking, onResumeTracking]);
+
     return (
       <div
         style={{
@@ -95,15 +162,18 @@ export const MapHeader = React.memo<MapHeaderProps>(
           height: '48px',
         }}
       >
-        {/* 左側：記録ボタン */}
+        {/* 左側：記録ボタン（別のタブが記録を担当している間は押せない） */}
         <button
           onClick={handleRecordButtonClick}
+          disabled={isReadOnly}
+          title={isReadOnly ? '別のタブで開いているため、このタブでは記録できません' : undefined}
           style={{
             backgroundColor: 'transparent',
             border: 'none',
             borderRadius: '8px',
             padding: '6px 12px',
-            cursor: 'pointer',
+            cursor: isReadOnly ? 'not-allowed' : 'pointer',
+            opacity: isReadOnly ? 0.5 : 1,
             transition: 'all 0.3s ease',
             background: isTracking
               ? 'linear-gradient(to right, #dc2626, #b91c1c)'
@@ -135,6 +205,122 @@ export const MapHeader = React.memo<MapHeaderProps>(
           </span>
         </button>
 
+        {/* 一時停止・再開ボタン（記録中のみ） */}
+        {isTracking && (
+          <button
+            onClick={handlePauseButtonClick}
+            title={isPaused ? '記録を再開' : '記録を一時停止'}
+            style={{
+              background: isPaused ? 'rgba(16, 185, 129, 0.15)' : 'rgba(251, 191, 36, 0.15)',
+              border: `1px solid ${isPaused ? '#10b981' : '#fbbf24'}`,
+              borderRadius: '8px',
+              padding: '6px 10px',
+              cursor: 'pointer',
+              color: isPaused ? '#34d399' : '#fbbf24',
+              fontWeight: '600',
+              fontSize: '12px',
+              fontFamily: 'monospace',
+              letterSpacing: '0.5px',
+              minWidth: '48px',
+              height: '32px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+            }}
+          >
+            {isPaused ? 'RESUME' : 'PAUSE'}
+          </button>
+        )}
+
+        {/* 別のタブ・端末で記録中の表示 */}
+        {(isReadOnly || (isOtherDeviceTracking && !isTracking)) && (
+          <div
+            title={
+              isReadOnly
+                ? isOtherTabTracking
+                  ? '別のタブで記録中です（このタブは閲覧のみ）'
+                  : '別のタブで開いています（このタブは閲覧のみ）'
+                : '別の端末で記録中です（記録を開始すると引き継げます）'
+            }
+            style={{
+              border: '1px solid #475569',
+              borderRadius: '8px',
+              padding: '6px 8px',
+              color: isOtherTabTracking || isOtherDeviceTracking ? '#f87171' : '#94a3b8',
+              fontFamily: 'monospace',
+              fontSize: '12px',
+              fontWeight: '600',
+              height: '32px',
+              boxSizing: 'border-box',
+              display: 'flex',
+              alignItems: 'center',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {isReadOnly ? 'OTHER TAB' : 'OTHER DEVICE'}
+          </div>
+        )}
+
+        {/* 静止による自動一時停止中の表示 */}
+        {isStationary && (
+          <div
+            title="静止しているため記録を自動で一時停止しています（移動すると再開します）"
+            style={{
+              border: '1px solid #475569',
+              borderRadius: '8px',
+              padding: '6px 8px',
+              color: '#94a3b8',
+              fontFamily: 'monospace',
+              fontSize: '12px',
+              fontWeight: '600',
+              height: '32px',
+              boxSizing: 'border-box',
+              display: 'flex',
+              alignItems: 'center',
+            }}
+          >
+            STAY
+          </div>
+        )}
+
+        {/* 記録を開始できなかった場合の表示 */}
+        {startError && !isTracking && (
+          <div
+            title={startError}
+            style={{
+              border: '1px solid #f87171',
+              borderRadius: '8px',
+              padding: '6px 8px',
+              color: '#f87171',
+              fontFamily: 'monospace',
+              fontSize: '12px',
+              fontWeight: '600',
+              height: '32px',
+              boxSizing: 'border-box',
+              display: 'flex',
+              alignItems: 'center',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            START FAILED
+          </div>
+        )}
+
+        {/* アクティビティ選択 */}
+        <ActivitySelector
+          activity={activity}
+          customProfile={customProfile}
+          disabled={isTracking}
+          onActivityChange={onActivityChange}
+          onCustomProfileChange={onCustomProfileChange}
+        />
+
+        <StorageModeSelector
+          storageMode={storageMode}
+          disabled={isTracking}
+          onStorageModeChange={onStorageModeChange}
+        />
+
         {/* カメラボタン */}
         <button
           onClick={onCameraClick}
@@ -184,12 +370,70 @@ export const MapHeader = React.memo<MapHeaderProps>(
           style={{ display: 'none' }}
         />
 
-        {/* データ数表示 */}
+        {/* 履歴の読み込み中の表示 */}
+        {historySync.isSyncing && (
+          <div
+            title={
+              historySync.isInitialLoad
+                ? `履歴を読み込んでいます（${historySync.loadedSessions} セッション）`
+                : '更新された履歴を読み込んでいます'
+            }
+            style={{
+              border: '1px solid #1e293b',
+              borderRadius: '8px',
+              padding: '6px 8px',
+              color: '#67e8f9',
+              fontFamily: 'monospace',
+              fontSize: '12px',
+              fontWeight: '600',
+              height: '32px',
+              boxSizing: 'border-box',
+              display: 'flex',
+              alignItems: 'center',
+              opacity: 0.8,
+            }}
+          >
+            {historySync.isInitialLoad ? `SYNC ${historySync.loadedSessions}` : 'SYNC'}
+          </div>
+        )}
+
+        {/* 履歴・写真が最新の状態であることの表示 */}
+        {!historySync.isSyncing && isLiveSynced && (
+          <div
+            title="履歴と写真は最新の状態です（他の端末の変更も自動で反映されます）"
+            style={{
+              border: '1px solid #1e293b',
+              borderRadius: '8px',
+              padding: '6px 8px',
+              color: '#4ade80',
+              fontFamily: 'monospace',
+              fontSize: '12px',
+              fontWeight: '600',
+              height: '32px',
+              boxSizing: 'border-box',
+              display: 'flex',
+              alignItems: 'center',
+            }}
+          >
+            SYNCED
+          </div>
+        )}
+
+        {/* データ数表示（送信に失敗・オフライン中は枠を強調） */}
         <div
+          title={
+            describeSyncStatus(syncStatus, pendingCount) + describeRetentionReport(retentionReport)
+          }
           style={{
             backgroundColor: 'rgba(15, 23, 42, 0.8)',
             backdropFilter: 'blur(10px)',
-            border: '1px solid #1e293b',
+            border: `1px solid ${
+              syncStatus.state === 'error'
+                ? '#f87171'
+                : syncStatus.state === 'offline'
+                  ? '#fbbf24'
+                  : '#1e293b'
+            }`,
             borderRadius: '8px',
             padding: '6px 12px',
             color: '#67e8f9',
@@ -205,11 +449,54 @@ export const MapHeader = React.memo<MapHeaderProps>(
             justifyContent: 'center',
           }}
         >
+          {(syncStatus.state === 'error' || syncStatus.state === 'offline') && (
+            <span
+              style={{
+                marginRight: '6px',
+                color: syncStatus.state === 'error' ? '#f87171' : '#fbbf24',
+              }}
+            >
+              {syncStatus.state === 'error' ? '⚠' : 'OFF'}
+            </span>
+          )}
           <span>{totalPointsCount}</span>
           <span style={{ margin: '0 4px', opacity: 0.7 }}>:</span>
           <span style={{ color: pendingCount > 0 ? '#fbbf24' : '#67e8f9' }}>{pendingCount}</span>
         </div>
 
+        {/* 記録中のセッションの統計（距離・移動時間・平均ペース・新たに探索した面積） */}
+        {isTracking && sessionMetrics && (
+          <div
+            title={describeSessionMetrics(sessionMetrics)
+              .map(({ label, value }) => `${label}: ${value}`)
+              .join('\n')}
+            style={{
+              backgroundColor: 'rgba(15, 23, 42, 0.8)',
+              backdropFilter: 'blur(10px)',
+              border: '1px solid #1e293b',
+              borderRadius: '8px',
+              padding: '6px 12px',
+              color: '#e2e8f0',
+              fontFamily: 'monospace',
+              fontSize: '12px',
+              fontWeight: '600',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              height: '32px',
+              boxSizing: 'border-box',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            <span>{formatDistance(sessionMetrics.distance)}</span>
+            <span style={{ color: '#94a3b8' }}>{formatDuration(sessionMetrics.movingTime)}</span>
+            {sessionMetrics.averagePace !== undefined && (
+              <span style={{ color: '#94a3b8' }}>{formatPace(sessionMetrics.averagePace)}</span>
+            )}
+            <span style={{ color: '#4ade80' }}>+{formatArea(sessionMetrics.newArea)}</span>
+          </div>
+        )}
+
         {/* 位置情報取得日時表示 */}
         {lastLocationUpdate && (
           <div
@@ -242,6 +529,36 @@ export const MapHeader = React.memo<MapHeaderProps>(
           </div>
         )}
 
+        {/* 測位精度モード表示（記録中のみ） */}
+        {isTracking && !isPaused && accuracyMode && (
+          <div
+            title={`測位精度: ${accuracyMode.mode === 'high' ? '高精度' : '省電力'}（${ACCURACY_REASON_LABELS[accuracyMode.reason]}）`}
+            style={{
+              backgroundColor: 'rgba(15, 23, 42, 0.8)',
+              backdropFilter: 'blur(10px)',
+              border: '1px solid #1e293b',
+              borderRadius: '8px',
+              padding: '6px 8px',
+              color: accuracyMode.mode === 'high' ? '#fbbf24' : '#34d399',
+              fontFamily: 'monospace',
+              fontSize: '12px',
+              fontWeight: '600',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              height: '32px',
+              boxSizing: 'border-box',
+            }}
+          >
+            <span>{accuracyMode.mode === 'high' ? 'HI' : 'ECO'}</span>
+            {accuracyMode.reason !== 'profile' && (
+              <span style={{ color: '#94a3b8', fontWeight: '400' }}>
+                {ACCURACY_REASON_LABELS[accuracyMode.reason]}
+              </span>
+            )}
+          </div>
+        )}
+
         {/* アップロード中のローディングアイコン */}
         {isUploading && (
           <div
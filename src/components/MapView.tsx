@@ -1,29 +1,37 @@
-import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
-import { MapContainer, TileLayer, Polyline, Marker, Popup } from 'react-leaflet';
-import type { LatLngExpression } from 'leaflet';
-import {
-  collection,
-  addDoc,
-  query,
-  where,
-  updateDoc,
-  doc,
-  arrayUnion,
-  getDocs,
-} from 'firebase/firestore';
-import { db } from '../firebase';
+import { useEffect, useCallback, useMemo } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, CircleMarker } from 'react-leaflet';
 import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
 import { ExploredAreaLayer } from './ExploredAreaLayer';
 import { MapHeader } from './MapHeader';
 import { LocationUpdater } from './LocationUpdater';
+import { DevSourceMenu } from './DevSourceMenu';
+import { ManualPositionControl } from './ManualPositionControl';
+import { SessionTrail } from './SessionTrail';
+import { SessionBoundsFitter } from './SessionBoundsFitter';
+import { SessionHistoryPanel } from './SessionHistoryPanel';
+import { SessionEditor } from './SessionEditor';
+import { PlaybackLayer } from './PlaybackLayer';
+import { PlaybackControls } from './PlaybackControls';
 import { usePhotoUpload } from '../hooks/usePhotoUpload';
 import { useDataManagement } from '../hooks/useDataManagement';
-import { TRACKING_CONFIG } from '../constants/tracking';
-import { addPointToExploredAreas, calculateDistance } from '../utils/explorationUtils';
+import { useTrackingEngine } from '../hooks/useTrackingEngine';
+import { useActivityProfile } from '../hooks/useActivityProfile';
+import { useStorageMode } from '../hooks/useStorageMode';
+import { useRetentionPolicy } from '../hooks/useRetentionPolicy';
+import { useSessionHistory } from '../hooks/useSessionHistory';
+import { useSessionEditor } from '../hooks/useSessionEditor';
+import { useSessionPlayback } from '../hooks/useSessionPlayback';
+import {
+  createPositionSource,
+  isDevMenuEnabled,
+  isManualSource,
+  readSourceSelection,
+} from '../tracking/positionSourceSelection';
+import { addPointToExploredAreas } from '../utils/explorationUtils';
+import { calculateSessionMetrics, indexExploredAreas } from '../utils/sessionMetrics';
 import { emojiIcon, photoIcon } from '../utils/mapIcons';
-import { interpolateSpline, optimizePoints } from '../utils/splineInterpolation';
 import { configureLeafletDefaults } from '../constants/leaflet';
-import { MAP_STYLES } from '../constants/ui';
+import { MAP_STYLES, TRAIL_COLORS } from '../constants/ui';
 import 'leaflet/dist/leaflet.css';
 
 // Leafletのデフォルト設定を適用
@@ -36,558 +44,193 @@ interface MapViewProps {
 }
 
 export function MapView({ userId, user, onLogout }: MapViewProps) {
-  const [currentPosition, setCurrentPosition] = useState<LatLngExpression | null>(null);
-  const [isTracking, setIsTracking] = useState(false);
-  const [trackingSession, setTrackingSession] = useState<TrackingSession | null>(null);
-  const [pendingCount, setPendingCount] = useState(0);
-  const [lastLocationUpdate, setLastLocationUpdate] = useState<Date | null>(null);
-
   // データ管理機能をカスタムフックで管理
   const {
     setExploredAreas,
     combinedExploredAreas,
     totalPointsCount,
     showExplorationLayer,
+    historyExploredAreas,
+    historySync,
+    historySessions,
     loadSessionData,
+    applySessionEdits,
   } = useDataManagement({
     userId,
   });
 
-  const watchIdRef = useRef<number | null>(null);
-  const batchIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastPositionRef = useRef<{ lat: number; lng: number; timestamp: number } | null>(null);
-  const pendingPointsRef = useRef<GeoPoint[]>([]);
-  const autoStartRef = useRef<boolean>(false);
+  // アクティビティ（徒歩・ランニング・自転車・カスタム）毎のトラッキング設定
+  const { activity, profile, customProfile, engineConfig, setActivity, updateCustomProfile } =
+    useActivityProfile();
 
-  // 写真アップロード機能をカスタムフックで管理
-  const { photos, isUploading, fileInputRef, handleCameraClick, handleFileSelect, loadPhotoData } =
-    usePhotoUpload({
-      userId,
-      currentPosition,
-      trackingSessionId: trackingSession?.id,
-      onUploadComplete: () => {
-        console.log('Photo upload completed');
-      },
-    });
-
-  // バッチ処理でFirestoreに送信（増分保存）
-  const flushPendingPoints = useCallback(
-    async (sessionId: string) => {
-      if (pendingPointsRef.current.length === 0) return;
-
-      try {
-        const pointsToUpload = [...pendingPointsRef.current];
-        console.log('flushPendingPoints: pointsToUpload: ', pointsToUpload.length);
-
-        // Firestoreに新しいポイントのみを追加
-        const sessionRef = doc(db, 'sessions', sessionId);
-        await updateDoc(sessionRef, {
-          points: arrayUnion(...pointsToUpload),
-          storageMode: 'incremental',
-          minDistance: 10, // 固定値を使用
-        });
-
-        // 成功後にクリア
-        pendingPointsRef.current = [];
-        setPendingCount(0);
-      } catch (error) {
-        console.error('Failed to flush pending points:', error);
-      }
-    },
-    [setPendingCount]
+  // 新規セッションの保存モード（ポイント・探索エリアのどちらを保存するか）
+  const { storageMode, setStorageMode } = useStorageMode();
+  const trackingConfig = useMemo(
+    () => ({ ...engineConfig, storageMode }),
+    [engineConfig, storageMode]
   );
 
-  // 位置情報の妥当性チェック
-  const validatePosition = useCallback((position: GeolocationPosition): boolean => {
-    const { accuracy, latitude, longitude } = position.coords;
-    const now = Date.now();
-
-    // 1. 精度フィルタリング（100m以上の誤差は除外）
-    if (accuracy > 100) {
-      return false;
-    }
-
-    // 2. 緯度経度の妥当性チェック
-    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
-      return false;
-    }
-
-    // 3. 移動速度チェック（前の位置がある場合）
-    if (lastPositionRef.current) {
-      const distance = calculateDistance(
-        lastPositionRef.current.lat,
-        lastPositionRef.current.lng,
-        latitude,
-        longitude
-      );
-
-      const timeDiff = (now - (lastPositionRef.current.timestamp || 0)) / 1000; // 秒
-      const speed = distance / timeDiff; // m/s
-      const speedKmh = speed * 3.6; // km/h
-
-      // 人間の歩行速度（時速20km以下に制限）
-      if (speedKmh > 20) {
-        return false;
-      }
-    }
-
-    return true;
-  }, []);
-
-  // 最適化設定（固定）- useMemoで無駄な再レンダリングを防止
-  const optimizationSettings = useMemo(
-    () => ({
-      minDistance: TRACKING_CONFIG.MIN_DISTANCE,
-      batchInterval: TRACKING_CONFIG.BATCH_INTERVAL,
-    }),
-    []
-  );
-
-  // 距離ベースの位置更新判定
-  const shouldUpdatePosition = useCallback(
-    (newLat: number, newLng: number): boolean => {
-      if (!lastPositionRef.current) {
-        return true;
-      }
-
-      const distance = calculateDistance(
-        lastPositionRef.current.lat,
-        lastPositionRef.current.lng,
-        newLat,
-        newLng
-      );
-
-      return distance >= optimizationSettings.minDistance;
+  // 記録されたポイントで探索エリアを増分更新（セッションの探索半径を使用）
+  const handlePointRecorded = useCallback(
+    (point: GeoPoint, session: TrackingSession | null) => {
+      const radius = session?.explorationRadius ?? profile.explorationRadius;
+      setExploredAreas((prevAreas) => addPointToExploredAreas(prevAreas, point, userId, radius));
     },
-    [optimizationSettings.minDistance]
+    [setExploredAreas, userId, profile.explorationRadius]
   );
 
-  // 位置情報エラーハンドリングの共通関数
-  const handleGeolocationError = useCallback((error: GeolocationPositionError) => {
-    let errorDetails = '';
-    switch (error.code) {
-      case 1:
-        errorDetails = 'PERMISSION_DENIED: トラッキング中に位置情報の使用が拒否されました';
-        break;
-      case 2:
-        errorDetails = 'POSITION_UNAVAILABLE: トラッキング中に位置情報を取得できませんでした';
-        break;
-      case 3:
-        errorDetails = 'TIMEOUT: トラッキング中に位置情報の取得がタイムアウトしました';
-        break;
-      default:
-        errorDetails = `Unknown tracking error (code: ${error.code})`;
-    }
-    alert(`位置情報のトラッキング中にエラーが発生しました:\n${errorDetails}`);
-  }, []);
-
-  // 位置情報取得成功時の共通処理
-  const handlePositionUpdate = useCallback(
-    (position: GeolocationPosition) => {
-      // 位置情報取得処理のタイミングで時間を更新
-      setLastLocationUpdate(new Date());
-
-      if (!validatePosition(position)) return;
-
-      const newLat = position.coords.latitude;
-      const newLng = position.coords.longitude;
-      const now = Date.now();
+  // 位置情報ソース（URLパラメータで擬似ソースに切り替え可能）
+  const sourceSelection = useMemo(() => readSourceSelection(), []);
+  const positionSource = useMemo(() => createPositionSource(sourceSelection), [sourceSelection]);
 
-      if (!shouldUpdatePosition(newLat, newLng)) return;
+  // 位置情報の記録はトラッキングエンジンに委譲
+  const {
+    isTracking,
+    isPaused,
+    isStationary,
+    isReadOnly,
+    isOtherTabTracking,
+    isOtherDeviceTracking,
+    error: startError,
+    trackingSession,
+    currentPosition,
+    pendingCount,
+    syncStatus,
+    lastLocationUpdate,
+    accuracyMode,
+    startTracking,
+    stopTracking: stopEngine,
+    pauseTracking,
+    resumeTracking,
+  } = useTrackingEngine({
+    userId,
+    source: positionSource,
+    config: trackingConfig,
+    onPointRecorded: handlePointRecorded,
+    priorAreas: historyExploredAreas,
+  });
 
-      const newPoint: GeoPoint = {
-        lat: newLat,
-        lng: newLng,
-        timestamp: new Date(),
-      };
+  // 記録中のセッションの統計（履歴のエリアを探索済みとして新たに探索した面積を求める）
+  // 統計はポイント毎に計算し直すため、履歴のエリアの索引は履歴が変わった時のみ作る
+  const priorAreaIndex = useMemo(
+    () => indexExploredAreas(historyExploredAreas),
+    [historyExploredAreas]
+  );
+  const sessionMetrics = useMemo(
+    () => (trackingSession ? calculateSessionMetrics(trackingSession, priorAreaIndex) : null),
+    [trackingSession, priorAreaIndex]
+  );
 
-      setCurrentPosition([newLat, newLng]);
-      lastPositionRef.current = { lat: newLat, lng: newLng, timestamp: now };
+  // 保存期間を過ぎた生ポイントを間引き、間引いたら履歴を読み直す
+  const reloadHistory = useCallback(() => loadSessionData(true), [loadSessionData]);
+  const { retentionReport } = useRetentionPolicy({
+    userId,
+    enabled: !isReadOnly,
+    onComplete: reloadHistory,
+  });
 
-      pendingPointsRef.current.push(newPoint);
-      setPendingCount(pendingPointsRef.current.length);
+  // 写真アップロード機能をカスタムフックで管理
+  const {
+    photos,
+    isUploading,
+    isPhotoSynced,
+    fileInputRef,
+    handleCameraClick,
+    handleFileSelect,
+    loadPhotoData,
+  } = usePhotoUpload({
+    userId,
+    currentPosition,
+    trackingSessionId: trackingSession?.id,
+    onUploadComplete: () => {
+      console.log('Photo upload completed');
+    },
+  });
 
-      setTrackingSession((prev) => {
-        if (!prev) return null;
-        return { ...prev, points: [...prev.points, newPoint] };
-      });
+  // 過去のセッションの一覧と、地図に重ねて表示するセッションの選択
+  const {
+    query: historyQuery,
+    sortKey: historySortKey,
+    sortOrder: historySortOrder,
+    summaries: historySummaries,
+    selectedSessions,
+    setQuery: setHistoryQuery,
+    changeSort: changeHistorySort,
+    toggleSession: toggleHistorySession,
+    clearSelection: clearHistorySelection,
+  } = useSessionHistory({
+    sessions: historySessions,
+    photos,
+    exploredAreas: historyExploredAreas,
+  });
 
-      // 増分更新で探索エリアを効率的に更新
-      setExploredAreas((prevAreas) => {
-        return addPointToExploredAreas(prevAreas, newPoint, userId);
-      });
+  // 履歴のセッションの編集（保存後に履歴・探索エリア・統計を計算し直す）
+  const handleEditsSaved = useCallback(
+    (sessionIds: string[], removedIds: string[]) => {
+      clearHistorySelection();
+      applySessionEdits(sessionIds, removedIds);
     },
-    [validatePosition, shouldUpdatePosition, userId, setExploredAreas]
+    [clearHistorySelection, applySessionEdits]
   );
-
-  // 位置情報監視開始の共通関数
-  const startLocationWatching = useCallback(
-    (sessionId: string) => {
-      // 既存の監視をクリア
-      if (watchIdRef.current !== null) {
-        navigator.geolocation.clearWatch(watchIdRef.current);
-        watchIdRef.current = null;
-      }
-
-      // バッチ処理タイマー開始
-      if (batchIntervalRef.current) {
-        clearInterval(batchIntervalRef.current);
-      }
-
-      batchIntervalRef.current = setInterval(() => {
-        flushPendingPoints(sessionId);
-      }, optimizationSettings.batchInterval);
-
-      // 位置情報監視開始
-      if (navigator.geolocation) {
-        watchIdRef.current = navigator.geolocation.watchPosition(
-          handlePositionUpdate,
-          handleGeolocationError,
-          TRACKING_CONFIG.GEOLOCATION_OPTIONS.BATTERY_SAVING
-        );
-      }
-    },
-    [
-      handlePositionUpdate,
-      handleGeolocationError,
-      flushPendingPoints,
-      optimizationSettings.batchInterval,
-    ]
+  const sessionEditor = useSessionEditor({
+    sessions: historySessions,
+    exploredAreas: historyExploredAreas,
+    photos,
+    onSaved: handleEditsSaved,
+  });
+  const editorCursor = useMemo(() => {
+    const cursor = sessionEditor.cursor;
+    if (!cursor) return null;
+    const edited = sessionEditor.editedSessions.find(
+      ({ session }) => session.id === cursor.sessionId
+    );
+    return edited?.session.points[cursor.index] ?? null;
+  }, [sessionEditor.cursor, sessionEditor.editedSessions]);
+
+  // 編集中は編集後のセッションを、それ以外は履歴から選択したセッションを地図に表示する
+  const selectedHistorySessions = useMemo(
+    () =>
+      sessionEditor.isEditing
+        ? sessionEditor.editedSessions.map(({ session }) => session)
+        : selectedSessions.map(({ session }) => session),
+    [sessionEditor.isEditing, sessionEditor.editedSessions, selectedSessions]
   );
 
-  // スプライン補間結果をメモ化 - ポイント数とセッションIDのみで再計算判定
-  const smoothedPositions = useMemo(() => {
-    if (!trackingSession?.points || trackingSession.points.length < 2) {
-      return [];
-    }
-
-    const validPoints = trackingSession.points
-      .filter((point) => point && point.lat && point.lng)
-      .map((point) => [point.lat, point.lng] as [number, number]);
-
-    // パフォーマンス最適化：大量ポイント時は間引き処理
-    const optimizedPoints = optimizePoints(validPoints);
-
-    return interpolateSpline(optimizedPoints);
-  }, [trackingSession?.points]);
-
-  // 起動時の孤立セッションクリーンアップ
-  useEffect(() => {
-    const cleanupOrphanedSessions = async () => {
-      try {
-        const activeSessionsQuery = query(
-          collection(db, 'sessions'),
-          where('userId', '==', userId),
-          where('isActive', '==', true)
-        );
-
-        const snapshot = await getDocs(activeSessionsQuery);
-
-        if (snapshot.empty) return;
-
-        const now = new Date();
-        const autoResumeSessions: TrackingSession[] = [];
-        const expiredSessions: TrackingSession[] = [];
-
-        snapshot.docs.forEach((docSnapshot) => {
-          const session = { ...docSnapshot.data(), id: docSnapshot.id } as TrackingSession;
-          const startTime =
-            session.startTime instanceof Date
-              ? session.startTime
-              : new Date(
-                  typeof session.startTime === 'object' &&
-                  session.startTime !== null &&
-                  'toDate' in session.startTime
-                    ? (session.startTime as { toDate: () => Date }).toDate()
-                    : session.startTime
-                );
-
-          const minutesDiff = (now.getTime() - startTime.getTime()) / (1000 * 60);
-
-          if (minutesDiff > TRACKING_CONFIG.SESSION_TIMEOUT / (60 * 1000)) {
-            // 設定時間以上経過したセッションは強制終了
-            expiredSessions.push(session);
-          } else {
-            // 設定時間以内のセッションは自動継続
-            autoResumeSessions.push(session);
-          }
-        });
-
-        // 設定時間以上前のセッションは自動的に終了
-        const cleanupPromises = expiredSessions.map(async (session) => {
-          const sessionRef = doc(db, 'sessions', session.id);
-          await updateDoc(sessionRef, {
-            isActive: false,
-            endTime: now,
-          });
-        });
-
-        await Promise.all(cleanupPromises);
-
-        // 設定時間以内のセッションは自動継続
-        if (autoResumeSessions.length > 0) {
-          const sessionToResume = autoResumeSessions[0];
-
-          // 既存セッションを継続
-          setTrackingSession(sessionToResume);
-          setIsTracking(true);
-
-          // 位置情報監視を再開
-          startLocationWatching(sessionToResume.id);
-        } else {
-          // アクティブセッションがない場合、記録状態を確認
-          const hasVisited = localStorage.getItem('footpath_visited');
-          const wasTracking = localStorage.getItem('footpath_was_tracking');
-
-          if (hasVisited && wasTracking === 'true' && !isTracking) {
-            // 前回記録中だった場合、自動的に新しいセッションを開始
-            setTimeout(() => {
-              startTracking();
-            }, 2000); // 2秒後に自動開始
-          }
-        }
-      } catch (error) {
-        console.error('Failed to cleanup orphaned sessions:', error);
-      }
-    };
-
-    cleanupOrphanedSessions();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [userId, isTracking, startLocationWatching]);
+  // 記録したセッションの再生（再生中は探索エリアを再生位置の時刻までのものに絞る）
+  const playback = useSessionPlayback({
+    sessions: historySessions,
+    photos,
+    exploredAreas: historyExploredAreas,
+  });
+  const playbackHead = useMemo(
+    () => (playback.head ? ([playback.head.lat, playback.head.lng] as [number, number]) : null),
+    [playback.head]
+  );
 
-  // ページ終了時のクリーンアップとvisibility管理
-  useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible' && trackingSession?.isActive && isTracking) {
-        // フォアグラウンド復帰時、記録中なら位置情報監視を再開
-        console.log('App returned to foreground - resuming position watching');
-
-        if (trackingSession) {
-          startLocationWatching(trackingSession.id);
-        }
-      } else if (document.visibilityState === 'hidden' && isTracking) {
-        // バックグラウンド時の処理 - リソース節約のため位置情報監視とタイマーを停止
-        console.log('App moved to background - pausing tracking resources');
-
-        // バッチ処理タイマーを停止
-        if (batchIntervalRef.current) {
-          clearInterval(batchIntervalRef.current);
-          batchIntervalRef.current = null;
-        }
-
-        // 位置情報監視を停止
-        if (watchIdRef.current !== null) {
-          navigator.geolocation.clearWatch(watchIdRef.current);
-          watchIdRef.current = null;
-        }
-
-        // pending pointsがあれば最後に一度フラッシュ
-        if (trackingSession && pendingPointsRef.current.length > 0) {
-          flushPendingPoints(trackingSession.id);
-        }
-      }
-    };
-
-    // beforeunloadイベントでは非同期処理が制限されるため、
-    // 同期的にFirestoreに送信を試みる
-    const handleSyncBeforeUnload = () => {
-      if (trackingSession?.isActive) {
-        // Navigator.sendBeacon を使用して同期的に送信
-        const updateData = {
-          endTime: new Date(),
-          isActive: false,
-        };
-
-        // 可能であれば sendBeacon で送信
-        if (navigator.sendBeacon) {
-          const url = `https://firestore.googleapis.com/v1/projects/${process.env.REACT_APP_FIREBASE_PROJECT_ID}/databases/(default)/documents/sessions/${trackingSession.id}`;
-          const payload = JSON.stringify(updateData);
-          navigator.sendBeacon(url, payload);
-        }
-      }
-    };
-
-    window.addEventListener('beforeunload', handleSyncBeforeUnload);
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-
-    return () => {
-      window.removeEventListener('beforeunload', handleSyncBeforeUnload);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [
-    trackingSession?.id,
-    isTracking,
-    flushPendingPoints,
-    optimizationSettings,
-    startLocationWatching,
-    trackingSession,
-  ]);
+  // セッションを選択中はそのセッションの写真のみ表示する（再生中は撮影時刻に達した写真を別に表示する）
+  const visiblePhotos = useMemo(() => {
+    if (playback.isActive) return [];
+    if (selectedHistorySessions.length === 0) return photos;
+    const sessionIds = new Set(selectedHistorySessions.map((session) => session.id));
+    return photos.filter((photo) => photo.sessionId && sessionIds.has(photo.sessionId));
+  }, [photos, selectedHistorySessions, playback.isActive]);
 
   // 写真データの初回ロード
   useEffect(() => {
     loadPhotoData();
   }, [loadPhotoData]);
 
-  // コンポーネントアンマウント時の確実なクリーンアップ
-  useEffect(() => {
-    return () => {
-      // 位置情報監視のクリーンアップ
-      if (watchIdRef.current !== null) {
-        navigator.geolocation.clearWatch(watchIdRef.current);
-        watchIdRef.current = null;
-      }
-      // バッチ処理タイマーのクリーンアップ
-      if (batchIntervalRef.current) {
-        clearInterval(batchIntervalRef.current);
-        batchIntervalRef.current = null;
-      }
-    };
-  }, []);
-
-  useEffect(() => {
-    // デバッグ情報の出力
-
-    // HTTPS確認
-    if (window.location.protocol !== 'https:' && window.location.hostname !== 'localhost') {
-      // HTTPS環境でのみ動作
-    }
-
-    // パーミッション状態の確認
-    if ('permissions' in navigator) {
-      navigator.permissions
-        .query({ name: 'geolocation' })
-        .then((result) => {
-          if (result.state === 'denied') {
-            // パーミッションが拒否されている
-          } else if (result.state === 'prompt') {
-            // パーミッションプロンプト表示
-          } else if (result.state === 'granted') {
-            // パーミッション許可済み
-          }
-        })
-        .catch(() => {
-          // パーミッション状態確認エラー
-        });
-    }
-
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          // 初期位置取得時もバリデーション
-          if (!validatePosition(position)) {
-            const tokyoStation: LatLngExpression = [35.6812, 139.7671];
-            setCurrentPosition(tokyoStation);
-            setLastLocationUpdate(new Date()); // フォールバック位置でも日時を設定
-            return;
-          }
-
-          const pos: LatLngExpression = [position.coords.latitude, position.coords.longitude];
-          setCurrentPosition(pos);
-          lastPositionRef.current = {
-            lat: position.coords.latitude,
-            lng: position.coords.longitude,
-            timestamp: Date.now(),
-          };
-          setLastLocationUpdate(new Date());
-
-          // 自動記録開始チェック
-          const hasVisited = localStorage.getItem('footpath_visited');
-          if (!hasVisited && !autoStartRef.current) {
-            // 初回アクセス時
-            autoStartRef.current = true;
-            localStorage.setItem('footpath_visited', 'true');
-            // 位置情報取得後に自動的に記録開始
-            setTimeout(() => {
-              startTracking();
-            }, 1000);
-          } else if (hasVisited && !autoStartRef.current && !isTracking) {
-            // 再読み込み時の自動記録再開チェック
-            // アクティブセッションがあるかどうかを後で確認
-            autoStartRef.current = true;
-          }
-        },
-        () => {
-          // エラー時は東京駅の座標を設定
-          const tokyoStation: LatLngExpression = [35.6812, 139.7671];
-          setCurrentPosition(tokyoStation);
-          setLastLocationUpdate(new Date()); // エラー時のフォールバック位置でも日時を設定
-        },
-        TRACKING_CONFIG.GEOLOCATION_OPTIONS.BATTERY_SAVING
-      );
-    } else {
-      alert('お使いのブラウザは位置情報をサポートしていません');
-      // 位置情報をサポートしていない場合は東京駅を設定
-      const tokyoStation: LatLngExpression = [35.6812, 139.7671];
-      setCurrentPosition(tokyoStation);
-      setLastLocationUpdate(new Date()); // 非サポート時でも日時を設定
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isTracking]);
-
-  const startTracking = useCallback(async () => {
-    if (!navigator.geolocation) {
-      return;
-    }
-
-    setIsTracking(true);
-
-    // 記録状態をLocalStorageに保存
-    localStorage.setItem('footpath_was_tracking', 'true');
-
-    const newSession: Omit<TrackingSession, 'id'> = {
-      userId,
-      points: [],
-      startTime: new Date(),
-      isActive: true,
-      storageMode: 'incremental',
-      minDistance: optimizationSettings.minDistance,
-    };
-
-    const docRef = await addDoc(collection(db, 'sessions'), newSession);
-    const sessionId = docRef.id;
-
-    setTrackingSession({ ...newSession, id: sessionId });
-
-    // 位置情報監視開始
-    startLocationWatching(sessionId);
-  }, [userId, startLocationWatching, optimizationSettings.minDistance]);
-
-  const stopTracking = async () => {
-    setIsTracking(false);
+  const stopTracking = useCallback(async () => {
+    const hadSession = trackingSession !== null;
+    await stopEngine();
 
-    // 記録停止状態をLocalStorageに保存
-    localStorage.setItem('footpath_was_tracking', 'false');
-
-    if (watchIdRef.current !== null) {
-      navigator.geolocation.clearWatch(watchIdRef.current);
-      watchIdRef.current = null;
-    }
-
-    if (batchIntervalRef.current) {
-      clearInterval(batchIntervalRef.current);
-      batchIntervalRef.current = null;
-    }
-
-    if (trackingSession) {
-      // 残りのペンディングポイントをフラッシュ
-      await flushPendingPoints(trackingSession.id);
-
-      const sessionRef = doc(db, 'sessions', trackingSession.id);
-      await updateDoc(sessionRef, {
-        endTime: new Date(),
-        isActive: false,
-      });
-
-      // セッション終了後にデータを強制リフレッシュ
+    // セッション終了後にデータを強制リフレッシュ
+    // 終了したセッションの探索エリアは履歴に含まれるため、記録中のセッションの探索エリアは消す
+    if (hadSession) {
       await loadSessionData(true);
+      setExploredAreas([]);
     }
-
-    // 状態をリセット（最後の位置は保持）
-    setTrackingSession(null);
-    // lastPositionRef.current = null; // 最後の位置を保持するためコメントアウト
-    pendingPointsRef.current = [];
-    setPendingCount(0);
-  };
+  }, [trackingSession, stopEngine, loadSessionData, setExploredAreas]);
 
   return (
     <div
@@ -604,16 +247,36 @@ export function MapView({ userId, user, onLogout }: MapViewProps) {
       <MapHeader
         user={user}
         isTracking={isTracking}
+        isPaused={isPaused}
+        isStationary={isStationary}
+        startError={startError}
+        isReadOnly={isReadOnly}
+        isOtherTabTracking={isOtherTabTracking}
+        isOtherDeviceTracking={isOtherDeviceTracking}
         totalPointsCount={totalPointsCount}
         pendingCount={pendingCount}
+        syncStatus={syncStatus}
+        retentionReport={retentionReport}
+        historySync={historySync}
+        isLiveSynced={historySync.isLive && isPhotoSynced}
+        sessionMetrics={sessionMetrics}
         lastLocationUpdate={lastLocationUpdate}
+        accuracyMode={accuracyMode}
         isUploading={isUploading}
         fileInputRef={fileInputRef}
         onStartTracking={startTracking}
         onStopTracking={stopTracking}
+        onPauseTracking={pauseTracking}
+        onResumeTracking={resumeTracking}
         onCameraClick={handleCameraClick}
         onFileSelect={handleFileSelect}
         onLogout={onLogout}
+        activity={activity}
+        customProfile={customProfile}
+        onActivityChange={setActivity}
+        onCustomProfileChange={updateCustomProfile}
+        storageMode={storageMode}
+        onStorageModeChange={setStorageMode}
       />
 
       {/* 地図部分 */}
@@ -638,57 +301,62 @@ export function MapView({ userId, user, onLogout }: MapViewProps) {
           {/* 写真マーカー */}
 
           <ExploredAreaLayer
-            exploredAreas={combinedExploredAreas}
+            exploredAreas={playback.isActive ? playback.revealedAreas : combinedExploredAreas}
             isVisible={showExplorationLayer}
           />
 
-          {/* 軌跡線を最上位レイヤーに再配置（最適化済みスプライン補間） */}
-          {trackingSession &&
-            trackingSession.points &&
-            trackingSession.points.length > 1 &&
-            smoothedPositions.length > 0 && (
-              <>
-                {/* 外側のグロー効果 */}
-                <Polyline
-                  positions={smoothedPositions}
-                  pathOptions={{
-                    color: '#ff6b00',
-                    weight: 12,
-                    opacity: 0.2,
-                    lineCap: 'round',
-                    lineJoin: 'round',
-                  }}
-                  pane="tooltipPane"
-                />
-                {/* 中間のグロー効果 */}
-                <Polyline
-                  positions={smoothedPositions}
-                  pathOptions={{
-                    color: '#ff6b00',
-                    weight: 8,
-                    opacity: 0.4,
-                    lineCap: 'round',
-                    lineJoin: 'round',
-                  }}
-                  pane="tooltipPane"
-                />
-                {/* メインの線 */}
-                <Polyline
-                  positions={smoothedPositions}
-                  pathOptions={{
-                    color: '#ffaa44',
-                    weight: 4,
-                    opacity: 0.95,
-                    lineCap: 'round',
-                    lineJoin: 'round',
-                  }}
-                  pane="tooltipPane"
-                />
-              </>
-            )}
+          {/* 履歴から選択したセッションの軌跡（編集中は編集後の軌跡、再生中は表示しない） */}
+          {!playback.isActive &&
+            (sessionEditor.isEditing
+              ? sessionEditor.editedSessions.map(({ session }, i) => {
+                  const color = TRAIL_COLORS.HISTORY[i % TRAIL_COLORS.HISTORY.length];
+                  return (
+                    <SessionTrail
+                      key={session.id}
+                      points={session.points}
+                      color={color.color}
+                      glow={color.glow}
+                    />
+                  );
+                })
+              : selectedSessions.map(({ session, color }) => (
+                  <SessionTrail
+                    key={session.id}
+                    points={session.points}
+                    color={color.color}
+                    glow={color.glow}
+                  />
+                )))}
+
+          {/* 編集中のポイント */}
+          {editorCursor && (
+            <CircleMarker
+              center={[editorCursor.lat, editorCursor.lng]}
+              radius={7}
+              pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#f43f5e', fillOpacity: 0.9 }}
+            />
+          )}
+
+          {/* 記録中のセッションの軌跡（最適化済みスプライン補間） */}
+          {trackingSession && (
+            <SessionTrail
+              points={trackingSession.points}
+              color={TRAIL_COLORS.ACTIVE.color}
+              glow={TRAIL_COLORS.ACTIVE.glow}
+            />
+          )}
+
+          {/* 再生中のセッションの軌跡と、撮影時刻に達した写真 */}
+          {playback.isActive && (
+            <PlaybackLayer
+              trails={playback.trails}
+              head={playback.head}
+              photos={playback.playbackPhotos}
+            />
+          )}
 
           {/* 写真マーカーを最上位に配置 */}
-          {photos.map((photo) => (
+          {visiblePhotos.map((photo) => (
             <Marker
               key={photo.id}
               position={[photo.location.lat, photo.location.lng]}
@@ -720,8 +388,8 @@ export function MapView({ userId, user, onLogout }: MapViewProps) {
             </Marker>
           ))}
 
-          {/* 現在位置マーカーを最上位に配置 */}
-          {currentPosition && (
+          {/* 現在位置マーカーを最上位に配置（再生中は再生位置のマーカーを表示する） */}
+          {currentPosition && !playback.isActive && (
             <Marker
               position={currentPosition}
               icon={emojiIcon}
@@ -730,9 +398,76 @@ export function MapView({ userId, user, onLogout }: MapViewProps) {
             />
           )}
 
-          <LocationUpdater position={currentPosition} />
+          {/* セッションを選択中は現在位置に追従せず、選択したセッションを表示する */}
+          {/* 再生中は再生位置に追従する */}
+          <LocationUpdater
+            position={
+              playback.isActive
+                ? playbackHead
+                : selectedHistorySessions.length > 0
+                  ? null
+                  : currentPosition
+            }
+          />
+          <SessionBoundsFitter sessions={selectedHistorySessions} />
+
+          {isManualSource(positionSource) && <ManualPositionControl source={positionSource} />}
         </MapContainer>
 
+        {/* 過去のセッションの一覧（編集中は編集パネル、再生中は再生の操作に切り替える） */}
+        {playback.isActive ? (
+          <PlaybackControls
+            sessionCount={playback.sessionCount}
+            duration={playback.duration}
+            position={playback.position}
+            currentTime={playback.currentTime}
+            isPlaying={playback.isPlaying}
+            speed={playback.speed}
+            onPlay={playback.play}
+            onPause={playback.pause}
+            onSeek={playback.seek}
+            onSpeedChange={playback.setSpeed}
+            onClose={playback.close}
+          />
+        ) : sessionEditor.isEditing ? (
+          <SessionEditor
+            sessions={sessionEditor.editedSessions}
+            deletedCount={sessionEditor.deletedCount}
+            canUndo={sessionEditor.canUndo}
+            isSaving={sessionEditor.isSaving}
+            error={sessionEditor.error}
+            onCursorChange={sessionEditor.setCursor}
+            onTrim={sessionEditor.trim}
+            onSplit={sessionEditor.split}
+            onMerge={sessionEditor.merge}
+            onRemovePoint={sessionEditor.removeOutlier}
+            onDelete={sessionEditor.deleteSession}
+            onUndo={sessionEditor.undo}
+            onCancel={sessionEditor.closeEditor}
+            onSave={sessionEditor.save}
+          />
+        ) : (
+          <SessionHistoryPanel
+            summaries={historySummaries}
+            totalCount={historySessions.length}
+            selectedSessions={selectedSessions}
+            photos={photos}
+            query={historyQuery}
+            sortKey={historySortKey}
+            sortOrder={historySortOrder}
+            onQueryChange={setHistoryQuery}
+            onSortChange={changeHistorySort}
+            onToggleSession={toggleHistorySession}
+            onClearSelection={clearHistorySelection}
+            onEditSession={sessionEditor.openEditor}
+            onPlaySessions={playback.playSessions}
+            onPlayRange={playback.playRange}
+          />
+        )}
+
+        {/* 開発者メニュー（位置情報ソースの切り替え） */}
+        {isDevMenuEnabled() && <DevSourceMenu selection={sourceSelection} />}
+
         {/* Leafletのズームコントロール位置調整 */}
         <style>{`
           .leaflet-control-zoom {
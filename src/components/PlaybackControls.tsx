@@ -0,0 +1,121 @@
+import { PLAYBACK_CONFIG } from '../constants/ui';
+import { formatDuration, formatSessionDate } from '../utils/sessionSummary';
+
+interface PlaybackControlsProps {
+  sessionCount: number;
+  duration: number; // ms
+  position: number; // ms
+  currentTime: Date | null;
+  isPlaying: boolean;
+  speed: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (position: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onClose: () => void;
+}
+
+const buttonStyle = (isActive = false): React.CSSProperties => ({
+  backgroundColor: isActive ? 'rgba(8, 145, 178, 0.25)' : 'transparent',
+  border: `1px solid ${isActive ? '#06b6d4' : '#475569'}`,
+  borderRadius: '4px',
+  color: isActive ? '#67e8f9' : '#94a3b8',
+  cursor: 'pointer',
+  fontFamily: 'monospace',
+  fontSize: '11px',
+  fontWeight: '600',
+  padding: '4px 6px',
+});
+
+// セッションの再生の操作（再生・一時停止・速度・再生位置の移動）
+export function PlaybackControls({
+  sessionCount,
+  duration,
+  position,
+  currentTime,
+  isPlaying,
+  speed,
+  onPlay,
+  onPause,
+  onSeek,
+  onSpeedChange,
+  onClose,
+}: PlaybackControlsProps) {
+  const isEmpty = duration === 0;
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: '50%',
+        bottom: '24px',
+        transform: 'translateX(-50%)',
+        zIndex: 1000,
+        width: 'min(480px, calc(100% - 24px))',
+        boxSizing: 'border-box',
+        backgroundColor: 'rgba(15, 23, 42, 0.95)',
+        border: '1px solid #1e293b',
+        borderRadius: '8px',
+        padding: '10px 12px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        color: '#e2e8f0',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', color: '#94a3b8' }}>
+        <span>
+          ▶ PLAYBACK · {sessionCount} SESSION{sessionCount === 1 ? '' : 'S'}
+        </span>
+        <button onClick={onClose} title="再生を終了" style={buttonStyle()}>
+          ✕
+        </button>
+      </div>
+
+      {isEmpty ? (
+        <span style={{ color: '#64748b' }}>再生できるセッションがありません</span>
+      ) : (
+        <>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={1000}
+            value={position}
+            onChange={(e) => onSeek(Number(e.target.value))}
+            style={{ width: '100%', accentColor: '#06b6d4' }}
+          />
+          <div style={{ display: 'flex', justifyContent: 'space-between', color: '#94a3b8' }}>
+            <span>{currentTime ? formatSessionDate(currentTime) : '-'}</span>
+            <span>
+              {formatDuration(position)} / {formatDuration(duration)}
+            </span>
+          </div>
+        </>
+      )}
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+        <button
+          onClick={isPlaying ? onPause : onPlay}
+          disabled={isEmpty}
+          style={{ ...buttonStyle(isPlaying), minWidth: '64px' }}
+        >
+          {isPlaying ? '❚❚ PAUSE' : '▶ PLAY'}
+        </button>
+        <span style={{ flex: 1 }} />
+        {PLAYBACK_CONFIG.SPEEDS.map((option) => (
+          <button
+            key={option}
+            onClick={() => onSpeedChange(option)}
+            title={`${option}倍速で再生`}
+            style={buttonStyle(option === speed)}
+          >
+            ×{option}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
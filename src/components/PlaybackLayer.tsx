@@ -0,0 +1,64 @@
+import { Marker, Tooltip } from 'react-leaflet';
+import type { GeoPoint } from '../types/GeoPoint';
+import type { PlaybackTrail } from '../types/Playback';
+import type { PlaybackPhoto } from '../hooks/useSessionPlayback';
+import { SessionTrail } from './SessionTrail';
+import { TRAIL_COLORS } from '../constants/ui';
+import { emojiIcon, photoIcon } from '../utils/mapIcons';
+
+interface PlaybackLayerProps {
+  trails: PlaybackTrail[];
+  head: GeoPoint | null;
+  photos: PlaybackPhoto[];
+}
+
+// 再生中のセッションの軌跡・現在位置・写真
+export function PlaybackLayer({ trails, head, photos }: PlaybackLayerProps) {
+  return (
+    <>
+      {trails.map(({ session, points }) => (
+        <SessionTrail
+          key={session.id}
+          points={points}
+          color={TRAIL_COLORS.ACTIVE.color}
+          glow={TRAIL_COLORS.ACTIVE.glow}
+        />
+      ))}
+
+      {/* 撮影時刻に達した写真（達した直後はサムネイルを吹き出しで表示する） */}
+      {photos.map(({ photo, isPopup }) => (
+        <Marker
+          key={photo.id}
+          position={[photo.location.lat, photo.location.lng]}
+          icon={photoIcon}
+          pane="markerPane"
+          zIndexOffset={1000}
+        >
+          {isPopup && (
+            <Tooltip permanent direction="top" offset={[0, -28]}>
+              <img
+                src={photo.thumbnailUrl || photo.imageUrl}
+                alt={photo.caption || '写真'}
+                style={{ width: '120px', height: 'auto', borderRadius: '4px', display: 'block' }}
+              />
+              {photo.caption && (
+                <div style={{ maxWidth: '120px', fontSize: '11px', whiteSpace: 'normal' }}>
+                  {photo.caption}
+                </div>
+              )}
+            </Tooltip>
+          )}
+        </Marker>
+      ))}
+
+      {head && (
+        <Marker
+          position={[head.lat, head.lng]}
+          icon={emojiIcon}
+          pane="popupPane"
+          zIndexOffset={3000}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react';
+import { useMap } from 'react-leaflet';
+import { latLngBounds } from 'leaflet';
+import type { TrackingSession } from '../types/GeoPoint';
+import { getSessionAreaPoints } from '../utils/explorationUtils';
+
+interface SessionBoundsFitterProps {
+  sessions: TrackingSession[];
+}
+
+// 選択したセッションが全て収まるように地図を移動
+// 同期による再読み込みでは移動せず、選択が変わった時のみ移動する
+export function SessionBoundsFitter({ sessions }: SessionBoundsFitterProps) {
+  const map = useMap();
+  const fittedKeyRef = useRef('');
+
+  useEffect(() => {
+    const key = sessions.map((session) => session.id).join(',');
+    if (key === fittedKeyRef.current) return;
+    fittedKeyRef.current = key;
+
+    // 探索エリアのみ保存したセッションはエリアの中心で範囲を求める
+    const points = sessions.flatMap(getSessionAreaPoints);
+    if (points.length === 0) return;
+
+    map.fitBounds(latLngBounds(points.map((point) => [point.lat, point.lng])), {
+      padding: [48, 48],
+      maxZoom: 18,
+    });
+  }, [sessions, map]);
+
+  return null;
+}
@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import type { EditorCursor, MergeDirection } from '../types/SessionEditor';
+import type { EditedSession } from '../hooks/useSessionEditor';
+import { SessionMetricsGrid } from './SessionMetricsGrid';
+import { TRAIL_COLORS } from '../constants/ui';
+import { calculateDistance } from '../utils/explorationUtils';
+import { canEditPoints } from '../utils/sessionEditing';
+import { formatSessionDate } from '../utils/sessionSummary';
+
+interface SessionEditorProps {
+  sessions: EditedSession[];
+  deletedCount: number;
+  canUndo: boolean;
+  isSaving: boolean;
+  error: string | null;
+  onCursorChange: (cursor: EditorCursor | null) => void;
+  onTrim: (sessionId: string, startIndex: number, endIndex: number) => void;
+  onSplit: (sessionId: string, index: number) => void;
+  onMerge: (sessionId: string, direction: MergeDirection) => void;
+  onRemovePoint: (sessionId: string, index: number) => void;
+  onDelete: (sessionId: string) => void;
+  onUndo: () => void;
+  onCancel: () => void;
+  onSave: () => void;
+}
+
+const buttonStyle = (color: string, disabled = false): React.CSSProperties => ({
+  flex: 1,
+  background: 'none',
+  border: `1px solid ${disabled ? '#334155' : color}`,
+  borderRadius: '4px',
+  color: disabled ? '#475569' : color,
+  cursor: disabled ? 'default' : 'pointer',
+  fontFamily: 'monospace',
+  fontSize: '11px',
+  fontWeight: '600',
+  padding: '4px',
+});
+
+const rangeStyle: React.CSSProperties = {
+  flex: 1,
+  accentColor: '#06b6d4',
+};
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// 1つ前のポイントからの移動速度（外れ値の目安）
+const describeStep = ({ session }: EditedSession, index: number) => {
+  const point = session.points[index];
+  const previous = session.points[index - 1];
+  if (!previous) return formatTime(point.timestamp);
+  const seconds = (point.timestamp.getTime() - previous.timestamp.getTime()) / 1000;
+  const distance = calculateDistance(previous.lat, previous.lng, point.lat, point.lng);
+  const speed = seconds > 0 ? `${((distance / seconds) * 3.6).toFixed(1)}km/h` : '-';
+  return `${formatTime(point.timestamp)} · +${Math.round(distance)}m · ${speed}`;
+};
+
+interface SessionEditorCardProps {
+  edited: EditedSession;
+  color: string;
+  onCursorChange: (cursor: EditorCursor | null) => void;
+  onTrim: (startIndex: number, endIndex: number) => void;
+  onSplit: (index: number) => void;
+  onMerge: (direction: MergeDirection) => void;
+  onRemovePoint: (index: number) => void;
+  onDelete: () => void;
+}
+
+// 編集中のセッション1つ分の操作（スライダーの位置は編集の度に作り直して初期化する）
+function SessionEditorCard({
+  edited,
+  color,
+  onCursorChange,
+  onTrim,
+  onSplit,
+  onMerge,
+  onRemovePoint,
+  onDelete,
+}: SessionEditorCardProps) {
+  const { session, isNew, metrics, mergeable } = edited;
+  const lastIndex = session.points.length - 1;
+  const [range, setRange] = useState<[number, number]>([0, lastIndex]);
+  const [pointIndex, setPointIndex] = useState(0);
+  const isEditable = canEditPoints(session);
+  const isTrimmed = range[0] > 0 || range[1] < lastIndex;
+
+  // 地図上のカーソルを動かしたポイントに合わせる
+  const moveCursor = (index: number) => onCursorChange({ sessionId: session.id, index });
+
+  return (
+    <div style={{ border: `1px solid ${color}`, borderRadius: '6px', paddingTop: '6px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', padding: '0 8px 6px' }}>
+        <span>{formatSessionDate(session.startTime)}</span>
+        {isNew && <span style={{ color: '#fde047' }}>NEW</span>}
+      </div>
+      <SessionMetricsGrid metrics={metrics} />
+
+      {isEditable ? (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', padding: '0 8px 8px' }}>
+          {/* 開始・終了のトリミング */}
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <span style={{ width: '40px', color: '#64748b' }}>START</span>
+            <input
+              type="range"
+              min={0}
+              max={lastIndex}
+              value={range[0]}
+              onChange={(e) => {
+                const index = Math.min(Number(e.target.value), range[1]);
+                setRange([index, range[1]]);
+                moveCursor(index);
+              }}
+              style={rangeStyle}
+            />
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <span style={{ width: '40px', color: '#64748b' }}>END</span>
+            <input
+              type="range"
+              min={0}
+              max={lastIndex}
+              value={range[1]}
+              onChange={(e) => {
+                const index = Math.max(Number(e.target.value), range[0]);
+                setRange([range[0], index]);
+                moveCursor(index);
+              }}
+              style={rangeStyle}
+            />
+          </label>
+          <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+            <span style={{ flex: 2, color: '#94a3b8' }}>
+              {formatTime(session.points[range[0]].timestamp)} -{' '}
+              {formatTime(session.points[range[1]].timestamp)}
+            </span>
+            <button
+              onClick={() => onTrim(range[0], range[1])}
+              disabled={!isTrimmed}
+              style={buttonStyle('#67e8f9', !isTrimmed)}
+            >
+              TRIM
+            </button>
+          </div>
+
+          {/* 分割・外れ値の削除をするポイント */}
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <span style={{ width: '40px', color: '#64748b' }}>POINT</span>
+            <input
+              type="range"
+              min={0}
+              max={lastIndex}
+              value={pointIndex}
+              onChange={(e) => {
+                const index = Number(e.target.value);
+                setPointIndex(index);
+                moveCursor(index);
+              }}
+              style={rangeStyle}
+            />
+          </label>
+          <span style={{ color: '#94a3b8' }}>
+            #{pointIndex + 1}/{lastIndex + 1} {describeStep(edited, pointIndex)}
+          </span>
+          <div style={{ display: 'flex', gap: '4px' }}>
+            <button
+              onClick={() => onSplit(pointIndex)}
+              disabled={pointIndex >= lastIndex}
+              title="このポイントまでと、それより後のセッションに分ける"
+              style={buttonStyle('#67e8f9', pointIndex >= lastIndex)}
+            >
+              SPLIT
+            </button>
+            <button
+              onClick={() => onRemovePoint(pointIndex)}
+              disabled={lastIndex === 0}
+              title="測位の外れ値としてこのポイントを取り除く"
+              style={buttonStyle('#fda4af', lastIndex === 0)}
+            >
+              REMOVE
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div style={{ padding: '0 8px 8px', color: '#64748b' }}>
+          ポイントを保存していないセッションは削除のみ行えます
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '4px', padding: '0 8px 8px' }}>
+        <button
+          onClick={() => onMerge('previous')}
+          disabled={!mergeable.previous}
+          title="前のセッションと結合"
+          style={buttonStyle('#c4b5fd', !mergeable.previous)}
+        >
+          ◀ MERGE
+        </button>
+        <button
+          onClick={() => onMerge('next')}
+          disabled={!mergeable.next}
+          title="次のセッションと結合"
+          style={buttonStyle('#c4b5fd', !mergeable.next)}
+        >
+          MERGE ▶
+        </button>
+        <button onClick={onDelete} title="セッションを削除" style={buttonStyle('#f43f5e')}>
+          DELETE
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// セッションの編集パネル（保存するまで地図と統計に編集後の内容を表示する）
+export function SessionEditor({
+  sessions,
+  deletedCount,
+  canUndo,
+  isSaving,
+  error,
+  onCursorChange,
+  onTrim,
+  onSplit,
+  onMerge,
+  onRemovePoint,
+  onDelete,
+  onUndo,
+  onCancel,
+  onSave,
+}: SessionEditorProps) {
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        right: '12px',
+        top: '60px',
+        zIndex: 1000,
+        backgroundColor: 'rgba(15, 23, 42, 0.95)',
+        border: '1px solid #1e293b',
+        borderRadius: '8px',
+        padding: '12px',
+        width: '280px',
+        maxHeight: 'calc(100% - 96px)',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        color: '#e2e8f0',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', color: '#94a3b8' }}>
+        <span style={{ fontWeight: '600', color: '#e2e8f0' }}>EDIT SESSION</span>
+        {deletedCount > 0 && <span style={{ color: '#f43f5e' }}>-{deletedCount} DELETED</span>}
+      </div>
+
+      <div style={{ overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+        {sessions.length === 0 && (
+          <span style={{ color: '#64748b' }}>保存すると選択したセッションを削除します</span>
+        )}
+        {sessions.map((edited, i) => (
+          <SessionEditorCard
+            key={`${edited.session.id}-${edited.session.points.length}-${edited.session.startTime.getTime()}`}
+            edited={edited}
+            color={TRAIL_COLORS.HISTORY[i % TRAIL_COLORS.HISTORY.length].color}
+            onCursorChange={onCursorChange}
+            onTrim={(startIndex, endIndex) => onTrim(edited.session.id, startIndex, endIndex)}
+            onSplit={(index) => onSplit(edited.session.id, index)}
+            onMerge={(direction) => onMerge(edited.session.id, direction)}
+            onRemovePoint={(index) => onRemovePoint(edited.session.id, index)}
+            onDelete={() => onDelete(edited.session.id)}
+          />
+        ))}
+      </div>
+
+      {error && <span style={{ color: '#f43f5e' }}>{error}</span>}
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <button onClick={onUndo} disabled={!canUndo} style={buttonStyle('#94a3b8', !canUndo)}>
+          UNDO
+        </button>
+        <button onClick={onCancel} disabled={isSaving} style={buttonStyle('#94a3b8', isSaving)}>
+          CANCEL
+        </button>
+        <button
+          onClick={onSave}
+          disabled={isSaving || !canUndo}
+          style={buttonStyle('#06b6d4', isSaving || !canUndo)}
+        >
+          {isSaving ? 'SAVING...' : 'SAVE'}
+        </button>
+      </div>
+    </div>
+  );
+}
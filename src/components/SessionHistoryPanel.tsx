@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import type { Photo } from '../types/Photo';
+import type { SessionSortKey, SessionSortOrder, SessionSummary } from '../types/SessionHistory';
+import type { SelectedSession } from '../hooks/useSessionHistory';
+import { SessionMetricsGrid } from './SessionMetricsGrid';
+import { ACTIVITY_PROFILES } from '../constants/activity';
+import { formatDistance, formatDuration, formatSessionDate } from '../utils/sessionSummary';
+
+interface SessionHistoryPanelProps {
+  summaries: SessionSummary[];
+  totalCount: number; // 検索前の履歴セッション数
+  selectedSessions: SelectedSession[];
+  photos: Photo[];
+  query: string;
+  sortKey: SessionSortKey;
+  sortOrder: SessionSortOrder;
+  onQueryChange: (query: string) => void;
+  onSortChange: (sortKey: SessionSortKey) => void;
+  onToggleSession: (sessionId: string) => void;
+  onClearSelection: () => void;
+  onEditSession: (sessionId: string) => void;
+  onPlaySessions: (sessionIds: string[]) => void;
+  onPlayRange: (from: Date, to: Date) => void;
+}
+
+const SORT_LABELS: Record<SessionSortKey, string> = {
+  date: 'DATE',
+  duration: 'TIME',
+  distance: 'DIST',
+};
+
+const fieldStyle: React.CSSProperties = {
+  backgroundColor: '#0f172a',
+  border: '1px solid #475569',
+  borderRadius: '4px',
+  color: '#e2e8f0',
+  fontFamily: 'monospace',
+  fontSize: '12px',
+  padding: '4px 6px',
+  width: '100%',
+  boxSizing: 'border-box',
+};
+
+const sortButtonStyle = (isActive: boolean): React.CSSProperties => ({
+  flex: 1,
+  backgroundColor: isActive ? 'rgba(8, 145, 178, 0.25)' : 'transparent',
+  border: `1px solid ${isActive ? '#06b6d4' : '#475569'}`,
+  borderRadius: '4px',
+  color: isActive ? '#67e8f9' : '#94a3b8',
+  cursor: 'pointer',
+  fontFamily: 'monospace',
+  fontSize: '11px',
+  fontWeight: '600',
+  padding: '4px',
+});
+
+// 過去のセッションの一覧（選択したセッションの軌跡を地図に重ねて表示する）
+export function SessionHistoryPanel({
+  summaries,
+  totalCount,
+  selectedSessions,
+  photos,
+  query,
+  sortKey,
+  sortOrder,
+  onQueryChange,
+  onSortChange,
+  onToggleSession,
+  onClearSelection,
+  onEditSession,
+  onPlaySessions,
+  onPlayRange,
+}: SessionHistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // 期間を指定した再生（YYYY-MM-DD、未入力の側は入力した側と同じ日）
+  const [rangeFrom, setRangeFrom] = useState('');
+  const [rangeTo, setRangeTo] = useState('');
+  const selectedById = new Map(selectedSessions.map((selected) => [selected.session.id, selected]));
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        right: '12px',
+        top: '60px',
+        zIndex: 1000,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'flex-end',
+        gap: '8px',
+        maxHeight: 'calc(100% - 96px)',
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        color: '#e2e8f0',
+      }}
+    >
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        title="過去のセッションの一覧"
+        style={{
+          backgroundColor: 'rgba(15, 23, 42, 0.9)',
+          border: `1px solid ${selectedSessions.length > 0 ? '#06b6d4' : '#475569'}`,
+          borderRadius: '8px',
+          color: selectedSessions.length > 0 ? '#67e8f9' : '#94a3b8',
+          cursor: 'pointer',
+          fontFamily: 'monospace',
+          fontWeight: '600',
+          fontSize: '12px',
+          padding: '6px 12px',
+        }}
+      >
+        HISTORY{selectedSessions.length > 0 ? ` (${selectedSessions.length})` : ''}
+      </button>
+
+      {isOpen && (
+        <div
+          style={{
+            backgroundColor: 'rgba(15, 23, 42, 0.95)',
+            border: '1px solid #1e293b',
+            borderRadius: '8px',
+            padding: '12px',
+            width: '280px',
+            minHeight: 0,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '8px',
+          }}
+        >
+          <input
+            type="search"
+            value={query}
+            placeholder="2025-06  >3km  <=30min"
+            title="日付（YYYY-MM-DD）の一部、または距離（m / km）・時間（min / h）の条件で絞り込み"
+            onChange={(e) => onQueryChange(e.target.value)}
+            style={fieldStyle}
+          />
+
+          <div style={{ display: 'flex', gap: '4px' }}>
+            {(Object.keys(SORT_LABELS) as SessionSortKey[]).map((key) => (
+              <button
+                key={key}
+                onClick={() => onSortChange(key)}
+                style={sortButtonStyle(key === sortKey)}
+              >
+                {SORT_LABELS[key]}
+                {key === sortKey && (sortOrder === 'asc' ? ' ▲' : ' ▼')}
+              </button>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <input
+              type="date"
+              value={rangeFrom}
+              title="再生する期間の開始日"
+              onChange={(e) => setRangeFrom(e.target.value)}
+              style={fieldStyle}
+            />
+            <span style={{ color: '#64748b' }}>~</span>
+            <input
+              type="date"
+              value={rangeTo}
+              title="再生する期間の終了日"
+              onChange={(e) => setRangeTo(e.target.value)}
+              style={fieldStyle}
+            />
+            <button
+              onClick={() => {
+                const from = rangeFrom || rangeTo;
+                const to = rangeTo || rangeFrom;
+                // 日付のみの文字列は UTC として解釈されるため、時刻を付けて現地時刻にする
+                onPlayRange(new Date(`${from}T00:00`), new Date(`${to}T00:00`));
+              }}
+              disabled={!rangeFrom && !rangeTo}
+              title="期間内のセッションを続けて再生"
+              style={{ ...sortButtonStyle(false), flex: 'none' }}
+            >
+              ▶
+            </button>
+          </div>
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', color: '#94a3b8' }}>
+            <span>
+              {summaries.length} / {totalCount} SESSIONS
+            </span>
+            {selectedSessions.length > 0 && (
+              <button
+                onClick={onClearSelection}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  color: '#67e8f9',
+                  cursor: 'pointer',
+                  fontFamily: 'monospace',
+                  fontSize: '12px',
+                  padding: 0,
+                }}
+              >
+                CLEAR
+              </button>
+            )}
+          </div>
+
+          <div style={{ overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            {summaries.length === 0 && (
+              <span style={{ color: '#64748b' }}>該当するセッションがありません</span>
+            )}
+            {summaries.map((summary) => {
+              const selected = selectedById.get(summary.id);
+              const color = selected?.color.color;
+              const sessionPhotos = color
+                ? photos.filter((photo) => photo.sessionId === summary.id)
+                : [];
+              return (
+                <div
+                  key={summary.id}
+                  style={{
+                    border: `1px solid ${color ?? '#1e293b'}`,
+                    borderRadius: '6px',
+                    backgroundColor: color ? 'rgba(30, 41, 59, 0.8)' : 'transparent',
+                  }}
+                >
+                  <button
+                    onClick={() => onToggleSession(summary.id)}
+                    title={color ? '地図から外す' : '地図に表示'}
+                    style={{
+                      width: '100%',
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '8px',
+                      background: 'none',
+                      border: 'none',
+                      color: '#e2e8f0',
+                      cursor: 'pointer',
+                      fontFamily: 'monospace',
+                      fontSize: '12px',
+                      padding: '6px 8px',
+                      textAlign: 'left',
+                    }}
+                  >
+                    <span
+                      style={{
+                        width: '10px',
+                        height: '10px',
+                        flexShrink: 0,
+                        borderRadius: '50%',
+                        border: `1px solid ${color ?? '#475569'}`,
+                        backgroundColor: color ?? 'transparent',
+                      }}
+                    />
+                    <span style={{ flex: 1 }}>
+                      <span style={{ display: 'block' }}>
+                        {formatSessionDate(summary.startTime)}
+                      </span>
+                      <span style={{ display: 'block', color: '#94a3b8' }}>
+                        {ACTIVITY_PROFILES[summary.activity].icon} ·{' '}
+                        {formatDuration(summary.duration)} ·{' '}
+                        {summary.storageMode === 'areas_only' && summary.distance === 0
+                          ? 'AREAS'
+                          : formatDistance(summary.distance)}
+                        {summary.photoCount > 0 && ` · 📷${summary.photoCount}`}
+                      </span>
+                    </span>
+                  </button>
+
+                  {/* 選択したセッションの統計と写真 */}
+                  {selected && <SessionMetricsGrid metrics={selected.metrics} />}
+                  {selected && (
+                    <div style={{ display: 'flex', gap: '4px', padding: '0 8px 8px' }}>
+                      <button
+                        onClick={() => onPlaySessions([summary.id])}
+                        title="軌跡を記録した時刻順に再生"
+                        style={sortButtonStyle(false)}
+                      >
+                        ▶ PLAY
+                      </button>
+                      <button
+                        onClick={() => onEditSession(summary.id)}
+                        title="トリミング・分割・結合・削除"
+                        style={sortButtonStyle(false)}
+                      >
+                        EDIT
+                      </button>
+                    </div>
+                  )}
+                  {sessionPhotos.length > 0 && (
+                    <div
+                      style={{
+                        display: 'flex',
+                        flexWrap: 'wrap',
+                        gap: '4px',
+                        padding: '0 8px 8px',
+                      }}
+                    >
+                      {sessionPhotos.map((photo) => (
+                        <img
+                          key={photo.id}
+                          src={photo.thumbnailUrl || photo.imageUrl}
+                          alt={photo.caption || '写真'}
+                          title="クリックで別タブに拡大表示"
+                          onClick={() => window.open(photo.imageUrl, '_blank')}
+                          style={{
+                            width: '48px',
+                            height: '48px',
+                            objectFit: 'cover',
+                            borderRadius: '4px',
+                            cursor: 'pointer',
+                          }}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import type { SessionMetrics } from '../types/GeoPoint';
+import { describeSessionMetrics } from '../utils/sessionMetrics';
+
+interface SessionMetricsGridProps {
+  metrics: SessionMetrics;
+}
+
+// セッションの統計の一覧（履歴で選択したセッションの詳細に表示する）
+export function SessionMetricsGrid({ metrics }: SessionMetricsGridProps) {
+  return (
+    <div
+      style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(2, 1fr)',
+        gap: '2px 8px',
+        padding: '0 8px 8px',
+        fontFamily: 'monospace',
+        fontSize: '11px',
+      }}
+    >
+      {describeSessionMetrics(metrics).map(({ label, value }) => (
+        <div key={label} style={{ display: 'flex', justifyContent: 'space-between', gap: '4px' }}>
+          <span style={{ color: '#64748b' }}>{label}</span>
+          <span style={{ color: '#e2e8f0' }}>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
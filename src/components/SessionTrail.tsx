@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import { Polyline } from 'react-leaflet';
+import type { GeoPoint } from '../types/GeoPoint';
+import { splitPointsBySegment } from '../utils/sessionSegments';
+import { interpolateSpline, optimizePoints } from '../utils/splineInterpolation';
+
+interface SessionTrailProps {
+  points: GeoPoint[];
+  color: string; // メインの線の色
+  glow: string; // グロー効果の色
+}
+
+// グロー効果付きの軌跡線（外側・中間のグローとメインの線を重ねる）
+const TRAIL_LAYERS = [
+  { weight: 12, opacity: 0.2, isGlow: true },
+  { weight: 8, opacity: 0.4, isGlow: true },
+  { weight: 4, opacity: 0.95, isGlow: false },
+];
+
+// セッションの軌跡をスプライン補間して描画
+export function SessionTrail({ points, color, glow }: SessionTrailProps) {
+  // スプライン補間結果をメモ化
+  // 一時停止をまたいで線を繋げないよう、記録区間毎に別の線にする
+  const smoothedPositions = useMemo(() => {
+    if (points.length < 2) return [];
+
+    return splitPointsBySegment(points)
+      .map((segmentPoints) => {
+        const validPoints = segmentPoints
+          .filter((point) => point && point.lat && point.lng)
+          .map((point) => [point.lat, point.lng] as [number, number]);
+
+        // パフォーマンス最適化：大量ポイント時は間引き処理
+        return interpolateSpline(optimizePoints(validPoints));
+      })
+      .filter((positions) => positions.length > 1);
+  }, [points]);
+
+  if (smoothedPositions.length === 0) return null;
+
+  // 軌跡線は最上位レイヤーに配置
+  return (
+    <>
+      {TRAIL_LAYERS.map(({ weight, opacity, isGlow }) => (
+        <Polyline
+          key={weight}
+          positions={smoothedPositions}
+          pathOptions={{
+            color: isGlow ? glow : color,
+            weight,
+            opacity,
+            lineCap: 'round',
+            lineJoin: 'round',
+          }}
+          pane="tooltipPane"
+        />
+      ))}
+    </>
+  );
+}
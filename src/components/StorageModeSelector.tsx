@@ -0,0 +1,61 @@
+import type { StorageMode } from '../types/GeoPoint';
+
+interface StorageModeSelectorProps {
+  storageMode: StorageMode;
+  disabled: boolean;
+  onStorageModeChange: (storageMode: StorageMode) => void;
+}
+
+// 保存モードの表示用ラベルと説明
+const STORAGE_MODE_OPTIONS: { mode: StorageMode; label: string; description: string }[] = [
+  { mode: 'incremental', label: 'POINTS', description: '記録したポイントを保存' },
+  { mode: 'full', label: 'FULL', description: 'ポイントと探索エリアを保存' },
+  {
+    mode: 'areas_only',
+    label: 'AREAS',
+    description: '探索エリアのみ保存（移動の軌跡は保存しない）',
+  },
+  {
+    mode: 'compact',
+    label: 'COMPACT',
+    description: 'ポイントを圧縮して保存（付随情報は保存しない）',
+  },
+];
+
+// 新規セッションの保存モードの選択（記録中は変更不可）
+export function StorageModeSelector({
+  storageMode,
+  disabled,
+  onStorageModeChange,
+}: StorageModeSelectorProps) {
+  const current = STORAGE_MODE_OPTIONS.find((option) => option.mode === storageMode);
+
+  return (
+    <select
+      value={storageMode}
+      disabled={disabled}
+      onChange={(e) => onStorageModeChange(e.target.value as StorageMode)}
+      title={
+        disabled ? '記録中は保存モードを変更できません' : `保存モード: ${current?.description}`
+      }
+      style={{
+        backgroundColor: 'rgba(15, 23, 42, 0.8)',
+        border: '1px solid #1e293b',
+        borderRadius: '8px',
+        color: '#67e8f9',
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        height: '32px',
+        padding: '0 6px',
+        cursor: disabled ? 'not-allowed' : 'pointer',
+        opacity: disabled ? 0.6 : 1,
+      }}
+    >
+      {STORAGE_MODE_OPTIONS.map((option) => (
+        <option key={option.mode} value={option.mode} title={option.description}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
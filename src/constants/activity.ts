@@ -0,0 +1,54 @@
+import type { ActivityProfile, ActivityType } from '../types/Activity';
+import { TRACKING_CONFIG } from './tracking';
+
+// アクティビティプロファイルの定義
+
+export const DEFAULT_ACTIVITY: ActivityType = 'walk';
+
+export const ACTIVITY_PROFILES: Record<ActivityType, ActivityProfile> = {
+  walk: {
+    type: 'walk',
+    label: '徒歩',
+    icon: '🚶',
+    maxSpeedKmh: TRACKING_CONFIG.MAX_SPEED_KMH,
+    minDistance: TRACKING_CONFIG.MIN_DISTANCE,
+    maxAccuracy: TRACKING_CONFIG.MAX_ACCURACY,
+    explorationRadius: TRACKING_CONFIG.EXPLORATION_RADIUS,
+    geolocationOptions: TRACKING_CONFIG.GEOLOCATION_OPTIONS.BATTERY_SAVING,
+  },
+  run: {
+    type: 'run',
+    label: 'ランニング',
+    icon: '🏃',
+    maxSpeedKmh: 30,
+    minDistance: 15,
+    maxAccuracy: 50,
+    explorationRadius: 25,
+    geolocationOptions: TRACKING_CONFIG.GEOLOCATION_OPTIONS.HIGH_ACCURACY,
+  },
+  bike: {
+    type: 'bike',
+    label: '自転車',
+    icon: '🚲',
+    maxSpeedKmh: 60,
+    minDistance: 25,
+    maxAccuracy: 50,
+    explorationRadius: 35,
+    geolocationOptions: TRACKING_CONFIG.GEOLOCATION_OPTIONS.HIGH_ACCURACY,
+  },
+  custom: {
+    type: 'custom',
+    label: 'カスタム',
+    icon: '⚙️',
+    maxSpeedKmh: TRACKING_CONFIG.MAX_SPEED_KMH,
+    minDistance: TRACKING_CONFIG.MIN_DISTANCE,
+    maxAccuracy: TRACKING_CONFIG.MAX_ACCURACY,
+    explorationRadius: TRACKING_CONFIG.EXPLORATION_RADIUS,
+    geolocationOptions: TRACKING_CONFIG.GEOLOCATION_OPTIONS.BATTERY_SAVING,
+  },
+};
+
+export const ACTIVITY_STORAGE_KEYS = {
+  ACTIVITY: 'footpath_activity',
+  CUSTOM_PROFILE: 'footpath_custom_profile',
+} as const;
@@ -0,0 +1,8 @@
+// Firestoreのコレクション名
+
+export const FIRESTORE_COLLECTIONS = {
+  SESSIONS: 'sessions', // 記録セッション
+  SESSION_POINTS: 'points', // セッションのポイントのチャンク（sessions/{id}/points/{seq}）
+  PHOTOS: 'photos', // 写真のメタデータ
+  ACTIVE_DEVICES: 'activeDevices', // ユーザー毎の記録中の端末
+} as const;
@@ -0,0 +1,4 @@
+// 地理計算の定数
+
+// 緯度1度あたりの距離 (m)（経度1度は緯度の cos を掛ける。短い区間の平面近似に使用）
+export const METERS_PER_DEGREE = 111320;
@@ -4,15 +4,24 @@ export const TRACKING_CONFIG = {
   // 距離設定
   MIN_DISTANCE: 10, // 最小記録距離 (m)
   MAX_ACCURACY: 100, // 最大許容精度 (m)
+  EXPLORATION_RADIUS: 25, // 探索半径 (m)
 
   // 時間設定
   BATCH_INTERVAL: 30000, // バッチ保存間隔 (ms)
-  SESSION_TIMEOUT: 10 * 60 * 1000, // セッションタイムアウト (10分)
+  FLUSH_BATCH_SIZE: 200, // 1回の書き込みで送信する最大ポイント数
+  FLUSH_RETRY_BASE_DELAY: 5000, // 送信失敗時の再試行間隔の初期値 (ms、失敗毎に倍増)
+  FLUSH_RETRY_MAX_DELAY: 5 * 60 * 1000, // 送信失敗時の再試行間隔の上限 (ms)
+  SESSION_RESUME_WINDOW: 30 * 60 * 1000, // 最終記録（lastSeenAt）からセッションを継続できる時間 (30分)
   CACHE_EXPIRY: 5 * 60 * 1000, // キャッシュ有効期限 (5分)
+  HISTORY_PAGE_SIZE: 20, // 履歴の初回読み込みで1ページに読み込むセッション数
 
   // 速度制限
   MAX_SPEED_KMH: 20, // 最大許容速度 (km/h)
 
+  // 平滑化設定
+  SMOOTHING_ENABLED: true, // カルマンフィルタによる平滑化
+  SMOOTHING_PROCESS_NOISE: 3, // 想定する移動のばらつき (m/s)
+
   // 位置情報設定
   GEOLOCATION_OPTIONS: {
     HIGH_ACCURACY: {
@@ -27,11 +36,77 @@ export const TRACKING_CONFIG = {
     },
   },
 
+  // 保存設定
+  POINTS_CHUNK_SIZE: 500, // 1チャンクあたりの最大ポイント数
+  STORAGE_MODE: 'incremental', // 新規セッションの保存モードの既定値
+  STORAGE_MODE_STORAGE_KEY: 'footpath_storage_mode', // 選択した保存モードを保存するLocalStorageのキー
+
   // 最適化設定
   SMOOTHING_SEGMENTS: 5, // スプライン補間セグメント数
   POINT_OPTIMIZATION_THRESHOLD: 100, // ポイント間引き閾値
 } as const;
 
+// 測位精度の自動切り替えポリシーの設定
+export const ADAPTIVE_ACCURACY_CONFIG = {
+  ENABLED: true,
+  FAST_SPEED_KMH: 8, // この速度を超えたら高精度 (km/h)
+  POOR_ACCURACY: 50, // 測位誤差がこれを超えたら高精度 (m)
+  STATIONARY_RADIUS: 15, // この範囲に留まっていたら静止とみなす (m)
+  STATIONARY_DURATION: 2 * 60 * 1000, // 静止とみなす継続時間 (ms)
+  LOW_BATTERY_LEVEL: 0.2, // 充電していない時にこれを下回ったら省電力 (0-1)
+  MIN_SWITCH_INTERVAL: 60 * 1000, // 切り替えの最小間隔 (ms)
+} as const;
+
+// 静止の自動検出（自動一時停止）の設定
+export const STATIONARY_DETECTION_CONFIG = {
+  ENABLED: true,
+  DWELL_TIME: 3 * 60 * 1000, // この時間留まっていたら静止とみなす (ms)
+  MAX_DEVIATION: 12, // 測位位置のばらつき（重心からの標準偏差）の上限 (m)
+  MIN_FIXES: 5, // 静止判定に必要な最小測位数
+  EXIT_DISTANCE: 40, // 滞在地点からこの距離を超えたら移動とみなす (m)
+  EXIT_CONFIRM_COUNT: 2, // 移動とみなすのに必要な連続測位数
+} as const;
+
+// セッションの統計（ペース・獲得標高）の計算設定
+export const METRICS_CONFIG = {
+  MOVING_SPEED: 0.5, // この速度以上で移動した区間を移動時間に含める (m/s)
+  MIN_PACE_DISTANCE: 100, // 平均ペースを計算する最小の移動距離 (m)
+  PACE_WINDOW: 200, // 最高ペースを計算する連続区間の最小距離 (m)
+  ELEVATION_THRESHOLD: 3, // 獲得標高に数える最小の上り (m)（高度のノイズを除くため）
+  MAX_ALTITUDE_ACCURACY: 30, // 獲得標高の計算に使う高度の誤差の上限 (m)
+} as const;
+
+// 複数タブ・複数端末での同時記録を防ぐための設定
+export const MULTI_INSTANCE_CONFIG = {
+  TAB_LOCK_NAME: 'footpath-tracking', // 記録担当タブが保持する Web Lock の名前
+  TAB_CHANNEL_NAME: 'footpath-tracking', // タブ間で記録状態を通知する BroadcastChannel の名前
+  DEVICE_ID_STORAGE_KEY: 'footpath_device_id', // 端末IDを保存するLocalStorageのキー
+} as const;
+
+// 古い生ポイントの保存期間（期間を過ぎたら探索エリアと簡略化した軌跡に置き換える）
+export const RETENTION_CONFIG = {
+  ENABLED: true,
+  MAX_RAW_AGE: 180 * 24 * 60 * 60 * 1000, // 生ポイントを保存する期間 (ms、終了時刻から)
+  SIMPLIFY_TOLERANCE: 15, // 軌跡の簡略化の許容誤差 (m)
+  ARCHIVE: false, // 間引く前のポイントをStorageにアーカイブするか
+  SESSIONS_PER_RUN: 5, // 1回の実行で間引くセッション数（少しずつ進める）
+  RUN_INTERVAL: 24 * 60 * 60 * 1000, // 実行間隔 (ms)
+  START_DELAY: 60 * 1000, // 起動から実行までの待ち時間 (ms)
+  REPORT_STORAGE_KEY: 'footpath_retention_report', // 前回の実行結果を保存するLocalStorageのキー
+} as const;
+
+// 開発用の擬似位置情報ソースの設定
+export const SIMULATION_CONFIG = {
+  DEFAULT_ORIGIN: { lat: 35.6812, lng: 139.7671 }, // 東京駅
+  REPLAY_SPEED: 1, // リプレイ速度の倍率
+  REPLAY_POINT_INTERVAL: 1000, // 時刻のないトラックの点間隔 (ms)
+  RANDOM_WALK_STEP: 8, // ランダムウォークの1歩 (m)
+  RANDOM_WALK_INTERVAL: 2000, // ランダムウォークの測位間隔 (ms)
+  RANDOM_WALK_TURN: 45, // 1歩あたりの最大方向転換 (度)
+  SIMULATED_ACCURACY: 10, // 擬似測位の精度 (m)
+  DEV_TRACK_STORAGE_KEY: 'footpath_dev_track', // 開発メニューで読み込んだトラック
+} as const;
+
 export const PHOTO_CONFIG = {
   MAX_FILE_SIZE: 5 * 1024 * 1024, // 5MB
   THUMBNAIL_SIZE: 200, // サムネイルサイズ (px)
@@ -45,6 +120,9 @@ export const ERROR_MESSAGES = {
     TIMEOUT: 'TIMEOUT: 位置情報の取得がタイムアウトしました',
     UNKNOWN: 'UNKNOWN_ERROR: 位置情報の取得中に不明なエラーが発生しました',
   },
+  TRACKING: {
+    START_FAILED: '記録を開始できませんでした。通信状態を確認して再度お試しください',
+  },
   PHOTO: {
     FILE_TOO_LARGE: 'ファイルサイズが大きすぎます（5MB以下にしてください）',
     UNSUPPORTED_FORMAT: 'サポートされていない画像形式です',
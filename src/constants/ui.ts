@@ -118,3 +118,26 @@ export const MAP_STYLES = {
     backgroundSize: '20px 20px',
   },
 } as const;
+
+// 軌跡の色（color: メインの線 / glow: 外側のグロー効果）
+export const TRAIL_COLORS = {
+  // 記録中のセッション
+  ACTIVE: { color: '#ffaa44', glow: '#ff6b00' },
+  // 履歴から選択したセッション（選択順に割り当てる）
+  HISTORY: [
+    { color: '#67e8f9', glow: '#06b6d4' }, // cyan
+    { color: '#f0abfc', glow: '#d946ef' }, // fuchsia
+    { color: '#bef264', glow: '#84cc16' }, // lime
+    { color: '#fda4af', glow: '#f43f5e' }, // rose
+    { color: '#c4b5fd', glow: '#8b5cf6' }, // violet
+    { color: '#fde047', glow: '#eab308' }, // yellow
+  ],
+} as const;
+
+// セッションの再生
+export const PLAYBACK_CONFIG = {
+  SPEEDS: [1, 10, 30, 60, 180, 600], // 再生速度の倍率の選択肢
+  DEFAULT_SPEED: 60,
+  FRAME_INTERVAL: 100, // 再生位置を進める間隔 (ms)。探索エリアの再描画が多いため控えめにする
+  PHOTO_DISPLAY_TIME: 3000, // 撮影時刻に達した写真を表示し続ける時間（実時間 ms）
+} as const;
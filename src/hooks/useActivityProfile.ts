@@ -0,0 +1,69 @@
+import { useState, useCallback, useMemo } from 'react';
+import type { ActivityProfile, ActivityType } from '../types/Activity';
+import type { TrackingEngineConfig } from '../types/Tracking';
+import { ACTIVITY_PROFILES, ACTIVITY_STORAGE_KEYS, DEFAULT_ACTIVITY } from '../constants/activity';
+
+// LocalStorageからカスタムプロファイルを読み込む
+const loadCustomProfile = (): ActivityProfile => {
+  try {
+    const stored = localStorage.getItem(ACTIVITY_STORAGE_KEYS.CUSTOM_PROFILE);
+    if (stored) {
+      return { ...ACTIVITY_PROFILES.custom, ...JSON.parse(stored), type: 'custom' };
+    }
+  } catch (error) {
+    console.error('Failed to load custom activity profile:', error);
+  }
+  return ACTIVITY_PROFILES.custom;
+};
+
+const loadActivity = (): ActivityType => {
+  const stored = localStorage.getItem(ACTIVITY_STORAGE_KEYS.ACTIVITY) as ActivityType | null;
+  return stored && stored in ACTIVITY_PROFILES ? stored : DEFAULT_ACTIVITY;
+};
+
+export function useActivityProfile() {
+  const [activity, setActivityState] = useState<ActivityType>(loadActivity);
+  const [customProfile, setCustomProfile] = useState<ActivityProfile>(loadCustomProfile);
+
+  const profile = activity === 'custom' ? customProfile : ACTIVITY_PROFILES[activity];
+
+  // 選択したアクティビティを保存
+  const setActivity = useCallback((next: ActivityType) => {
+    localStorage.setItem(ACTIVITY_STORAGE_KEYS.ACTIVITY, next);
+    setActivityState(next);
+  }, []);
+
+  // カスタムプロファイルの値を更新して保存
+  const updateCustomProfile = useCallback((changes: Partial<ActivityProfile>) => {
+    setCustomProfile((prev) => {
+      const next = { ...prev, ...changes, type: 'custom' as const };
+      localStorage.setItem(ACTIVITY_STORAGE_KEYS.CUSTOM_PROFILE, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  // トラッキングエンジンに渡す設定
+  const engineConfig = useMemo<Partial<TrackingEngineConfig>>(
+    () => ({
+      activity: profile.type,
+      explorationRadius: profile.explorationRadius,
+      maxSpeedKmh: profile.maxSpeedKmh,
+      minDistance: profile.minDistance,
+      maxAccuracy: profile.maxAccuracy,
+      geolocationOptions: profile.geolocationOptions,
+    }),
+    [profile]
+  );
+
+  return {
+    // State
+    activity,
+    profile,
+    customProfile,
+    engineConfig,
+
+    // Actions
+    setActivity,
+    updateCustomProfile,
+  };
+}
@@ -1,16 +1,62 @@
 import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
-import { collection, getDocs, query, where } from 'firebase/firestore';
-import { db } from '../firebase';
-import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
-import type { ExploredArea, ExplorationStats } from '../types/ExploredArea';
+import type { TrackingSession } from '../types/GeoPoint';
+import type { ExploredArea, ExplorationStats, HistorySyncStatus } from '../types/ExploredArea';
+import type {
+  RepositorySnapshot,
+  RepositoryUnsubscribe,
+  SessionPage,
+  SessionPageCursor,
+  SessionRepository,
+} from '../types/Repository';
 import { TRACKING_CONFIG } from '../constants/tracking';
-import { generateExploredAreas, calculateExplorationStats } from '../utils/explorationUtils';
+import { sessionRepository } from '../repositories/defaultRepositories';
+import {
+  addSessionExploredAreas,
+  calculateExplorationStats,
+  removeSessionExploredAreas,
+} from '../utils/explorationUtils';
+import { loadHistoryCache, saveHistoryCache } from '../utils/historyCache';
 
 interface DataManagementOptions {
   userId: string;
+  repository?: SessionRepository; // セッションの読み込み元（未指定はFirestore）
 }
 
-export function useDataManagement({ userId }: DataManagementOptions) {
+// 読み込んだセッションのポイントを揃えて履歴用にする（記録中のセッションは履歴に反映しないのでポイントを読み込まない）
+// 旧形式（インライン配列）とチャンク形式の両方からポイントを読み込む
+const toHistorySession = async (
+  repository: SessionRepository,
+  session: TrackingSession
+): Promise<TrackingSession> => ({
+  ...session,
+  points: session.isActive ? [] : await repository.loadPoints(session),
+});
+
+// 履歴に反映する終了済みのセッション
+// 探索エリアのみ保存するセッション（areas_only）はポイントの代わりに保存済みのエリアを使う
+const getFinishedSessions = (sessions: TrackingSession[]) =>
+  sessions.filter(
+    (session) =>
+      !session.isActive &&
+      ((session.points && session.points.length > 0) || (session.areas && session.areas.length > 0))
+  );
+
+// 保持しているセッションから更新されたか（最終記録時刻のみの更新は updatedAt が変わらない）
+const isSessionChanged = (cached: TrackingSession | undefined, session: TrackingSession) =>
+  !cached || cached.updatedAt?.getTime() !== session.updatedAt?.getTime();
+
+// 取得したセッションの中で最も新しい更新時刻
+const latestUpdatedAt = (sessions: TrackingSession[], current: Date | null) =>
+  sessions.reduce<Date | null>(
+    (latest, { updatedAt }) =>
+      updatedAt && (!latest || updatedAt.getTime() > latest.getTime()) ? updatedAt : latest,
+    current
+  );
+
+export function useDataManagement({
+  userId,
+  repository = sessionRepository,
+}: DataManagementOptions) {
   const [exploredAreas, setExploredAreas] = useState<ExploredArea[]>([]);
   const [historyExploredAreas, setHistoryExploredAreas] = useState<ExploredArea[]>([]);
   const [explorationStats, setExplorationStats] = useState<ExplorationStats>({
@@ -20,18 +66,45 @@ export function useDataManagement({ userId }: DataManagementOptions) {
     explorationPercentage: 0,
   });
   const [totalPointsCount, setTotalPointsCount] = useState(0);
+  // 履歴一覧に表示する終了済みのセッション
+  const [historySessions, setHistorySessions] = useState<TrackingSession[]>([]);
   const [showExplorationLayer] = useState(true);
+  const [historySync, setHistorySync] = useState<HistorySyncStatus>({
+    isSyncing: false,
+    isInitialLoad: false,
+    loadedSessions: 0,
+    isLive: false,
+  });
 
-  // データキャッシュ用のRef
+  // データキャッシュ用のRef（IndexedDBのキャッシュと同じ内容を保持する）
+  // lastSyncAt は同期済みの更新時刻（サーバー時刻）で、以降に更新されたセッションのみ再取得する
   const dataCache = useRef<{
-    sessions: TrackingSession[];
+    sessions: Map<string, TrackingSession>;
+    exploredAreas: ExploredArea[];
+    lastSyncAt: Date | null;
+    isLoaded: boolean;
     lastFetch: number;
     cacheExpiry: number;
   }>({
-    sessions: [],
+    sessions: new Map(),
+    exploredAreas: [],
+    lastSyncAt: null,
+    isLoaded: false,
     lastFetch: 0,
     cacheExpiry: TRACKING_CONFIG.CACHE_EXPIRY,
   });
+  // 同期を直列に実行するためのチェーン
+  const syncChain = useRef<Promise<void>>(Promise.resolve());
+  // セッションのリアルタイム同期（enabled はマウント中のみ true）
+  const liveSync = useRef<{
+    enabled: boolean;
+    unsubscribe: RepositoryUnsubscribe | null;
+    isLive: boolean;
+  }>({
+    enabled: false,
+    unsubscribe: null,
+    isLive: false,
+  });
 
   // 探索エリアの結合をメモ化（パフォーマンス最適化）
   const combinedExploredAreas = useMemo(
@@ -39,106 +112,315 @@ export function useDataManagement({ userId }: DataManagementOptions) {
     [historyExploredAreas, exploredAreas]
   );
 
-  // セッションデータを取得（キャッシュ対応）
-  const loadSessionData = useCallback(
-    async (forceRefresh = false) => {
-      try {
-        const now = Date.now();
+  // 履歴の探索エリアと統計を表示に反映
+  const showHistory = useCallback(
+    (sessions: TrackingSession[], historicalAreas: ExploredArea[]) => {
+      // 総データ数を更新
+      const finishedSessions = getFinishedSessions(sessions);
+      setTotalPointsCount(
+        finishedSessions.reduce((count, session) => count + session.points.length, 0)
+      );
+      setHistorySessions(finishedSessions);
 
-        // キャッシュが有効でforceRefreshでない場合はキャッシュを使用
-        if (
-          !forceRefresh &&
-          dataCache.current.sessions.length > 0 &&
-          now - dataCache.current.lastFetch < dataCache.current.cacheExpiry
-        ) {
-          console.log('Using cached session data');
-          // キャッシュデータを直接処理
-          const points: GeoPoint[] = [];
-          dataCache.current.sessions.forEach((session) => {
-            if (session.points && session.points.length > 0 && !session.isActive) {
-              points.push(...session.points);
-            }
-          });
+      setHistoryExploredAreas(historicalAreas);
+      if (historicalAreas.length > 0) {
+        // 統計を履歴込みで更新
+        setExplorationStats(calculateExplorationStats(historicalAreas));
+      }
+    },
+    []
+  );
 
-          setTotalPointsCount(points.length);
+  // 同期した履歴をIndexedDBに保存（次回起動時に即座に表示する）
+  const persistHistory = useCallback(async () => {
+    const { sessions, exploredAreas: historicalAreas, lastSyncAt } = dataCache.current;
+    try {
+      await saveHistoryCache({
+        userId,
+        sessions: [...sessions.values()],
+        exploredAreas: historicalAreas,
+        lastSyncAt: lastSyncAt?.getTime() ?? null,
+      });
+    } catch (error) {
+      console.error('Failed to save history cache:', error);
+    }
+  }, [userId]);
 
-          if (points.length > 0) {
-            const historicalAreas = generateExploredAreas(points, userId);
-            setHistoryExploredAreas(historicalAreas);
-            const historicalStats = calculateExplorationStats(historicalAreas);
-            setExplorationStats(historicalStats);
-          } else {
-            setHistoryExploredAreas([]);
-          }
-          return;
-        }
+  // IndexedDBのキャッシュから履歴を表示（Firestoreからの同期はこの後に差分のみ行う）
+  const restoreHistory = useCallback(async () => {
+    try {
+      const entry = await loadHistoryCache(userId);
+      if (!entry) return false;
 
-        const sessionsRef = collection(db, 'sessions');
-        const userQuery = query(sessionsRef, where('userId', '==', userId));
-
-        const snapshot = await getDocs(userQuery);
-        const sessions: TrackingSession[] = [];
-
-        snapshot.forEach((doc) => {
-          const session = doc.data() as TrackingSession;
-
-          // pointsのtimestampをDate型に変換
-          if (session.points && session.points.length > 0) {
-            const convertedPoints = session.points.map((point) => ({
-              ...point,
-              timestamp:
-                point.timestamp &&
-                typeof (point.timestamp as unknown as { toDate: () => Date }).toDate === 'function'
-                  ? (point.timestamp as unknown as { toDate: () => Date }).toDate()
-                  : point.timestamp,
-            }));
-            session.points = convertedPoints;
-          }
+      const cache = dataCache.current;
+      cache.sessions = new Map(entry.sessions.map((session) => [session.id, session]));
+      cache.lastSyncAt = entry.lastSyncAt !== null ? new Date(entry.lastSyncAt) : null;
+      cache.isLoaded = true;
+
+      cache.exploredAreas = entry.exploredAreas;
+      showHistory(entry.sessions, entry.exploredAreas);
+      console.log('History restored from cache:', entry.sessions.length, 'sessions');
+      return true;
+    } catch (error) {
+      console.error('Failed to load history cache:', error);
+      return false;
+    }
+  }, [userId, showHistory]);
+
+  // 全セッションを開始時刻の新しい順にページ単位で読み込み、ページ毎に地図へ反映する
+  // 探索エリアは読み込んだページのセッションの分のみ追加する（全セッションから作り直さない）
+  const loadAllSessions = useCallback(async () => {
+    const cache = dataCache.current;
+
+    // 読み込み中の更新を取りこぼさないよう、読み込み前の最新の更新時刻を同期済みとする
+    const lastSyncAt = await repository.getLatestUpdatedAt(userId);
+
+    const sessions = new Map<string, TrackingSession>();
+    let historicalAreas: ExploredArea[] = [];
+    let cursor: SessionPageCursor | null = null;
+    setHistorySync((prev) => ({
+      ...prev,
+      isSyncing: true,
+      isInitialLoad: true,
+      loadedSessions: 0,
+    }));
+
+    for (;;) {
+      const page: SessionPage = await repository.listPage(
+        userId,
+        cursor,
+        TRACKING_CONFIG.HISTORY_PAGE_SIZE
+      );
+      const pageSessions = await Promise.all(
+        page.sessions.map((session) => toHistorySession(repository, session))
+      );
+      pageSessions.forEach((session) => sessions.set(session.id, session));
+
+      historicalAreas = getFinishedSessions(pageSessions).reduce(
+        (areas, session) => addSessionExploredAreas(areas, session, userId),
+        historicalAreas
+      );
+      showHistory([...sessions.values()], historicalAreas);
+      setHistorySync((prev) => ({ ...prev, loadedSessions: sessions.size }));
+
+      if (!page.nextCursor) break;
+      cursor = page.nextCursor;
+    }
+
+    cache.sessions = sessions;
+    cache.exploredAreas = historicalAreas;
+    cache.lastSyncAt = lastSyncAt;
+    cache.isLoaded = true;
+    await persistHistory();
+  }, [userId, repository, showHistory, persistHistory]);
+
+  // セッションの追加・更新・削除を差分で反映する
+  // 更新・削除されたセッションのエリアのみ取り除き、追加・更新されたセッションのエリアを追加する
+  const applySessionChanges = useCallback(
+    async (changedSessions: TrackingSession[], removedIds: Set<string>) => {
+      const cache = dataCache.current;
+      const affectedIds = new Set([...removedIds, ...changedSessions.map(({ id }) => id)]);
+      removedIds.forEach((id) => cache.sessions.delete(id));
+      changedSessions.forEach((session) => cache.sessions.set(session.id, session));
+
+      const otherSessions = getFinishedSessions([...cache.sessions.values()]).filter(
+        (session) => !affectedIds.has(session.id)
+      );
+      cache.exploredAreas = getFinishedSessions(changedSessions).reduce(
+        (areas, session) => addSessionExploredAreas(areas, session, userId),
+        removeSessionExploredAreas(cache.exploredAreas, affectedIds, otherSessions, userId)
+      );
+
+      showHistory([...cache.sessions.values()], cache.exploredAreas);
+      await persistHistory();
+    },
+    [userId, showHistory, persistHistory]
+  );
+
+  // 前回の同期以降に更新されたセッションのみ再取得し、差分で反映する
+  // （updatedAt のない旧データは更新されない限り初回の読み込み結果を使う）
+  const loadChangedSessions = useCallback(async () => {
+    const cache = dataCache.current;
+    const updated = await repository.listUpdatedSince(userId, cache.lastSyncAt);
+    if (updated.length === 0) return;
+
+    setHistorySync((prev) => ({ ...prev, isSyncing: true, loadedSessions: cache.sessions.size }));
+    const changedSessions = await Promise.all(
+      updated.map((session) => toHistorySession(repository, session))
+    );
+    cache.lastSyncAt = latestUpdatedAt(changedSessions, cache.lastSyncAt);
+
+    await applySessionChanges(changedSessions, new Set());
+    console.log('Changed sessions loaded:', changedSessions.length, 'sessions');
+  }, [userId, repository, applySessionChanges]);
 
-          sessions.push(session);
+  // リアルタイム同期で受け取ったセッションの追加・更新・削除を反映する
+  const applySnapshot = useCallback(
+    async (snapshot: RepositorySnapshot<TrackingSession>, isFirst: boolean) => {
+      const cache = dataCache.current;
+      const removedIds = new Set<string>();
+      const updated: TrackingSession[] = [];
+
+      // 最初のスナップショットにないセッションはオフライン中に削除されたもの
+      if (isFirst) {
+        const ids = new Set(snapshot.ids);
+        cache.sessions.forEach((_, id) => {
+          if (!ids.has(id)) removedIds.add(id);
         });
+      }
+
+      snapshot.changes.forEach((change) => {
+        if (change.type === 'removed') {
+          removedIds.add(change.item.id);
+        } else if (
+          // 自端末の書き込みはサーバーの更新時刻が確定してから反映する
+          // 記録中のセッションは履歴に表示しないので、ポイントの追加による更新は終了するまで無視する
+          !change.hasPendingWrites &&
+          !change.item.isActive &&
+          isSessionChanged(cache.sessions.get(change.item.id), change.item)
+        ) {
+          updated.push(change.item);
+        }
+      });
 
-        // キャッシュ更新
-        dataCache.current = {
-          sessions,
-          lastFetch: now,
-          cacheExpiry: TRACKING_CONFIG.CACHE_EXPIRY,
-        };
+      if (removedIds.size > 0 || updated.length > 0) {
+        setHistorySync((prev) => ({ ...prev, isSyncing: true }));
+        const changedSessions = await Promise.all(
+          updated.map((session) => toHistorySession(repository, session))
+        );
+        cache.lastSyncAt = latestUpdatedAt(changedSessions, cache.lastSyncAt);
+        cache.lastFetch = Date.now();
 
-        // セッションデータを直接処理
-        const points: GeoPoint[] = [];
+        await applySessionChanges(changedSessions, removedIds);
+        console.log(
+          'Sessions synced:',
+          changedSessions.length,
+          'changed,',
+          removedIds.size,
+          'removed'
+        );
+      }
 
-        sessions.forEach((session) => {
-          if (session.points && session.points.length > 0 && !session.isActive) {
-            points.push(...session.points);
-          }
+      liveSync.current.isLive = !snapshot.fromCache;
+      setHistorySync((prev) => ({
+        ...prev,
+        isSyncing: false,
+        loadedSessions: cache.sessions.size,
+        isLive: liveSync.current.isLive,
+      }));
+    },
+    [repository, applySessionChanges]
+  );
+
+  // 編集・削除したセッションを読み直して履歴に反映し、探索エリアと統計を計算し直す
+  // サーバーの更新時刻で保持するので、リアルタイム同期で同じ更新を受け取っても読み直さない
+  const applySessionEdits = useCallback(
+    (sessionIds: string[], removedIds: string[]) => {
+      syncChain.current = syncChain.current
+        .then(async () => {
+          const saved = await Promise.all(sessionIds.map((id) => repository.get(id)));
+          const changedSessions = await Promise.all(
+            saved.flatMap((session) => (session ? [toHistorySession(repository, session)] : []))
+          );
+          await applySessionChanges(changedSessions, new Set(removedIds));
+          console.log(
+            'Session edits applied:',
+            changedSessions.length,
+            'saved,',
+            removedIds.length,
+            'removed'
+          );
+        })
+        .catch((error) => {
+          console.error('Failed to apply session edits:', error);
         });
+      return syncChain.current;
+    },
+    [repository, applySessionChanges]
+  );
 
-        // 総データ数を更新
-        setTotalPointsCount(points.length);
+  // ユーザーのセッションの変更の監視を開始（読み込み済みの履歴との差分のみ反映する）
+  const startLiveSync = useCallback(() => {
+    const live = liveSync.current;
+    if (!live.enabled || live.unsubscribe) return;
 
-        // 全履歴ポイントから探索エリアを生成
-        if (points.length > 0) {
-          const historicalAreas = generateExploredAreas(points, userId);
-          setHistoryExploredAreas(historicalAreas);
+    let isFirst = true;
+    live.unsubscribe = repository.watchByUser(
+      userId,
+      (snapshot) => {
+        const first = isFirst;
+        isFirst = false;
+        syncChain.current = syncChain.current
+          .then(() => applySnapshot(snapshot, first))
+          .catch((error) => {
+            console.error('Failed to apply session changes:', error);
+          });
+      },
+      (error) => {
+        // 監視できない場合は従来どおり再読み込み時に差分を取得する
+        console.error('Session listener error:', error);
+        live.unsubscribe = null;
+        live.isLive = false;
+        setHistorySync((prev) => ({ ...prev, isLive: false }));
+      }
+    );
+  }, [userId, repository, applySnapshot]);
+
+  // セッションデータを取得（キャッシュ対応）
+  const loadSessionData = useCallback(
+    (forceRefresh = false) => {
+      syncChain.current = syncChain.current.then(async () => {
+        const cache = dataCache.current;
+        const now = Date.now();
 
-          // 統計を履歴込みで更新
-          const historicalStats = calculateExplorationStats(historicalAreas);
-          setExplorationStats(historicalStats);
-        } else {
-          setHistoryExploredAreas([]);
+        // リアルタイム同期中は常に最新なので、キャッシュが有効な場合と同様に保持している履歴を使う
+        if (
+          cache.isLoaded &&
+          (liveSync.current.isLive || (!forceRefresh && now - cache.lastFetch < cache.cacheExpiry))
+        ) {
+          console.log('Using cached session data');
+          showHistory([...cache.sessions.values()], cache.exploredAreas);
+          return;
         }
-        console.log('Session data loaded:', sessions.length, 'sessions');
-      } catch (error) {
-        console.error('Error loading session data:', error);
-      }
+
+        try {
+          // 起動直後はIndexedDBのキャッシュを先に表示し、Firestoreとは差分のみ同期する
+          if (!cache.isLoaded) {
+            await restoreHistory();
+          }
+          if (cache.isLoaded) {
+            await loadChangedSessions();
+          } else {
+            await loadAllSessions();
+          }
+          cache.lastFetch = now;
+          console.log('Session data loaded:', cache.sessions.size, 'sessions');
+        } catch (error) {
+          console.error('Error loading session data:', error);
+        } finally {
+          setHistorySync((prev) => ({ ...prev, isSyncing: false, isInitialLoad: false }));
+        }
+
+        // 読み込み後は変更をリアルタイムに反映する
+        startLiveSync();
+      });
+      return syncChain.current;
     },
-    [userId]
+    [showHistory, restoreHistory, loadAllSessions, loadChangedSessions, startLiveSync]
   );
 
-  // 初回データ読み込み
+  // 初回データ読み込み（アンマウント時にリアルタイム同期を終了）
   useEffect(() => {
+    const live = liveSync.current;
+    live.enabled = true;
     loadSessionData();
+
+    return () => {
+      live.enabled = false;
+      live.isLive = false;
+      live.unsubscribe?.();
+      live.unsubscribe = null;
+    };
   }, [userId, loadSessionData]);
 
   return {
@@ -151,8 +433,11 @@ export function useDataManagement({ userId }: DataManagementOptions) {
     setExplorationStats,
     totalPointsCount,
     showExplorationLayer,
+    historySync,
+    historySessions,
 
     // Actions
     loadSessionData,
+    applySessionEdits,
   };
 }
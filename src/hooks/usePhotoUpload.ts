@@ -1,16 +1,19 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
 import type { LatLngExpression } from 'leaflet';
-import { collection, addDoc, getDocs, query, where } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { db, storage, auth } from '../firebase';
+import { storage, auth } from '../firebase';
 import type { Photo } from '../types/Photo';
+import type { PhotoRepository } from '../types/Repository';
 import { PHOTO_CONFIG, TRACKING_CONFIG } from '../constants/tracking';
+import { photoRepository } from '../repositories/defaultRepositories';
+import { loadPhotoCache, savePhotoCache } from '../utils/historyCache';
 
 interface PhotoUploadOptions {
   userId: string;
   currentPosition: LatLngExpression | null;
   trackingSessionId?: string | null;
   onUploadComplete?: () => void;
+  repository?: PhotoRepository; // 写真のメタデータの保存先（未指定はFirestore）
 }
 
 export function usePhotoUpload({
@@ -18,9 +21,11 @@ export function usePhotoUpload({
   currentPosition,
   trackingSessionId,
   onUploadComplete,
+  repository = photoRepository,
 }: PhotoUploadOptions) {
   const [photos, setPhotos] = useState<Photo[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [isPhotoSynced, setIsPhotoSynced] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const photoCacheRef = useRef<{
@@ -32,6 +37,58 @@ export function usePhotoUpload({
     lastFetch: 0,
     cacheExpiry: TRACKING_CONFIG.CACHE_EXPIRY,
   });
+  // リアルタイム同期中か（同期中は読み込み時にFirestoreへ問い合わせない）
+  const isListeningRef = useRef(false);
+
+  // 写真の追加・更新・削除をリアルタイムに反映
+  useEffect(() => {
+    let isFirst = true;
+    isListeningRef.current = true;
+
+    const unsubscribe = repository.watchByUser(
+      userId,
+      (snapshot) => {
+        const { changes } = snapshot;
+        // 最初のスナップショットは全件の追加として届くので、空の状態から反映する
+        if (isFirst || changes.length > 0) {
+          const photoMap = new Map(
+            isFirst ? [] : photoCacheRef.current.photos.map((photo) => [photo.id, photo])
+          );
+          changes.forEach((change) => {
+            if (change.type === 'removed') {
+              photoMap.delete(change.item.id);
+            } else {
+              photoMap.set(change.item.id, change.item);
+            }
+          });
+          isFirst = false;
+
+          const photoList = [...photoMap.values()];
+          photoCacheRef.current = {
+            photos: photoList,
+            lastFetch: Date.now(),
+            cacheExpiry: TRACKING_CONFIG.CACHE_EXPIRY,
+          };
+          setPhotos(photoList);
+          savePhotoCache(userId, photoList).catch((error) => {
+            console.error('Failed to save photo cache:', error);
+          });
+        }
+        setIsPhotoSynced(!snapshot.fromCache && !snapshot.hasPendingWrites);
+      },
+      (error) => {
+        // 監視できない場合は従来どおり読み込み時に取得する
+        console.error('Photo listener error:', error);
+        isListeningRef.current = false;
+        setIsPhotoSynced(false);
+      }
+    );
+
+    return () => {
+      isListeningRef.current = false;
+      unsubscribe();
+    };
+  }, [userId, repository]);
 
   // サムネイル生成関数
   const generateThumbnail = useCallback(
@@ -103,28 +160,27 @@ export function usePhotoUpload({
           return;
         }
 
-        const photosRef = collection(db, 'photos');
-        const photosQuery = query(photosRef, where('userId', '==', userId));
-
-        const snapshot = await getDocs(photosQuery);
-        const photoList: Photo[] = [];
-
-        snapshot.forEach((doc) => {
-          const photoData = doc.data();
-          const photo: Photo = {
-            id: doc.id,
-            userId: photoData.userId,
-            sessionId: photoData.sessionId,
-            location: photoData.location,
-            imageUrl: photoData.imageUrl,
-            thumbnailUrl: photoData.thumbnailUrl || photoData.imageUrl,
-            caption: photoData.caption,
-            timestamp: photoData.timestamp?.toDate() || new Date(),
-            tags: photoData.tags || [],
-            isPublic: photoData.isPublic || false,
-          };
-          photoList.push(photo);
-        });
+        // 起動直後はIndexedDBのキャッシュを先に表示し、Firestoreから取得し直す
+        // （リアルタイム同期の最初のスナップショットが先に届いた場合は上書きしない）
+        if (photoCacheRef.current.lastFetch === 0) {
+          const cachedPhotos = await loadPhotoCache(userId).catch((error) => {
+            console.error('Failed to load photo cache:', error);
+            return null;
+          });
+          if (cachedPhotos && photoCacheRef.current.lastFetch === 0) {
+            setPhotos(cachedPhotos);
+          }
+        }
+
+        // リアルタイム同期中は変更が自動で反映される
+        if (isListeningRef.current) {
+          if (photoCacheRef.current.lastFetch > 0) {
+            setPhotos(photoCacheRef.current.photos);
+          }
+          return;
+        }
+
+        const photoList = await repository.listByUser(userId);
 
         // キャッシュ更新
         photoCacheRef.current = {
@@ -135,11 +191,14 @@ export function usePhotoUpload({
 
         console.log('Photo data loaded:', photoList.length, 'photos');
         setPhotos(photoList);
+        savePhotoCache(userId, photoList).catch((error) => {
+          console.error('Failed to save photo cache:', error);
+        });
       } catch (error) {
         console.error('Error loading photo data:', error);
       }
     },
-    [userId]
+    [userId, repository]
   );
 
   // カメラボタンクリック処理
@@ -219,9 +278,9 @@ export function usePhotoUpload({
         console.log('Thumbnail URL:', thumbnailURL);
 
         // Firestoreに写真情報を保存
-        const photoData = {
+        const photoData: Omit<Photo, 'id'> = {
           userId: currentUser.uid,
-          sessionId: trackingSessionId || null,
+          ...(trackingSessionId ? { sessionId: trackingSessionId } : {}),
           location: {
             lat: Array.isArray(currentPosition)
               ? currentPosition[0]
@@ -243,8 +302,8 @@ export function usePhotoUpload({
         console.log('Saving photo data to Firestore:', photoData);
 
         try {
-          const docRef = await addDoc(collection(db, 'photos'), photoData);
-          console.log('Photo saved with ID:', docRef.id);
+          const photoId = await repository.add(photoData);
+          console.log('Photo saved with ID:', photoId);
 
           // 写真アップロード後に写真データを強制リフレッシュ
           await loadPhotoData(true);
@@ -278,13 +337,22 @@ export function usePhotoUpload({
         event.target.value = '';
       }
     },
-    [currentPosition, generateThumbnail, userId, trackingSessionId, loadPhotoData, onUploadComplete]
+    [
+      currentPosition,
+      generateThumbnail,
+      userId,
+      trackingSessionId,
+      loadPhotoData,
+      onUploadComplete,
+      repository,
+    ]
   );
 
   return {
     // State
     photos,
     isUploading,
+    isPhotoSynced,
     fileInputRef,
 
     // Actions
@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react';
+import { RETENTION_CONFIG } from '../constants/tracking';
+import { applyRetentionPolicy } from '../utils/sessionRetention';
+import type { RetentionReport } from '../utils/sessionRetention';
+
+interface RetentionPolicyOptions {
+  userId: string;
+  enabled: boolean; // 記録を担当するタブでのみ実行する
+  onComplete?: (report: RetentionReport) => void;
+}
+
+// LocalStorageから前回の実行結果を読み込む
+const loadReport = (): RetentionReport | null => {
+  try {
+    const stored = localStorage.getItem(RETENTION_CONFIG.REPORT_STORAGE_KEY);
+    if (stored) {
+      const report = JSON.parse(stored);
+      return { ...report, ranAt: new Date(report.ranAt) };
+    }
+  } catch (error) {
+    console.error('Failed to load retention report:', error);
+  }
+  return null;
+};
+
+// 保存期間を過ぎた生ポイントの間引きを起動後に少しずつ実行する
+export function useRetentionPolicy({ userId, enabled, onComplete }: RetentionPolicyOptions) {
+  const [report, setReport] = useState<RetentionReport | null>(loadReport);
+
+  useEffect(() => {
+    if (!RETENTION_CONFIG.ENABLED || !enabled) return;
+
+    // 前回の実行から間隔が空いていない場合は、処理待ちのセッションが残っている時のみ実行
+    const previous = loadReport();
+    if (
+      previous &&
+      previous.sessionsRemaining === 0 &&
+      Date.now() - previous.ranAt.getTime() < RETENTION_CONFIG.RUN_INTERVAL
+    ) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await applyRetentionPolicy({ userId });
+        if (cancelled) return;
+
+        localStorage.setItem(RETENTION_CONFIG.REPORT_STORAGE_KEY, JSON.stringify(result));
+        setReport(result);
+        console.log('Retention policy applied:', result);
+        if (result.sessionsProcessed > 0) {
+          onComplete?.(result);
+        }
+      } catch (error) {
+        console.error('Failed to apply retention policy:', error);
+      }
+    }, RETENTION_CONFIG.START_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [userId, enabled, onComplete]);
+
+  return {
+    // State
+    retentionReport: report,
+  };
+}
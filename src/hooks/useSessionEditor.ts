@@ -0,0 +1,293 @@
+import { useState, useCallback, useMemo, useRef } from 'react';
+import type { SessionMetrics, TrackingSession } from '../types/GeoPoint';
+import type { ExploredArea } from '../types/ExploredArea';
+import type { Photo } from '../types/Photo';
+import type { PhotoRepository, SessionRepository } from '../types/Repository';
+import type {
+  DraftSession,
+  EditorCursor,
+  MergeDirection,
+  SessionDraft,
+} from '../types/SessionEditor';
+import {
+  photoRepository as defaultPhotoRepository,
+  sessionRepository as defaultSessionRepository,
+} from '../repositories/defaultRepositories';
+import {
+  canEditPoints,
+  mergeSessions,
+  removePoint,
+  splitSession,
+  trimSession,
+} from '../utils/sessionEditing';
+import { calculateSessionMetrics, getPriorAreas } from '../utils/sessionMetrics';
+import { saveSessionDraft } from '../utils/sessionDraftSaving';
+
+interface SessionEditorOptions {
+  sessions: TrackingSession[]; // 終了済みの履歴セッション
+  exploredAreas: ExploredArea[]; // 履歴セッションから生成した探索済みエリア
+  photos: Photo[];
+  onSaved: (sessionIds: string[], removedIds: string[]) => void;
+  repository?: SessionRepository; // セッションの保存先（未指定はFirestore）
+  photoRepository?: PhotoRepository;
+}
+
+// 編集画面に表示するセッション
+export interface EditedSession extends DraftSession {
+  metrics: SessionMetrics; // 編集後の内容で計算し直した統計
+  mergeable: Record<MergeDirection, boolean>; // 前後のセッションと結合できるか
+}
+
+const byStartTime = (a: DraftSession, b: DraftSession) =>
+  a.session.startTime.getTime() - b.session.startTime.getTime();
+
+// 編集中のセッションの1つを置き換える
+const replaceSession = (
+  draft: SessionDraft,
+  sessionId: string,
+  replace: (item: DraftSession) => DraftSession[]
+): SessionDraft => ({
+  ...draft,
+  sessions: draft.sessions
+    .flatMap((item) => (item.session.id === sessionId ? replace(item) : [item]))
+    .sort(byStartTime),
+});
+
+// セッションの編集（トリミング・分割・結合・外れ値の削除・削除）
+// 編集内容は保存するまでメモリ上に保持し、1操作ずつ元に戻せる
+export function useSessionEditor({
+  sessions,
+  exploredAreas,
+  photos,
+  onSaved,
+  repository = defaultSessionRepository,
+  photoRepository = defaultPhotoRepository,
+}: SessionEditorOptions) {
+  const [draft, setDraft] = useState<SessionDraft | null>(null);
+  const [undoStack, setUndoStack] = useState<SessionDraft[]>([]);
+  const [cursor, setCursor] = useState<EditorCursor | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // 分割で追加したセッションの仮のIDの連番
+  const nextDraftId = useRef(1);
+
+  // 編集中のセッションと、それ以外の履歴セッションを開始時刻順に並べたもの（結合相手の判定用）
+  const timeline = useMemo(() => {
+    if (!draft) return [];
+    const draftIds = new Set(draft.sessions.map(({ session }) => session.id));
+    const deletedIds = new Set(draft.deletedIds);
+    return [
+      ...draft.sessions,
+      ...sessions
+        .filter((session) => !draftIds.has(session.id) && !deletedIds.has(session.id))
+        .map((session) => ({ session, isNew: false })),
+    ].sort(byStartTime);
+  }, [draft, sessions]);
+
+  // 統計で探索済みとみなすエリア（編集・削除するセッション自身のエリアは除く）
+  const priorAreasOf = useCallback(
+    (session: TrackingSession) => {
+      const editingIds = new Set([
+        ...(draft?.sessions ?? []).map((item) => item.session.id),
+        ...(draft?.deletedIds ?? []),
+      ]);
+      return getPriorAreas(session, sessions, exploredAreas).filter(
+        (area) => !area.sessionId || !editingIds.has(area.sessionId)
+      );
+    },
+    [draft, sessions, exploredAreas]
+  );
+
+  const neighborOf = useCallback(
+    (sessionId: string, direction: MergeDirection) => {
+      const index = timeline.findIndex(({ session }) => session.id === sessionId);
+      if (index === -1) return null;
+      return timeline[direction === 'previous' ? index - 1 : index + 1] ?? null;
+    },
+    [timeline]
+  );
+
+  const editedSessions = useMemo<EditedSession[]>(
+    () =>
+      (draft?.sessions ?? []).map((item) => {
+        const canMerge = (direction: MergeDirection) => {
+          const neighbor = neighborOf(item.session.id, direction);
+          return (
+            neighbor !== null && canEditPoints(item.session) && canEditPoints(neighbor.session)
+          );
+        };
+        return {
+          ...item,
+          metrics: calculateSessionMetrics(item.session, priorAreasOf(item.session)),
+          mergeable: { previous: canMerge('previous'), next: canMerge('next') },
+        };
+      }),
+    [draft, priorAreasOf, neighborOf]
+  );
+
+  // 編集内容を更新し、更新前の内容を元に戻せるよう積む
+  const applyEdit = useCallback(
+    (update: (current: SessionDraft) => SessionDraft) => {
+      if (!draft) return;
+      setUndoStack((stack) => [...stack, draft]);
+      setDraft(update(draft));
+      setCursor(null);
+    },
+    [draft]
+  );
+
+  const openEditor = useCallback(
+    (sessionId: string) => {
+      const session = sessions.find(({ id }) => id === sessionId);
+      if (!session) return;
+      setDraft({ sessions: [{ session, isNew: false }], deletedIds: [] });
+      setUndoStack([]);
+      setCursor(null);
+      setError(null);
+    },
+    [sessions]
+  );
+
+  const closeEditor = useCallback(() => {
+    setDraft(null);
+    setUndoStack([]);
+    setCursor(null);
+    setError(null);
+  }, []);
+
+  const trim = useCallback(
+    (sessionId: string, startIndex: number, endIndex: number) =>
+      applyEdit((current) =>
+        replaceSession(current, sessionId, (item) => [
+          { ...item, session: trimSession(item.session, startIndex, endIndex) },
+        ])
+      ),
+    [applyEdit]
+  );
+
+  const split = useCallback(
+    (sessionId: string, index: number) => {
+      const newId = `draft-${nextDraftId.current++}`;
+      applyEdit((current) =>
+        replaceSession(current, sessionId, (item) => {
+          const [first, second] = splitSession(item.session, index, newId);
+          return [
+            { ...item, session: first },
+            { session: second, isNew: true },
+          ];
+        })
+      );
+    },
+    [applyEdit]
+  );
+
+  // 隣のセッションと結合する（先に開始したセッションのIDで保存し、後のセッションは削除する）
+  const merge = useCallback(
+    (sessionId: string, direction: MergeDirection) => {
+      const item = timeline.find(({ session }) => session.id === sessionId);
+      const neighbor = neighborOf(sessionId, direction);
+      if (!item || !neighbor) return;
+      const [first, second] = direction === 'next' ? [item, neighbor] : [neighbor, item];
+
+      applyEdit((current) => ({
+        sessions: [
+          ...current.sessions.filter(
+            ({ session }) => session.id !== first.session.id && session.id !== second.session.id
+          ),
+          { ...first, session: mergeSessions(first.session, second.session) },
+        ].sort(byStartTime),
+        deletedIds: second.isNew ? current.deletedIds : [...current.deletedIds, second.session.id],
+      }));
+    },
+    [timeline, neighborOf, applyEdit]
+  );
+
+  const removeOutlier = useCallback(
+    (sessionId: string, index: number) =>
+      applyEdit((current) =>
+        replaceSession(current, sessionId, (item) => [
+          { ...item, session: removePoint(item.session, index) },
+        ])
+      ),
+    [applyEdit]
+  );
+
+  // 削除したセッションから生成した探索エリアは、保存後の履歴の再計算で取り除かれる
+  const deleteSession = useCallback(
+    (sessionId: string) =>
+      applyEdit((current) => {
+        const item = current.sessions.find(({ session }) => session.id === sessionId);
+        return {
+          sessions: current.sessions.filter(({ session }) => session.id !== sessionId),
+          deletedIds: item && !item.isNew ? [...current.deletedIds, sessionId] : current.deletedIds,
+        };
+      }),
+    [applyEdit]
+  );
+
+  const undo = useCallback(() => {
+    const previous = undoStack[undoStack.length - 1];
+    if (!previous) return;
+    setUndoStack((stack) => stack.slice(0, -1));
+    setDraft(previous);
+    setCursor(null);
+  }, [undoStack]);
+
+  // 編集内容を保存する
+  const save = useCallback(async () => {
+    if (!draft || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { savedIds, removedIds } = await saveSessionDraft({
+        draft,
+        sessions,
+        photos,
+        priorAreasOf,
+        repository,
+        photoRepository,
+      });
+      onSaved(savedIds, removedIds);
+      closeEditor();
+    } catch (saveError) {
+      console.error('Failed to save session edits:', saveError);
+      setError('保存に失敗しました。通信状態を確認して再度保存してください');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [
+    draft,
+    isSaving,
+    sessions,
+    priorAreasOf,
+    photos,
+    repository,
+    photoRepository,
+    onSaved,
+    closeEditor,
+  ]);
+
+  return {
+    // State
+    isEditing: draft !== null,
+    editedSessions,
+    deletedCount: draft?.deletedIds.length ?? 0,
+    canUndo: undoStack.length > 0,
+    cursor,
+    isSaving,
+    error,
+
+    // Actions
+    openEditor,
+    closeEditor,
+    setCursor,
+    trim,
+    split,
+    merge,
+    removeOutlier,
+    deleteSession,
+    undo,
+    save,
+  };
+}
@@ -0,0 +1,109 @@
+import { useState, useCallback, useMemo } from 'react';
+import type { SessionMetrics, TrackingSession } from '../types/GeoPoint';
+import type { ExploredArea } from '../types/ExploredArea';
+import type { Photo } from '../types/Photo';
+import type { SessionSortKey, SessionSortOrder } from '../types/SessionHistory';
+import { TRAIL_COLORS } from '../constants/ui';
+import {
+  filterSessionSummaries,
+  sortSessionSummaries,
+  summarizeSession,
+} from '../utils/sessionSummary';
+import { calculateSessionMetrics, getPriorAreas } from '../utils/sessionMetrics';
+
+interface SessionHistoryOptions {
+  sessions: TrackingSession[]; // 終了済みの履歴セッション
+  photos: Photo[];
+  exploredAreas: ExploredArea[]; // 履歴セッションから生成した探索済みエリア
+}
+
+// 地図に重ねて表示する選択中のセッション
+export interface SelectedSession {
+  session: TrackingSession;
+  color: (typeof TRAIL_COLORS.HISTORY)[number];
+  metrics: SessionMetrics;
+}
+
+// 履歴一覧の検索・並び替えと、地図に表示するセッションの選択
+export function useSessionHistory({ sessions, photos, exploredAreas }: SessionHistoryOptions) {
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState<SessionSortKey>('date');
+  const [sortOrder, setSortOrder] = useState<SessionSortOrder>('desc');
+  // 選択中のセッションと割り当てた色（選択を外しても他のセッションの色は変えない）
+  const [selection, setSelection] = useState<{ id: string; colorIndex: number }[]>([]);
+
+  const summaries = useMemo(
+    () =>
+      sortSessionSummaries(
+        filterSessionSummaries(
+          sessions.map((session) => summarizeSession(session, photos)),
+          query
+        ),
+        sortKey,
+        sortOrder
+      ),
+    [sessions, photos, query, sortKey, sortOrder]
+  );
+
+  // 同期で削除されたセッションは選択から外す
+  // 統計が保存されていないセッションは、それより前に開始したセッションのエリアを探索済みとして計算する
+  const selectedSessions = useMemo<SelectedSession[]>(() => {
+    const sessionMap = new Map(sessions.map((session) => [session.id, session]));
+    return selection.flatMap(({ id, colorIndex }) => {
+      const session = sessionMap.get(id);
+      return session
+        ? [
+            {
+              session,
+              color: TRAIL_COLORS.HISTORY[colorIndex % TRAIL_COLORS.HISTORY.length],
+              metrics:
+                session.metrics ??
+                calculateSessionMetrics(session, getPriorAreas(session, sessions, exploredAreas)),
+            },
+          ]
+        : [];
+    });
+  }, [sessions, selection, exploredAreas]);
+
+  // 選択したセッションには使われていない色を順に割り当てる
+  const toggleSession = useCallback((sessionId: string) => {
+    setSelection((prev) => {
+      if (prev.some(({ id }) => id === sessionId)) {
+        return prev.filter(({ id }) => id !== sessionId);
+      }
+      let colorIndex = 0;
+      while (prev.some((item) => item.colorIndex === colorIndex)) colorIndex++;
+      return [...prev, { id: sessionId, colorIndex }];
+    });
+  }, []);
+
+  const clearSelection = useCallback(() => setSelection([]), []);
+
+  // 同じ項目を選ぶと昇順・降順を切り替え、別の項目は降順から表示する
+  const changeSort = useCallback(
+    (key: SessionSortKey) => {
+      if (key === sortKey) {
+        setSortOrder((prev) => (prev === 'asc' ? 'desc' : 'asc'));
+      } else {
+        setSortKey(key);
+        setSortOrder('desc');
+      }
+    },
+    [sortKey]
+  );
+
+  return {
+    // State
+    query,
+    sortKey,
+    sortOrder,
+    summaries,
+    selectedSessions,
+
+    // Actions
+    setQuery,
+    changeSort,
+    toggleSession,
+    clearSelection,
+  };
+}
@@ -0,0 +1,191 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
+import type { ExploredArea } from '../types/ExploredArea';
+import type { Photo } from '../types/Photo';
+import type { PlaybackSource, PlaybackTrail } from '../types/Playback';
+import { PLAYBACK_CONFIG } from '../constants/ui';
+import {
+  countRevealedAreas,
+  createPlaybackTimeline,
+  getPlaybackPosition,
+  getPlaybackTime,
+  getPlayedPoints,
+  sortAreasByTime,
+  spreadSessionAreaTimes,
+} from '../utils/playbackTimeline';
+
+interface SessionPlaybackOptions {
+  sessions: TrackingSession[]; // 終了済みの履歴セッション
+  photos: Photo[];
+  exploredAreas: ExploredArea[]; // 履歴セッションから生成した探索済みエリア
+}
+
+// 再生位置までに撮影した写真（isPopup: 撮影時刻に達した直後で、拡大して表示する）
+export interface PlaybackPhoto {
+  photo: Photo;
+  isPopup: boolean;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// 再生するセッション（期間指定は開始時刻が期間内のセッション）
+const selectSessions = (sessions: TrackingSession[], source: PlaybackSource | null) => {
+  if (!source) return [];
+  if (source.type === 'sessions') {
+    const sessionIds = new Set(source.sessionIds);
+    return sessions.filter((session) => sessionIds.has(session.id));
+  }
+  const from = source.from.getTime();
+  const to = source.to.getTime() + DAY;
+  return sessions.filter((session) => {
+    const startTime = session.startTime.getTime();
+    return startTime >= from && startTime < to;
+  });
+};
+
+// 記録したセッションの再生（軌跡を時刻順に描き、探索エリアと写真を記録した時刻に表示する）
+export function useSessionPlayback({ sessions, photos, exploredAreas }: SessionPlaybackOptions) {
+  const [source, setSource] = useState<PlaybackSource | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState<number>(PLAYBACK_CONFIG.DEFAULT_SPEED);
+  // タイマーから参照する再生位置（state の更新を待たずに進める）
+  const positionRef = useRef(0);
+
+  const timeline = useMemo(
+    () => createPlaybackTimeline(selectSessions(sessions, source)),
+    [sessions, source]
+  );
+  const currentTime = useMemo(() => getPlaybackTime(timeline, position), [timeline, position]);
+
+  // 再生位置の時刻より前に探索したエリア（再生中のセッション以外で探索済みのエリアを含む）
+  const sortedAreas = useMemo(
+    () => (source ? sortAreasByTime(spreadSessionAreaTimes(exploredAreas, sessions)) : []),
+    [source, exploredAreas, sessions]
+  );
+  const revealedCount = currentTime ? countRevealedAreas(sortedAreas, currentTime) : 0;
+  const revealedAreas = useMemo(
+    () => sortedAreas.slice(0, revealedCount),
+    [sortedAreas, revealedCount]
+  );
+
+  const trails = useMemo<PlaybackTrail[]>(() => {
+    if (!currentTime) return [];
+    return timeline.sessions
+      .filter((session) => session.startTime <= currentTime)
+      .map((session) => ({ session, points: getPlayedPoints(session.points, currentTime) }));
+  }, [timeline, currentTime]);
+
+  // 再生中の位置（最後に描いたポイント）
+  const head = useMemo<GeoPoint | null>(() => {
+    const trail = [...trails].reverse().find(({ points }) => points.length > 0);
+    return trail ? trail.points[trail.points.length - 1] : null;
+  }, [trails]);
+
+  // 再生するセッションの写真の再生位置
+  const photoPositions = useMemo(() => {
+    const sessionIds = new Set(timeline.sessions.map((session) => session.id));
+    return photos.flatMap((photo) => {
+      if (!photo.sessionId || !sessionIds.has(photo.sessionId)) return [];
+      const photoPosition = getPlaybackPosition(timeline, photo.timestamp);
+      return photoPosition === null ? [] : [{ photo, position: photoPosition }];
+    });
+  }, [photos, timeline]);
+
+  // 撮影時刻に達した写真は、再生速度によらず一定時間拡大して表示する
+  const playbackPhotos = useMemo<PlaybackPhoto[]>(
+    () =>
+      photoPositions
+        .filter((item) => item.position <= position)
+        .map(({ photo, position: photoPosition }) => ({
+          photo,
+          isPopup: position - photoPosition < PLAYBACK_CONFIG.PHOTO_DISPLAY_TIME * speed,
+        })),
+    [photoPositions, position, speed]
+  );
+
+  const moveTo = useCallback((next: number) => {
+    positionRef.current = next;
+    setPosition(next);
+  }, []);
+
+  // 再生中は実際の経過時間に再生速度を掛けて再生位置を進め、最後まで再生したら止める
+  useEffect(() => {
+    if (!isPlaying) return;
+    let lastTick = Date.now();
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const next = Math.min(timeline.duration, positionRef.current + (now - lastTick) * speed);
+      lastTick = now;
+      moveTo(next);
+      if (next >= timeline.duration) {
+        setIsPlaying(false);
+      }
+    }, PLAYBACK_CONFIG.FRAME_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isPlaying, speed, timeline.duration, moveTo]);
+
+  const start = useCallback(
+    (next: PlaybackSource) => {
+      setSource(next);
+      moveTo(0);
+      setIsPlaying(true);
+    },
+    [moveTo]
+  );
+
+  const playSessions = useCallback(
+    (sessionIds: string[]) => start({ type: 'sessions', sessionIds }),
+    [start]
+  );
+
+  const playRange = useCallback(
+    (from: Date, to: Date) => start({ type: 'range', from, to }),
+    [start]
+  );
+
+  const close = useCallback(() => {
+    setSource(null);
+    setIsPlaying(false);
+    moveTo(0);
+  }, [moveTo]);
+
+  // 最後まで再生した後は最初から再生し直す
+  const play = useCallback(() => {
+    if (timeline.duration === 0) return;
+    if (positionRef.current >= timeline.duration) moveTo(0);
+    setIsPlaying(true);
+  }, [timeline.duration, moveTo]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const seek = useCallback(
+    (next: number) => moveTo(Math.min(Math.max(0, next), timeline.duration)),
+    [timeline.duration, moveTo]
+  );
+
+  return {
+    // State
+    isActive: source !== null,
+    source,
+    sessionCount: timeline.sessions.length,
+    duration: timeline.duration,
+    position,
+    currentTime,
+    isPlaying,
+    speed,
+    trails,
+    head,
+    revealedAreas,
+    playbackPhotos,
+
+    // Actions
+    playSessions,
+    playRange,
+    close,
+    play,
+    pause,
+    seek,
+    setSpeed,
+  };
+}
@@ -0,0 +1,30 @@
+import { useState, useCallback } from 'react';
+import type { StorageMode } from '../types/GeoPoint';
+import { TRACKING_CONFIG } from '../constants/tracking';
+
+const STORAGE_MODES: StorageMode[] = ['incremental', 'full', 'areas_only', 'compact'];
+
+// LocalStorageから保存モードを読み込む
+const loadStorageMode = (): StorageMode => {
+  const stored = localStorage.getItem(TRACKING_CONFIG.STORAGE_MODE_STORAGE_KEY) as StorageMode;
+  return STORAGE_MODES.includes(stored) ? stored : TRACKING_CONFIG.STORAGE_MODE;
+};
+
+// 新規セッションの保存モード（ユーザー設定）
+export function useStorageMode() {
+  const [storageMode, setStorageModeState] = useState<StorageMode>(loadStorageMode);
+
+  // 選択した保存モードを保存
+  const setStorageMode = useCallback((next: StorageMode) => {
+    localStorage.setItem(TRACKING_CONFIG.STORAGE_MODE_STORAGE_KEY, next);
+    setStorageModeState(next);
+  }, []);
+
+  return {
+    // State
+    storageMode,
+
+    // Actions
+    setStorageMode,
+  };
+}
@@ -0,0 +1,36 @@
+import { useState, useRef, useEffect } from 'react';
+import { createTabCoordinator } from '../tracking/tabCoordinator';
+import type { TabCoordinator } from '../tracking/tabCoordinator';
+
+// 複数タブのうち記録を担当するタブかどうかと、他のタブの記録状態
+export function useTabCoordination(isTracking: boolean) {
+  const [isLeader, setIsLeader] = useState(false);
+  const [isOtherTabTracking, setIsOtherTabTracking] = useState(false);
+  const coordinatorRef = useRef<TabCoordinator | null>(null);
+  const isTrackingRef = useRef(isTracking);
+
+  useEffect(() => {
+    const coordinator = createTabCoordinator({
+      onLeadershipChange: (leader) => {
+        setIsLeader(leader);
+        if (leader) coordinatorRef.current?.publishTracking(isTrackingRef.current);
+      },
+      onRemoteTrackingChange: setIsOtherTabTracking,
+    });
+    coordinatorRef.current = coordinator;
+
+    return () => {
+      coordinator.dispose();
+      coordinatorRef.current = null;
+      setIsLeader(false);
+    };
+  }, []);
+
+  // 記録担当タブの記録状態を他のタブへ通知
+  useEffect(() => {
+    isTrackingRef.current = isTracking;
+    coordinatorRef.current?.publishTracking(isTracking);
+  }, [isTracking]);
+
+  return { isLeader, isOtherTabTracking };
+}
@@ -0,0 +1,540 @@
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import type { LatLngExpression } from 'leaflet';
+import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
+import type { ExploredArea } from '../types/ExploredArea';
+import type { ActiveDeviceRepository, SessionRepository } from '../types/Repository';
+import type {
+  AccuracyModeState,
+  ActiveDeviceClaim,
+  PositionSource,
+  PositionSourceError,
+  SyncStatus,
+  TrackingEngineConfig,
+  TrackingState,
+} from '../types/Tracking';
+import { ERROR_MESSAGES, TRACKING_CONFIG } from '../constants/tracking';
+import { createTrackingEngine } from '../tracking/trackingEngine';
+import type { TrackingEngine } from '../tracking/trackingEngine';
+import { createFirestoreTrackingSink } from '../tracking/firestoreSink';
+import { activeDeviceRepository, sessionRepository } from '../repositories/defaultRepositories';
+import {
+  closeSessionProgress,
+  getSessionLastSeen,
+  getSessionProgress,
+} from '../utils/sessionSegments';
+import { findRemoteActiveSession, getClaimExpiry, getDeviceId } from '../utils/activeDevice';
+import { useTabCoordination } from './useTabCoordination';
+
+interface TrackingEngineHookOptions {
+  userId: string;
+  source: PositionSource;
+  config?: Partial<TrackingEngineConfig>;
+  resumeWindow?: number; // 最終記録からセッションを継続できる時間 (ms)
+  onPointRecorded?: (point: GeoPoint, session: TrackingSession | null) => void;
+  priorAreas?: ExploredArea[]; // 終了時の統計で探索済みとみなす過去のセッションのエリア
+  repository?: SessionRepository; // セッションの保存先（未指定はFirestore）
+  deviceRepository?: ActiveDeviceRepository; // 記録中の端末の宣言の保存先（未指定はFirestore）
+}
+
+// 位置情報が取得できない場合のフォールバック位置（東京駅）
+const FALLBACK_POSITION: LatLngExpression = [35.6812, 139.7671];
+
+// 位置情報エラーの表示用メッセージ（コードは GeolocationPositionError と同じ）
+const describeGeolocationError = (error: PositionSourceError): string => {
+  switch (error.code) {
+    case 1:
+      return ERROR_MESSAGES.GEOLOCATION.PERMISSION_DENIED;
+    case 2:
+      return ERROR_MESSAGES.GEOLOCATION.POSITION_UNAVAILABLE;
+    case 3:
+      return ERROR_MESSAGES.GEOLOCATION.TIMEOUT;
+    default:
+      return ERROR_MESSAGES.GEOLOCATION.UNKNOWN;
+  }
+};
+
+// Battery Status API（TypeScriptの型定義にないため最小限を定義）
+interface BatteryManagerLike extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+type NavigatorWithBattery = Navigator & { getBattery?: () => Promise<BatteryManagerLike> };
+
+export function useTrackingEngine({
+  userId,
+  source,
+  config,
+  resumeWindow = TRACKING_CONFIG.SESSION_RESUME_WINDOW,
+  onPointRecorded,
+  priorAreas,
+  repository = sessionRepository,
+  deviceRepository = activeDeviceRepository,
+}: TrackingEngineHookOptions) {
+  const [trackingState, setTrackingState] = useState<TrackingState>('idle');
+  const [trackingSession, setTrackingSession] = useState<TrackingSession | null>(null);
+  const [currentPosition, setCurrentPosition] = useState<LatLngExpression | null>(null);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [lastLocationUpdate, setLastLocationUpdate] = useState<Date | null>(null);
+  const [accuracyMode, setAccuracyMode] = useState<AccuracyModeState | null>(null);
+  const [isOtherDeviceTracking, setIsOtherDeviceTracking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({
+    state: 'synced',
+    failureCount: 0,
+    nextRetryAt: null,
+  });
+
+  const isTracking = trackingState !== 'idle' && trackingState !== 'finalizing';
+
+  // 記録するのは記録担当タブのみ（他のタブは閲覧のみ）
+  const { isLeader, isOtherTabTracking } = useTabCoordination(isTracking);
+  const isLeaderRef = useRef(isLeader);
+  const deviceId = useMemo(getDeviceId, []);
+  // この端末が記録中の端末として宣言したサーバー時刻（それより前の他端末の宣言は無視する）
+  // 宣言の書き込みが監視に反映されるまでは Infinity とし、その間に届いた他端末の宣言も無視する
+  const claimedAtRef = useRef(0);
+
+  const engineRef = useRef<TrackingEngine | null>(null);
+  const onPointRecordedRef = useRef(onPointRecorded);
+  const configRef = useRef(config);
+  const priorAreasRef = useRef(priorAreas);
+
+  useEffect(() => {
+    onPointRecordedRef.current = onPointRecorded;
+  }, [onPointRecorded]);
+
+  useEffect(() => {
+    priorAreasRef.current = priorAreas;
+  }, [priorAreas]);
+
+  useEffect(() => {
+    isLeaderRef.current = isLeader;
+  }, [isLeader]);
+
+  // この端末で記録中であることを宣言（他の端末は記録を終了する）
+  const claimDevice = useCallback(
+    (sessionId: string) => {
+      const previousClaimedAt = claimedAtRef.current;
+      claimedAtRef.current = Number.POSITIVE_INFINITY;
+      deviceRepository.claim(userId, { deviceId, sessionId }).catch((error) => {
+        console.error('Failed to claim active device:', error);
+        claimedAtRef.current = previousClaimedAt;
+      });
+    },
+    [userId, deviceId, deviceRepository]
+  );
+
+  // 設定（アクティビティプロファイル等）の変更をエンジンに反映
+  useEffect(() => {
+    configRef.current = config;
+    if (config) {
+      engineRef.current?.updateConfig(config);
+    }
+  }, [config]);
+
+  const startTracking = useCallback(async () => {
+    const engine = engineRef.current;
+    if (!engine || !isLeaderRef.current) {
+      return;
+    }
+
+    // 他の端末で記録中なら引き継ぐか確認
+    try {
+      const remoteSessionId = await findRemoteActiveSession(
+        userId,
+        deviceId,
+        resumeWindow,
+        repository
+      );
+      if (
+        remoteSessionId &&
+        !window.confirm('別の端末で記録中です。この端末で記録を引き継ぎますか？')
+      ) {
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to check remote active session:', error);
+    }
+
+    // 記録状態をLocalStorageに保存
+    localStorage.setItem('footpath_was_tracking', 'true');
+    setError(null);
+
+    await engine.start();
+    const session = engine.getSession();
+    if (session) {
+      claimDevice(session.id);
+      setIsOtherDeviceTracking(false);
+    }
+  }, [userId, deviceId, resumeWindow, claimDevice, repository]);
+
+  // 記録を開始できなかった場合は、次回起動時に自動で再開しないようにする
+  const handleStartError = useCallback((startError: unknown) => {
+    console.error('Failed to start tracking:', startError);
+    localStorage.setItem('footpath_was_tracking', 'false');
+    setError(ERROR_MESSAGES.TRACKING.START_FAILED);
+  }, []);
+
+  const startTrackingManually = useCallback(() => {
+    startTracking().catch(handleStartError);
+  }, [startTracking, handleStartError]);
+
+  const stopTracking = useCallback(async () => {
+    // 記録停止状態をLocalStorageに保存
+    localStorage.setItem('footpath_was_tracking', 'false');
+
+    await engineRef.current?.stop();
+    deviceRepository
+      .release(userId, deviceId)
+      .catch((error) => console.error('Failed to release active device:', error));
+  }, [userId, deviceId, deviceRepository]);
+
+  // セッションを開いたまま記録を一時停止（再開時は新しい記録区間になる）
+  const pauseTracking = useCallback(async () => {
+    await engineRef.current?.pause();
+  }, []);
+
+  const resumeTracking = useCallback(() => {
+    engineRef.current?.resume();
+  }, []);
+
+  // エンジンの生成とイベント購読
+  useEffect(() => {
+    const engine = createTrackingEngine({
+      userId,
+      source,
+      sink: createFirestoreTrackingSink(userId, repository),
+      config: configRef.current,
+      deviceId,
+      getPriorAreas: () => priorAreasRef.current ?? [],
+    });
+    engineRef.current = engine;
+    setAccuracyMode(engine.getAccuracyMode());
+
+    const unsubscribe = engine.subscribe((event) => {
+      switch (event.type) {
+        case 'state':
+          setTrackingState(event.state);
+          break;
+        case 'fix':
+          // 位置情報取得処理のタイミングで時間を更新
+          setLastLocationUpdate(new Date());
+          break;
+        case 'position':
+          setCurrentPosition([event.lat, event.lng]);
+          break;
+        case 'point':
+          onPointRecordedRef.current?.(event.point, engine.getSession());
+          break;
+        case 'session':
+          setTrackingSession(event.session);
+          break;
+        case 'pendingCount':
+          setPendingCount(event.count);
+          break;
+        case 'accuracyMode':
+          setAccuracyMode(event.accuracyMode);
+          break;
+        case 'sync':
+          setSyncStatus(event.status);
+          break;
+        case 'error':
+          alert(
+            `位置情報のトラッキング中にエラーが発生しました:\n${describeGeolocationError(event.error)}`
+          );
+          break;
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      engine.dispose();
+      engineRef.current = null;
+    };
+  }, [userId, source, deviceId, repository]);
+
+  // バッテリー残量を測位精度の切り替えに反映（Battery Status API 対応ブラウザのみ）
+  useEffect(() => {
+    const getBattery = (navigator as NavigatorWithBattery).getBattery;
+    if (!getBattery) return;
+
+    let battery: BatteryManagerLike | null = null;
+    let cancelled = false;
+
+    const handleBatteryChange = () => {
+      if (!battery) return;
+      engineRef.current?.setBatteryState({ level: battery.level, charging: battery.charging });
+    };
+
+    getBattery
+      .call(navigator)
+      .then((manager) => {
+        if (cancelled) return;
+        battery = manager;
+        handleBatteryChange();
+        manager.addEventListener('levelchange', handleBatteryChange);
+        manager.addEventListener('chargingchange', handleBatteryChange);
+      })
+      .catch((error) => console.error('Failed to read battery status:', error));
+
+    return () => {
+      cancelled = true;
+      battery?.removeEventListener('levelchange', handleBatteryChange);
+      battery?.removeEventListener('chargingchange', handleBatteryChange);
+    };
+  }, [userId, source]);
+
+  // 初期位置の取得と初回アクセス時の自動記録開始
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    if (source.kind === 'gps' && !navigator.geolocation) {
+      alert('お使いのブラウザは位置情報をサポートしていません');
+      setCurrentPosition(FALLBACK_POSITION);
+      setLastLocationUpdate(new Date());
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    engine.acquireInitialPosition().then((fix) => {
+      if (!fix) {
+        setCurrentPosition(FALLBACK_POSITION);
+        setLastLocationUpdate(new Date());
+        return;
+      }
+
+      if (!localStorage.getItem('footpath_visited')) {
+        // 初回アクセス時は位置情報取得後に自動的に記録開始
+        localStorage.setItem('footpath_visited', 'true');
+        timer = setTimeout(() => {
+          startTracking().catch(handleStartError);
+        }, 1000);
+      }
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+    };
+  }, [userId, source, startTracking, handleStartError]);
+
+  // 起動時（記録担当タブになった時）の孤立セッションクリーンアップ
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine || !isLeader) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const cleanupOrphanedSessions = async () => {
+      // 前回から持ち越した未送信ポイントを再送
+      await engine.flush();
+
+      try {
+        const activeSessions = await repository.listActiveByUser(userId);
+        const now = Date.now();
+
+        // 最終記録時刻（ハートビート、旧データは開始時刻）が新しい順
+        const lastSeenOf = (session: TrackingSession) => getSessionLastSeen(session).getTime();
+        const isFresh = (session: TrackingSession) => now - lastSeenOf(session) <= resumeWindow;
+
+        // 他の端末で記録中のセッションには触れない
+        const isRemote = (session: TrackingSession) =>
+          session.deviceId !== undefined && session.deviceId !== deviceId;
+        const remoteTracking = activeSessions.some(
+          (session) => isRemote(session) && isFresh(session)
+        );
+        setIsOtherDeviceTracking(remoteTracking);
+
+        const localSessions = activeSessions
+          .filter((session) => !(isRemote(session) && isFresh(session)))
+          .sort((a, b) => lastSeenOf(b) - lastSeenOf(a));
+
+        // 継続できるのは継続可能時間内で最も新しいセッションのみ
+        const resumeSession = localSessions.find(isFresh);
+        const expired = localSessions.filter((session) => session !== resumeSession);
+
+        // それ以外のセッションは最後に記録したポイントの時刻で終了
+        await Promise.all(
+          expired.map(async (session) => {
+            const lastPoint = await repository.loadLastPoint(session);
+            const endTime = lastPoint?.timestamp ?? new Date(lastSeenOf(session));
+            const progress = getSessionProgress(session);
+            await repository.finalize(session.id, endTime, closeSessionProgress(progress, endTime));
+          })
+        );
+
+        if (resumeSession) {
+          // 継続可能時間内のセッションは自動継続
+          const points = await repository.loadPoints(resumeSession);
+          engine.resumeSession({ ...resumeSession, points });
+          claimDevice(resumeSession.id);
+        } else if (!remoteTracking) {
+          // アクティブセッションがない場合、前回記録中だったら新しいセッションを開始
+          const hasVisited = localStorage.getItem('footpath_visited');
+          const wasTracking = localStorage.getItem('footpath_was_tracking');
+
+          if (hasVisited && wasTracking === 'true' && engine.getState() === 'idle') {
+            timer = setTimeout(() => {
+              startTracking().catch(handleStartError);
+            }, 2000); // 2秒後に自動開始
+          }
+        }
+      } catch (error) {
+        console.error('Failed to cleanup orphaned sessions:', error);
+      }
+    };
+
+    cleanupOrphanedSessions();
+
+    return () => {
+      if (timer) clearTimeout(timer);
+    };
+  }, [
+    userId,
+    source,
+    deviceId,
+    isLeader,
+    resumeWindow,
+    startTracking,
+    handleStartError,
+    claimDevice,
+    repository,
+  ]);
+
+  // 他の端末に記録が引き継がれたら、この端末の記録を終了する
+  // 宣言した端末が異常終了した場合に備え、宣言したセッションが記録中の間だけ他の端末で記録中とみなす
+  useEffect(() => {
+    if (!isLeader) return;
+
+    let latestClaim: ActiveDeviceClaim | null = null;
+    let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const clearExpiryTimer = () => {
+      if (expiryTimer) clearTimeout(expiryTimer);
+      expiryTimer = null;
+    };
+
+    const checkRemoteClaim = async (claim: ActiveDeviceClaim) => {
+      let expiresAt: number | null;
+      try {
+        expiresAt = await getClaimExpiry(claim, resumeWindow, repository);
+      } catch (error) {
+        // 確認できない場合は宣言を信用する
+        console.error('Failed to check claimed session:', error);
+        expiresAt = Number.POSITIVE_INFINITY;
+      }
+      if (claim !== latestClaim) return;
+
+      if (expiresAt === null) {
+        setIsOtherDeviceTracking(false);
+        return;
+      }
+
+      setIsOtherDeviceTracking(true);
+      const engine = engineRef.current;
+      if (engine && engine.getState() !== 'idle' && engine.getState() !== 'finalizing') {
+        localStorage.setItem('footpath_was_tracking', 'false');
+        engine.stop().then(() => {
+          alert('別の端末で記録が引き継がれたため、この端末の記録を終了しました');
+        });
+      }
+
+      // 最終記録が更新されていなければ期限で記録中の表示を解除する
+      if (Number.isFinite(expiresAt)) {
+        expiryTimer = setTimeout(() => checkRemoteClaim(claim), expiresAt - Date.now());
+      }
+    };
+
+    const unsubscribe = deviceRepository.watch(
+      userId,
+      (claim) => {
+        latestClaim = claim;
+        clearExpiryTimer();
+
+        if (!claim || claim.deviceId === deviceId) {
+          if (claim) claimedAtRef.current = claim.claimedAt.getTime();
+          setIsOtherDeviceTracking(false);
+          return;
+        }
+        if (claim.claimedAt.getTime() < claimedAtRef.current) return;
+
+        checkRemoteClaim(claim);
+      },
+      (error) => console.error('Failed to watch active device:', error)
+    );
+
+    return () => {
+      latestClaim = null;
+      clearExpiryTimer();
+      unsubscribe();
+    };
+  }, [userId, deviceId, isLeader, resumeWindow, deviceRepository, repository]);
+
+  // visibility管理・オンライン復帰時の再送・ページ終了時のクリーンアップ
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      const engine = engineRef.current;
+      if (!engine) return;
+
+      if (document.visibilityState === 'visible') {
+        // フォアグラウンド復帰時、記録中なら位置情報監視を再開
+        console.log('App returned to foreground - resuming position watching');
+        engine.enterForeground();
+      } else if (document.visibilityState === 'hidden') {
+        // バックグラウンド時はリソース節約のため位置情報監視とタイマーを停止
+        console.log('App moved to background - pausing tracking resources');
+        engine.enterBackground();
+      }
+    };
+
+    const handleOnline = () => {
+      if (isLeaderRef.current) {
+        engineRef.current?.flush();
+      }
+    };
+
+    // ページ終了時はセッションを終了せず、送信できる分だけ送信して最終記録時刻を更新する
+    // （送信しきれなかったポイントはIndexedDBに残り、継続するかは次回起動時に最終記録時刻で判定）
+    const handleBeforeUnload = () => {
+      if (isLeaderRef.current) {
+        engineRef.current?.flush();
+      }
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  return {
+    // State
+    trackingState,
+    isTracking,
+    isPaused: trackingState === 'paused',
+    isStationary: trackingState === 'stationary',
+    trackingSession,
+    currentPosition,
+    pendingCount,
+    syncStatus,
+    lastLocationUpdate,
+    accuracyMode,
+    isReadOnly: !isLeader,
+    isOtherTabTracking,
+    isOtherDeviceTracking,
+    error, // 記録を開始できなかった理由（次の開始で解除）
+
+    // Actions
+    startTracking: startTrackingManually,
+    stopTracking,
+    pauseTracking,
+    resumeTracking,
+  };
+}
@@ -0,0 +1,162 @@
+import type {
+  DocumentData,
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+  SnapshotOptions,
+  WithFieldValue,
+} from 'firebase/firestore';
+import type {
+  EncodedPointChunk,
+  GeoPoint,
+  SessionPointChunk,
+  SessionSegment,
+  StayPoint,
+  TrackingSession,
+} from '../types/GeoPoint';
+import type { Photo } from '../types/Photo';
+import type { ActiveDeviceClaim } from '../types/Tracking';
+import { decodePointChunk, encodePointChunk, isEncodedPointChunk } from '../utils/pointCodec';
+
+// Firestoreのドキュメントとアプリのモデルの相互変換（withConverter で使用）
+// 読み込み時に Timestamp を全てDateに変換し、書き込み時に undefined のフィールドを除く
+
+// Firestore Timestamp / Date のどちらでもDateに変換
+export const toDate = (value: unknown): Date => {
+  if (value && typeof (value as { toDate?: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return value instanceof Date ? value : new Date(value as string | number);
+};
+
+// ポイントのtimestampをDate型に変換
+export function convertPointTimestamps(points: GeoPoint[] | undefined): GeoPoint[] {
+  return (points || []).map((point) => ({ ...point, timestamp: toDate(point.timestamp) }));
+}
+
+// 記録区間の開始・終了時刻をDate型に変換
+export function convertSegmentTimestamps(
+  segments: SessionSegment[] | undefined
+): SessionSegment[] | undefined {
+  return segments?.map((segment) => ({
+    startTime: toDate(segment.startTime),
+    ...(segment.endTime ? { endTime: toDate(segment.endTime) } : {}),
+  }));
+}
+
+// 滞在地点の開始・終了時刻をDate型に変換
+export function convertStayPointTimestamps(
+  stayPoints: StayPoint[] | undefined
+): StayPoint[] | undefined {
+  return stayPoints?.map(({ startTime, endTime, ...stay }) => ({
+    ...stay,
+    startTime: toDate(startTime),
+    ...(endTime ? { endTime: toDate(endTime) } : {}),
+  }));
+}
+
+// 指定したキーと undefined のフィールドを除いた書き込み用のデータ
+const toDocumentData = <T extends object>(model: T, omitKeys: string[]): DocumentData =>
+  Object.fromEntries(
+    Object.entries(model).filter(([key, value]) => value !== undefined && !omitKeys.includes(key))
+  );
+
+// 値がある場合のみDateに変換したフィールドを返す
+// （サーバー時刻の書き込みが未確定の間は null が返るため、その場合も省略する）
+const optionalDate = <K extends string>(key: K, value: unknown) =>
+  (value ? { [key]: toDate(value) } : {}) as Partial<Record<K, Date>>;
+
+// セッション（IDはドキュメントID、ポイントはチャンクに保存するため書き込まない）
+// 読み込み時の points は旧形式（インライン配列）のポイントのみ
+export const sessionConverter: FirestoreDataConverter<TrackingSession> = {
+  toFirestore(session: WithFieldValue<TrackingSession>): DocumentData {
+    return toDocumentData(session, ['id', 'points']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): TrackingSession {
+    const data = snapshot.data(options);
+    const segments = convertSegmentTimestamps(data.segments);
+    const stayPoints = convertStayPointTimestamps(data.stayPoints);
+    return {
+      ...toDocumentData(data, ['endTime', 'lastSeenAt', 'updatedAt', 'retention']),
+      id: snapshot.id,
+      points: convertPointTimestamps(data.points),
+      startTime: toDate(data.startTime),
+      ...optionalDate('endTime', data.endTime),
+      ...optionalDate('lastSeenAt', data.lastSeenAt),
+      ...optionalDate('updatedAt', data.updatedAt),
+      ...(segments ? { segments } : {}),
+      ...(stayPoints ? { stayPoints } : {}),
+      ...(data.retention
+        ? { retention: { ...data.retention, downsampledAt: toDate(data.retention.downsampledAt) } }
+        : {}),
+    } as TrackingSession;
+  },
+};
+
+// sessions/{id}/points/{seq} のチャンク（compact はエンコードした形式で保存するか）
+export interface PointChunk {
+  seq: number;
+  points: GeoPoint[];
+  compact: boolean;
+}
+
+// チャンクのポイントを読み込む（エンコードの有無はチャンク毎に判定する）
+export function readChunkPoints(chunk: SessionPointChunk | EncodedPointChunk): GeoPoint[] {
+  return isEncodedPointChunk(chunk)
+    ? decodePointChunk(chunk)
+    : convertPointTimestamps(chunk.points);
+}
+
+export const pointChunkConverter: FirestoreDataConverter<PointChunk> = {
+  toFirestore(chunk: WithFieldValue<PointChunk>): DocumentData {
+    const { seq, points, compact } = chunk as PointChunk;
+    const data: SessionPointChunk | EncodedPointChunk = compact
+      ? encodePointChunk(seq, points)
+      : { seq, points };
+    return data;
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): PointChunk {
+    const data = snapshot.data(options) as SessionPointChunk | EncodedPointChunk;
+    return { seq: data.seq, points: readChunkPoints(data), compact: isEncodedPointChunk(data) };
+  },
+};
+
+// 写真のメタデータ（セッション外で撮影した写真の sessionId は null で保存する）
+export const photoConverter: FirestoreDataConverter<Photo> = {
+  toFirestore(photo: WithFieldValue<Photo>): DocumentData {
+    return { ...toDocumentData(photo, ['id']), sessionId: photo.sessionId ?? null };
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Photo {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      userId: data.userId,
+      ...(data.sessionId ? { sessionId: data.sessionId } : {}),
+      location: data.location,
+      imageUrl: data.imageUrl,
+      thumbnailUrl: data.thumbnailUrl || data.imageUrl,
+      ...(data.caption !== undefined ? { caption: data.caption } : {}),
+      timestamp: data.timestamp ? toDate(data.timestamp) : new Date(),
+      tags: data.tags || [],
+      isPublic: data.isPublic || false,
+      ...(data.fileName !== undefined ? { fileName: data.fileName } : {}),
+      ...(data.fileSize !== undefined ? { fileSize: data.fileSize } : {}),
+      ...(data.thumbnailSize !== undefined ? { thumbnailSize: data.thumbnailSize } : {}),
+      ...optionalDate('createdAt', data.createdAt),
+    };
+  },
+};
+
+// 記録中の端末の宣言（activeDevices/{userId}、ドキュメントIDはユーザーID）
+export const activeDeviceConverter: FirestoreDataConverter<ActiveDeviceClaim> = {
+  toFirestore(claim: WithFieldValue<ActiveDeviceClaim>): DocumentData {
+    return toDocumentData(claim, []);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): ActiveDeviceClaim {
+    const data = snapshot.data(options);
+    return {
+      deviceId: data.deviceId,
+      sessionId: data.sessionId,
+      claimedAt: data.claimedAt ? toDate(data.claimedAt) : new Date(),
+    };
+  },
+};
@@ -0,0 +1,10 @@
+import { db } from '../firebase';
+import { createFirestoreActiveDeviceRepository } from './firestoreActiveDeviceRepository';
+import { createFirestorePhotoRepository } from './firestorePhotoRepository';
+import { createFirestoreSessionRepository } from './firestoreSessionRepository';
+
+// アプリで使うリポジトリ（フック・ユーティリティの既定の保存先）
+// テストでは repositories/inMemory* の実装を渡して差し替える
+export const sessionRepository = createFirestoreSessionRepository(db);
+export const photoRepository = createFirestorePhotoRepository(db);
+export const activeDeviceRepository = createFirestoreActiveDeviceRepository(db);
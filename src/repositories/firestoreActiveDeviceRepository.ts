@@ -0,0 +1,32 @@
+import { deleteDoc, doc, getDoc, onSnapshot, serverTimestamp, setDoc } from 'firebase/firestore';
+import type { Firestore } from 'firebase/firestore';
+import type { ActiveDeviceRepository } from '../types/Repository';
+import { FIRESTORE_COLLECTIONS } from '../constants/firestore';
+import { activeDeviceConverter } from './converters';
+
+// Firestoreに保存する記録中の端末の宣言のリポジトリ（activeDevices/{userId}）
+export function createFirestoreActiveDeviceRepository(
+  firestore: Firestore
+): ActiveDeviceRepository {
+  const claimRef = (userId: string) =>
+    doc(firestore, FIRESTORE_COLLECTIONS.ACTIVE_DEVICES, userId).withConverter(
+      activeDeviceConverter
+    );
+
+  return {
+    async claim(userId, claim) {
+      await setDoc(claimRef(userId), { ...claim, claimedAt: serverTimestamp() });
+    },
+
+    async release(userId, deviceId) {
+      const snapshot = await getDoc(claimRef(userId));
+      if (snapshot.data()?.deviceId === deviceId) {
+        await deleteDoc(claimRef(userId));
+      }
+    },
+
+    watch(userId, onChange, onError) {
+      return onSnapshot(claimRef(userId), (snapshot) => onChange(snapshot.data() ?? null), onError);
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import {
+  addDoc,
+  collection,
+  doc,
+  getDocs,
+  onSnapshot,
+  query,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import type { Firestore } from 'firebase/firestore';
+import type { Photo } from '../types/Photo';
+import type { PhotoRepository } from '../types/Repository';
+import { FIRESTORE_COLLECTIONS } from '../constants/firestore';
+import { photoConverter } from './converters';
+
+// Firestoreに保存する写真のメタデータのリポジトリ
+export function createFirestorePhotoRepository(firestore: Firestore): PhotoRepository {
+  const photosRef = collection(firestore, FIRESTORE_COLLECTIONS.PHOTOS).withConverter(
+    photoConverter
+  );
+
+  const userPhotosQuery = (userId: string) => query(photosRef, where('userId', '==', userId));
+
+  return {
+    async listByUser(userId) {
+      const snapshot = await getDocs(userPhotosQuery(userId));
+      return snapshot.docs.map((docSnapshot) => docSnapshot.data());
+    },
+
+    async add(photo) {
+      const docRef = await addDoc(photosRef, { ...photo, id: '' } as Photo);
+      return docRef.id;
+    },
+
+    async assignSession(photoId, sessionId) {
+      await updateDoc(doc(photosRef, photoId), { sessionId });
+    },
+
+    watchByUser(userId, onChange, onError) {
+      return onSnapshot(
+        userPhotosQuery(userId),
+        { includeMetadataChanges: true },
+        (snapshot) => {
+          onChange({
+            changes: snapshot.docChanges().map((change) => ({
+              type: change.type,
+              item: change.doc.data(),
+              hasPendingWrites: change.doc.metadata.hasPendingWrites,
+            })),
+            ids: snapshot.docs.map((docSnapshot) => docSnapshot.id),
+            fromCache: snapshot.metadata.fromCache,
+            hasPendingWrites: snapshot.metadata.hasPendingWrites,
+          });
+        },
+        onError
+      );
+    },
+  };
+}
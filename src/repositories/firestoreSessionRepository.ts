@@ -0,0 +1,383 @@
+import {
+  collection,
+  deleteField,
+  doc,
+  documentId,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  startAfter,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import type { Firestore, Query, WriteBatch } from 'firebase/firestore';
+import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
+import type { SessionRepository } from '../types/Repository';
+import { FIRESTORE_COLLECTIONS } from '../constants/firestore';
+import { TRACKING_CONFIG } from '../constants/tracking';
+import { toSessionProgressData } from '../utils/sessionSegments';
+import { convertPointTimestamps, pointChunkConverter, sessionConverter } from './converters';
+import {
+  areasUpdate,
+  filterUnsentPoints,
+  isChunked,
+  isCompact,
+  storesPoints,
+} from './sessionPointRules';
+
+// Firestoreに保存するセッションのリポジトリ
+// ポイントは sessions/{id}/points サブコレクションの固定長チャンクに保存する
+// 旧形式（sessions/{id}.points 配列）も読み込めるようにし、読み込み時に移行する
+// 履歴に影響する書き込みでは updatedAt を更新し、履歴の差分同期に使う（最終記録時刻のみの更新は除く）
+
+const CHUNK_SIZE = TRACKING_CONFIG.POINTS_CHUNK_SIZE;
+
+const chunkId = (seq: number) => String(seq).padStart(6, '0');
+
+// 履歴の差分同期用の更新時刻
+const touched = () => ({ updatedAt: serverTimestamp() });
+
+// ミリ秒の末尾の時刻（Dateで保持する同期済みの時刻はミリ秒未満を切り捨てているため、
+// 同じミリ秒内の更新は同期済みとみなす）
+const endOfMillisecond = (date: Date) => {
+  const millis = date.getTime();
+  const seconds = Math.floor(millis / 1000);
+  return new Timestamp(seconds, (millis - seconds * 1000) * 1e6 + 999999);
+};
+
+export function createFirestoreSessionRepository(firestore: Firestore): SessionRepository {
+  const sessionsRef = collection(firestore, FIRESTORE_COLLECTIONS.SESSIONS).withConverter(
+    sessionConverter
+  );
+
+  const sessionRef = (sessionId: string) => doc(sessionsRef, sessionId);
+
+  const chunkRef = (sessionId: string, seq: number) =>
+    doc(
+      firestore,
+      FIRESTORE_COLLECTIONS.SESSIONS,
+      sessionId,
+      FIRESTORE_COLLECTIONS.SESSION_POINTS,
+      chunkId(seq)
+    ).withConverter(pointChunkConverter);
+
+  const userSessionsQuery = (userId: string) => query(sessionsRef, where('userId', '==', userId));
+
+  const listSessions = async (sessionsQuery: Query<TrackingSession>) => {
+    const snapshot = await getDocs(sessionsQuery);
+    return snapshot.docs.map((docSnapshot) => docSnapshot.data());
+  };
+
+  // 既存ポイントの末尾チャンクに新しいポイントを追加する書き込みをバッチに積む
+  const writeChunks = (
+    batch: WriteBatch,
+    sessionId: string,
+    tailPoints: GeoPoint[],
+    tailSeq: number,
+    newPoints: GeoPoint[],
+    compact = false
+  ) => {
+    const merged = [...tailPoints, ...newPoints];
+    let seq = tailSeq;
+    for (let offset = 0; offset < merged.length; offset += CHUNK_SIZE) {
+      const points = merged.slice(offset, offset + CHUNK_SIZE);
+      batch.set(chunkRef(sessionId, seq), { seq, points, compact });
+      seq++;
+    }
+    return seq; // 書き込み後のチャンク数
+  };
+
+  // 末尾チャンクのポイント
+  const loadTailChunk = async (sessionId: string, seq: number) => {
+    const tailSnapshot = await getDoc(chunkRef(sessionId, seq));
+    return tailSnapshot.data()?.points ?? [];
+  };
+
+  // 旧形式のポイント配列をチャンク形式へ移行
+  const migratePoints = async (sessionId: string, points: GeoPoint[]) => {
+    const batch = writeBatch(firestore);
+    const chunkCount = writeChunks(batch, sessionId, [], 0, points);
+    batch.update(sessionRef(sessionId), {
+      points: deleteField(),
+      pointsFormat: 'chunked',
+      pointCount: points.length,
+      chunkCount,
+    });
+    await batch.commit();
+    console.log('Migrated session points to chunks:', sessionId, points.length);
+  };
+
+  return {
+    // チャンク形式の新規セッションを作成
+    async create(session) {
+      const docRef = doc(sessionsRef);
+      await setDoc(docRef, {
+        ...session,
+        id: docRef.id,
+        points: [],
+        pointsFormat: 'chunked',
+        pointCount: 0,
+        chunkCount: 0,
+        ...touched(),
+      });
+      return docRef.id;
+    },
+
+    async get(sessionId) {
+      const snapshot = await getDoc(sessionRef(sessionId));
+      return snapshot.data() ?? null;
+    },
+
+    listByUser(userId) {
+      return listSessions(userSessionsQuery(userId));
+    },
+
+    listActiveByUser(userId) {
+      return listSessions(query(userSessionsQuery(userId), where('isActive', '==', true)));
+    },
+
+    // 開始時刻の新しい順（同時刻はIDの降順）
+    async listPage(userId, cursor, pageSize) {
+      const sessions = await listSessions(
+        query(
+          userSessionsQuery(userId),
+          orderBy('startTime', 'desc'),
+          orderBy(documentId(), 'desc'),
+          ...(cursor ? [startAfter(cursor.startTime, cursor.id)] : []),
+          limit(pageSize)
+        )
+      );
+      const last = sessions[sessions.length - 1];
+      return {
+        sessions,
+        nextCursor: sessions.length < pageSize ? null : { startTime: last.startTime, id: last.id },
+      };
+    },
+
+    // updatedAt のない旧データは含まれない
+    listUpdatedSince(userId, since) {
+      return listSessions(
+        query(
+          userSessionsQuery(userId),
+          where('updatedAt', '>', since ? endOfMillisecond(since) : Timestamp.fromMillis(0)),
+          orderBy('updatedAt')
+        )
+      );
+    },
+
+    async getLatestUpdatedAt(userId) {
+      const [latest] = await listSessions(
+        query(userSessionsQuery(userId), orderBy('updatedAt', 'desc'), limit(1))
+      );
+      return latest?.updatedAt ?? null;
+    },
+
+    watchByUser(userId, onChange, onError) {
+      return onSnapshot(
+        userSessionsQuery(userId),
+        { includeMetadataChanges: true },
+        (snapshot) => {
+          onChange({
+            changes: snapshot.docChanges().map((change) => ({
+              type: change.type,
+              item: change.doc.data(),
+              hasPendingWrites: change.doc.metadata.hasPendingWrites,
+            })),
+            ids: snapshot.docs.map((docSnapshot) => docSnapshot.id),
+            fromCache: snapshot.metadata.fromCache,
+            hasPendingWrites: snapshot.metadata.hasPendingWrites,
+          });
+        },
+        onError
+      );
+    },
+
+    // 記録区間・滞在地点の変更を保存
+    async updateProgress(sessionId, progress) {
+      await updateDoc(sessionRef(sessionId), {
+        ...toSessionProgressData(progress),
+        ...touched(),
+      });
+    },
+
+    // セッションの最終記録時刻を更新
+    async touch(sessionId, lastSeenAt) {
+      await updateDoc(sessionRef(sessionId), { lastSeenAt });
+    },
+
+    async finalize(sessionId, endTime, progress, metrics) {
+      await updateDoc(sessionRef(sessionId), {
+        endTime,
+        isActive: false,
+        ...toSessionProgressData(progress),
+        ...(metrics ? { metrics } : {}),
+        ...touched(),
+      });
+    },
+
+    // セッションのポイントを読み込む（旧形式の場合は保存形式を移行する）
+    async loadPoints(session) {
+      if (isChunked(session)) {
+        const chunksQuery = query(
+          collection(
+            firestore,
+            FIRESTORE_COLLECTIONS.SESSIONS,
+            session.id,
+            FIRESTORE_COLLECTIONS.SESSION_POINTS
+          ).withConverter(pointChunkConverter),
+          orderBy('seq')
+        );
+        const snapshot = await getDocs(chunksQuery);
+        return snapshot.docs.flatMap((chunkDoc) => chunkDoc.data().points);
+      }
+
+      const points = convertPointTimestamps(session.points);
+
+      // 記録中のセッションは次回の追加時に移行されるので、終了済みのみここで移行
+      if (!session.isActive && points.length > 0) {
+        try {
+          await migratePoints(session.id, points);
+        } catch (error) {
+          console.error('Failed to migrate session points:', error);
+        }
+      }
+
+      return points;
+    },
+
+    // セッションの最後のポイント（末尾チャンクのみ読み込む）
+    async loadLastPoint(session) {
+      let points: GeoPoint[];
+      if (isChunked(session)) {
+        const chunkCount = session.chunkCount || 0;
+        if (chunkCount === 0) return null;
+        points = await loadTailChunk(session.id, chunkCount - 1);
+      } else {
+        points = convertPointTimestamps(session.points);
+      }
+      return points[points.length - 1] ?? null;
+    },
+
+    // セッションにポイントを追加（送信済みのポイントは除外する）
+    async appendPoints(sessionId, newPoints, lastSeenAt) {
+      if (newPoints.length === 0) return;
+
+      const snapshot = await getDoc(sessionRef(sessionId));
+      const session = snapshot.data();
+
+      // セッションが削除済みの場合は送信先がないので破棄
+      if (!session) {
+        console.warn('Session not found, dropping points:', sessionId, newPoints.length);
+        return;
+      }
+
+      const metadata = lastSeenAt ? { lastSeenAt } : {};
+
+      // 探索エリアのみ保存するセッションはポイントを書き込まない
+      // （エリアは近接するものを統合するため、送信済みのポイントを再送しても増えない）
+      if (!storesPoints(session)) {
+        await updateDoc(sessionRef(sessionId), {
+          ...areasUpdate(session, newPoints),
+          ...touched(),
+          ...metadata,
+        });
+        return;
+      }
+
+      let tailPoints: GeoPoint[];
+      let tailSeq: number;
+      let storedCount: number;
+
+      if (isChunked(session)) {
+        storedCount = session.pointCount || 0;
+        const chunkCount = session.chunkCount || 0;
+        tailSeq = Math.max(chunkCount - 1, 0);
+        tailPoints = chunkCount > 0 ? await loadTailChunk(sessionId, tailSeq) : [];
+      } else {
+        // 旧形式のセッションは追加と同時にチャンク形式へ移行
+        tailPoints = session.points;
+        tailSeq = 0;
+        storedCount = tailPoints.length;
+      }
+
+      const compact = isChunked(session) && isCompact(session);
+      const pointsToAppend = filterUnsentPoints(newPoints, tailPoints[tailPoints.length - 1]);
+
+      if (pointsToAppend.length === 0) {
+        if (lastSeenAt) {
+          await updateDoc(sessionRef(sessionId), metadata);
+        }
+        return;
+      }
+
+      // 末尾チャンクが満杯なら書き換えずに次のチャンクから書き込む
+      if (isChunked(session) && tailPoints.length >= CHUNK_SIZE) {
+        tailPoints = [];
+        tailSeq++;
+      }
+
+      const batch = writeBatch(firestore);
+      const chunkCount = writeChunks(
+        batch,
+        sessionId,
+        tailPoints,
+        tailSeq,
+        pointsToAppend,
+        compact
+      );
+      batch.update(sessionRef(sessionId), {
+        ...(isChunked(session) ? {} : { points: deleteField() }),
+        pointsFormat: 'chunked',
+        pointCount: storedCount + pointsToAppend.length,
+        chunkCount,
+        ...areasUpdate(session, pointsToAppend),
+        ...touched(),
+        ...metadata,
+      });
+      await batch.commit();
+    },
+
+    // セッションのポイントを全て置き換える（保存期間を過ぎたポイントの間引き・編集に使用）
+    // 不要になった末尾のチャンクは同じバッチで削除する
+    // （旧形式のセッションは読み込み時に移行したチャンクが残っている可能性がある）
+    async replacePoints(session, points, replacement = {}) {
+      const previousChunkCount = isChunked(session)
+        ? session.chunkCount || 0
+        : Math.ceil(session.points.length / CHUNK_SIZE);
+      const batch = writeBatch(firestore);
+      const chunkCount = writeChunks(batch, session.id, [], 0, points, isCompact(session));
+      for (let seq = chunkCount; seq < previousChunkCount; seq++) {
+        batch.delete(chunkRef(session.id, seq));
+      }
+      batch.update(sessionRef(session.id), {
+        ...(isChunked(session) ? {} : { points: deleteField() }),
+        pointsFormat: 'chunked',
+        pointCount: points.length,
+        chunkCount,
+        ...touched(),
+        ...replacement,
+      });
+      await batch.commit();
+    },
+
+    // ポイントのチャンクとセッションを同じバッチで削除する
+    async delete(session) {
+      const chunkCount = isChunked(session)
+        ? session.chunkCount || 0
+        : Math.ceil(session.points.length / CHUNK_SIZE);
+      const batch = writeBatch(firestore);
+      for (let seq = 0; seq < chunkCount; seq++) {
+        batch.delete(chunkRef(session.id, seq));
+      }
+      batch.delete(sessionRef(session.id));
+      await batch.commit();
+    },
+  };
+}
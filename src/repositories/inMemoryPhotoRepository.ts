@@ -0,0 +1,71 @@
+import type { Photo } from '../types/Photo';
+import type { PhotoRepository, RepositorySnapshot } from '../types/Repository';
+
+// メモリ上に保存する写真のメタデータのリポジトリ（テスト・オフラインでの動作確認用）
+
+type PhotoListener = (snapshot: RepositorySnapshot<Photo>) => void;
+
+export function createInMemoryPhotoRepository(initialPhotos: Photo[] = []): PhotoRepository {
+  const store = new Map(initialPhotos.map((photo) => [photo.id, structuredClone(photo)]));
+  const listeners = new Map<PhotoListener, string>();
+  let nextId = 1;
+
+  const userPhotos = (userId: string) =>
+    [...store.values()]
+      .filter((photo) => photo.userId === userId)
+      .map((photo) => structuredClone(photo));
+
+  const notify = (type: 'added' | 'modified', photo: Photo) => {
+    listeners.forEach((userId, listener) => {
+      if (userId !== photo.userId) return;
+      listener({
+        changes: [{ type, item: structuredClone(photo), hasPendingWrites: false }],
+        ids: userPhotos(userId).map(({ id }) => id),
+        fromCache: false,
+        hasPendingWrites: false,
+      });
+    });
+  };
+
+  return {
+    async listByUser(userId) {
+      return userPhotos(userId);
+    },
+
+    async add(photo) {
+      const id = `photo-${nextId++}`;
+      const added: Photo = { ...structuredClone(photo), id };
+      store.set(id, added);
+      notify('added', added);
+      return id;
+    },
+
+    async assignSession(photoId, sessionId) {
+      const photo = store.get(photoId);
+      if (!photo) throw new Error(`Photo not found: ${photoId}`);
+      const updated: Photo = { ...photo };
+      if (sessionId) {
+        updated.sessionId = sessionId;
+      } else {
+        delete updated.sessionId;
+      }
+      store.set(photoId, updated);
+      notify('modified', updated);
+    },
+
+    // 監視開始時に現在の写真を全て追加として通知する
+    watchByUser(userId, onChange) {
+      listeners.set(onChange, userId);
+      const photos = userPhotos(userId);
+      onChange({
+        changes: photos.map((photo) => ({ type: 'added', item: photo, hasPendingWrites: false })),
+        ids: photos.map(({ id }) => id),
+        fromCache: false,
+        hasPendingWrites: false,
+      });
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+}
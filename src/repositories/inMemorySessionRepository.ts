@@ -0,0 +1,265 @@
+import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
+import type {
+  RepositoryChange,
+  RepositorySnapshot,
+  SessionPageCursor,
+  SessionRepository,
+} from '../types/Repository';
+import { TRACKING_CONFIG } from '../constants/tracking';
+import { toSessionProgressData } from '../utils/sessionSegments';
+import { decodePointChunk, encodePointChunk } from '../utils/pointCodec';
+import {
+  areasUpdate,
+  filterUnsentPoints,
+  isChunked,
+  isCompact,
+  storesPoints,
+} from './sessionPointRules';
+
+// メモリ上に保存するセッションのリポジトリ（テスト・オフラインでの動作確認用）
+// 送信済みポイントの除外・探索エリアの保存・compactの丸めは Firestore の実装と同じ規則で行う
+// 保存・取得の度に複製し、呼び出し側の変更が保存内容に影響しないようにする
+
+type SessionListener = (snapshot: RepositorySnapshot<TrackingSession>) => void;
+
+interface StoredSession {
+  session: TrackingSession; // points は空（ポイントは points に保存する）
+  points: GeoPoint[];
+}
+
+// Firestore で存在しないドキュメントを更新した時と同じエラーコードのエラー
+const notFound = (sessionId: string) =>
+  Object.assign(new Error(`Session not found: ${sessionId}`), { code: 'not-found' });
+
+const byStartTimeDesc = (a: SessionPageCursor, b: SessionPageCursor) =>
+  b.startTime.getTime() - a.startTime.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+// compactのセッションは保存時の精度に丸める
+const roundTrip = (points: GeoPoint[], compact: boolean) =>
+  compact ? decodePointChunk(encodePointChunk(0, points)) : points;
+
+export function createInMemorySessionRepository(
+  initialSessions: TrackingSession[] = []
+): SessionRepository {
+  const store = new Map<string, StoredSession>();
+  const listeners = new Map<SessionListener, string>();
+  let nextId = 1;
+  // updatedAt が同じ時刻にならないよう単調増加させる
+  let lastUpdatedAt = 0;
+
+  const nextUpdatedAt = () => {
+    lastUpdatedAt = Math.max(Date.now(), lastUpdatedAt + 1);
+    return new Date(lastUpdatedAt);
+  };
+
+  const read = (stored: StoredSession): TrackingSession => structuredClone(stored.session);
+
+  const userSessions = (userId: string) =>
+    [...store.values()].map(read).filter((session) => session.userId === userId);
+
+  const notify = (userId: string, change: RepositoryChange<TrackingSession>) => {
+    listeners.forEach((listenerUserId, listener) => {
+      if (listenerUserId !== userId) return;
+      listener({
+        changes: [structuredClone(change)],
+        ids: userSessions(userId).map(({ id }) => id),
+        fromCache: false,
+        hasPendingWrites: false,
+      });
+    });
+  };
+
+  // セッションを更新して監視中のリスナーに通知
+  // touch: 履歴に影響する更新か（updatedAt を更新する）
+  const update = (sessionId: string, changes: Partial<TrackingSession>, touch = true) => {
+    const stored = store.get(sessionId);
+    if (!stored) throw notFound(sessionId);
+    stored.session = structuredClone({
+      ...stored.session,
+      ...changes,
+      ...(touch ? { updatedAt: nextUpdatedAt() } : {}),
+    });
+    notify(stored.session.userId, {
+      type: 'modified',
+      item: read(stored),
+      hasPendingWrites: false,
+    });
+  };
+
+  const writePoints = (sessionId: string, points: GeoPoint[]) => {
+    const stored = store.get(sessionId);
+    if (stored) stored.points = structuredClone(points);
+  };
+
+  initialSessions.forEach((session) => {
+    store.set(session.id, {
+      session: structuredClone({ ...session, points: [] }),
+      points: structuredClone(session.points),
+    });
+  });
+
+  return {
+    async create(session) {
+      const id = `session-${nextId++}`;
+      const created: TrackingSession = {
+        ...structuredClone(session),
+        id,
+        points: [],
+        pointsFormat: 'chunked',
+        pointCount: 0,
+        chunkCount: 0,
+        updatedAt: nextUpdatedAt(),
+      };
+      store.set(id, { session: created, points: [] });
+      notify(created.userId, {
+        type: 'added',
+        item: structuredClone(created),
+        hasPendingWrites: false,
+      });
+      return id;
+    },
+
+    async get(sessionId) {
+      const stored = store.get(sessionId);
+      return stored ? read(stored) : null;
+    },
+
+    async listByUser(userId) {
+      return userSessions(userId);
+    },
+
+    async listActiveByUser(userId) {
+      return userSessions(userId).filter((session) => session.isActive);
+    },
+
+    async listPage(userId, cursor, pageSize) {
+      const sessions = userSessions(userId)
+        .sort(byStartTimeDesc)
+        .filter((session) => !cursor || byStartTimeDesc(session, cursor) > 0)
+        .slice(0, pageSize);
+      const last = sessions[sessions.length - 1];
+      return {
+        sessions,
+        nextCursor: sessions.length < pageSize ? null : { startTime: last.startTime, id: last.id },
+      };
+    },
+
+    async listUpdatedSince(userId, since) {
+      return userSessions(userId)
+        .filter(
+          (session) =>
+            session.updatedAt !== undefined &&
+            session.updatedAt.getTime() > (since?.getTime() ?? -Infinity)
+        )
+        .sort((a, b) => (a.updatedAt?.getTime() ?? 0) - (b.updatedAt?.getTime() ?? 0));
+    },
+
+    async getLatestUpdatedAt(userId) {
+      return userSessions(userId).reduce<Date | null>(
+        (latest, { updatedAt }) =>
+          updatedAt && (!latest || updatedAt > latest) ? updatedAt : latest,
+        null
+      );
+    },
+
+    // 監視開始時に現在のセッションを全て追加として通知する
+    watchByUser(userId, onChange) {
+      listeners.set(onChange, userId);
+      const sessions = userSessions(userId);
+      onChange({
+        changes: sessions.map((session) => ({
+          type: 'added',
+          item: session,
+          hasPendingWrites: false,
+        })),
+        ids: sessions.map(({ id }) => id),
+        fromCache: false,
+        hasPendingWrites: false,
+      });
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+
+    async updateProgress(sessionId, progress) {
+      update(sessionId, toSessionProgressData(progress));
+    },
+
+    async touch(sessionId, lastSeenAt) {
+      update(sessionId, { lastSeenAt }, false);
+    },
+
+    async finalize(sessionId, endTime, progress, metrics) {
+      update(sessionId, {
+        endTime,
+        isActive: false,
+        ...toSessionProgressData(progress),
+        ...(metrics ? { metrics } : {}),
+      });
+    },
+
+    async loadPoints(session) {
+      const stored = store.get(session.id);
+      return stored ? structuredClone(stored.points) : [];
+    },
+
+    async loadLastPoint(session) {
+      const points = store.get(session.id)?.points ?? [];
+      return points.length > 0 ? structuredClone(points[points.length - 1]) : null;
+    },
+
+    async appendPoints(sessionId, newPoints, lastSeenAt) {
+      if (newPoints.length === 0) return;
+
+      const stored = store.get(sessionId);
+      if (!stored) throw notFound(sessionId);
+
+      const { session, points } = stored;
+      const metadata = lastSeenAt ? { lastSeenAt } : {};
+
+      if (!storesPoints(session)) {
+        update(sessionId, { ...areasUpdate(session, newPoints), ...metadata });
+        return;
+      }
+
+      const compact = isChunked(session) && isCompact(session);
+      const pointsToAppend = filterUnsentPoints(newPoints, points[points.length - 1]);
+      if (pointsToAppend.length === 0) {
+        if (lastSeenAt) update(sessionId, metadata, false);
+        return;
+      }
+
+      const merged = [...points, ...roundTrip(pointsToAppend, compact)];
+      writePoints(sessionId, merged);
+      update(sessionId, {
+        pointsFormat: 'chunked',
+        pointCount: merged.length,
+        chunkCount: Math.ceil(merged.length / TRACKING_CONFIG.POINTS_CHUNK_SIZE),
+        ...areasUpdate(session, pointsToAppend),
+        ...metadata,
+      });
+    },
+
+    async replacePoints(session, points, replacement = {}) {
+      const replaced = roundTrip(points, isCompact(session));
+      writePoints(session.id, replaced);
+      update(session.id, {
+        pointsFormat: 'chunked',
+        pointCount: replaced.length,
+        chunkCount: Math.ceil(replaced.length / TRACKING_CONFIG.POINTS_CHUNK_SIZE),
+        ...replacement,
+      });
+    },
+
+    async delete(session) {
+      const stored = store.get(session.id);
+      if (!stored) return;
+      store.delete(session.id);
+      notify(stored.session.userId, {
+        type: 'removed',
+        item: read(stored),
+        hasPendingWrites: false,
+      });
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import type { GeoPoint } from '../types/GeoPoint';
+import { filterUnsentPoints } from './sessionPointRules';
+
+const point = (ms: number): GeoPoint => ({
+  lat: 35.68,
+  lng: 139.76,
+  timestamp: new Date(Date.UTC(2025, 5, 1, 9) + ms),
+});
+
+describe('filterUnsentPoints', () => {
+  it('keeps every point when nothing is stored yet', () => {
+    const points = [point(0), point(1000)];
+    expect(filterUnsentPoints(points, undefined)).toEqual(points);
+  });
+
+  it('drops stored points but keeps a later fix within the same second', () => {
+    const points = [point(0), point(400), point(900), point(1600)];
+    expect(filterUnsentPoints(points, point(400))).toEqual([point(900), point(1600)]);
+  });
+});
@@ -0,0 +1,36 @@
+import type { GeoPoint, SessionArea, TrackingSession } from '../types/GeoPoint';
+import { extendSessionAreas } from '../utils/explorationUtils';
+import { toDate } from './converters';
+
+// セッションのポイント保存の規則（Firestore とメモリ上の実装で共通）
+// storageMode: 'compact' のセッションはポイントをエンコードして保存する
+// storageMode: 'full' / 'areas_only' のセッションは探索エリアをセッションに保存する（areas_onlyはポイントを保存しない）
+
+export const isChunked = (session: TrackingSession) => session.pointsFormat === 'chunked';
+
+export const isCompact = (session: TrackingSession) => session.storageMode === 'compact';
+
+export const storesPoints = (session: TrackingSession) => session.storageMode !== 'areas_only';
+
+const storesAreas = (session: TrackingSession) =>
+  session.storageMode === 'full' || session.storageMode === 'areas_only';
+
+// 保存済みの探索エリアに新しいポイントのエリアを追加した更新内容
+export const areasUpdate = (
+  session: TrackingSession,
+  points: GeoPoint[]
+): { areas?: SessionArea[] } =>
+  storesAreas(session)
+    ? { areas: extendSessionAreas(session.areas ?? [], points, session.explorationRadius) }
+    : {};
+
+// 最後の保存済みポイントより後のポイント（ポイントは時系列順に保存されるため、それ以前は送信済み）
+export function filterUnsentPoints(
+  points: GeoPoint[],
+  lastStored: GeoPoint | undefined
+): GeoPoint[] {
+  if (!lastStored) return points;
+  return points.filter(
+    (point) => toDate(point.timestamp).getTime() > lastStored.timestamp.getTime()
+  );
+}
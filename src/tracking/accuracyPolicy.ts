@@ -0,0 +1,118 @@
+import type {
+  AccuracyMode,
+  AccuracyModeState,
+  AccuracyPolicyConfig,
+  BatteryState,
+  PositionFix,
+} from '../types/Tracking';
+import { ADAPTIVE_ACCURACY_CONFIG, TRACKING_CONFIG } from '../constants/tracking';
+import { calculateDistance } from '../utils/explorationUtils';
+
+// 移動速度・静止状態・測位誤差・バッテリー残量から測位精度のモードを選ぶポリシー
+
+export const DEFAULT_ACCURACY_POLICY: AccuracyPolicyConfig = {
+  enabled: ADAPTIVE_ACCURACY_CONFIG.ENABLED,
+  fastSpeedKmh: ADAPTIVE_ACCURACY_CONFIG.FAST_SPEED_KMH,
+  poorAccuracy: ADAPTIVE_ACCURACY_CONFIG.POOR_ACCURACY,
+  stationaryRadius: ADAPTIVE_ACCURACY_CONFIG.STATIONARY_RADIUS,
+  stationaryDuration: ADAPTIVE_ACCURACY_CONFIG.STATIONARY_DURATION,
+  lowBatteryLevel: ADAPTIVE_ACCURACY_CONFIG.LOW_BATTERY_LEVEL,
+  minSwitchInterval: ADAPTIVE_ACCURACY_CONFIG.MIN_SWITCH_INTERVAL,
+};
+
+export const ACCURACY_MODE_OPTIONS: Record<AccuracyMode, PositionOptions> = {
+  high: TRACKING_CONFIG.GEOLOCATION_OPTIONS.HIGH_ACCURACY,
+  saving: TRACKING_CONFIG.GEOLOCATION_OPTIONS.BATTERY_SAVING,
+};
+
+interface EvaluateInput {
+  config: AccuracyPolicyConfig;
+  baseMode: AccuracyMode; // プロファイルの既定モード
+  current: AccuracyModeState;
+  battery: BatteryState | null;
+  now: number;
+}
+
+export interface AccuracyPolicy {
+  observe(fix: PositionFix, config: AccuracyPolicyConfig): void;
+  evaluate(input: EvaluateInput): AccuracyModeState;
+  reset(): void;
+}
+
+export function createAccuracyPolicy(): AccuracyPolicy {
+  let recentFixes: PositionFix[] = [];
+  let lastSwitchAt = 0;
+
+  // 直近の測位から判断する（静止判定に必要な期間だけ保持）
+  const decide = (
+    config: AccuracyPolicyConfig,
+    baseMode: AccuracyMode,
+    battery: BatteryState | null
+  ): AccuracyModeState => {
+    if (battery && !battery.charging && battery.level < config.lowBatteryLevel) {
+      return { mode: 'saving', reason: 'battery_low' };
+    }
+
+    const first = recentFixes[0];
+    const last = recentFixes[recentFixes.length - 1];
+    if (!first || !last) {
+      return { mode: baseMode, reason: 'profile' };
+    }
+
+    // 静止判定に必要な期間の測位が揃っていて、その間ずっと近くに留まっている
+    const windowStart = last.timestamp - config.stationaryDuration;
+    const covered = first.timestamp <= windowStart;
+    const stayedNearby = recentFixes
+      .filter((fix) => fix.timestamp >= windowStart)
+      .every(
+        (fix) => calculateDistance(last.lat, last.lng, fix.lat, fix.lng) <= config.stationaryRadius
+      );
+    if (covered && stayedNearby) {
+      return { mode: 'saving', reason: 'stationary' };
+    }
+
+    if (last.accuracy > config.poorAccuracy) {
+      return { mode: 'high', reason: 'poor_accuracy' };
+    }
+
+    // 直前の測位との間の速度
+    const previous = recentFixes[recentFixes.length - 2];
+    if (previous && last.timestamp > previous.timestamp) {
+      const distance = calculateDistance(previous.lat, previous.lng, last.lat, last.lng);
+      const speedKmh = (distance / ((last.timestamp - previous.timestamp) / 1000)) * 3.6;
+      if (speedKmh > config.fastSpeedKmh) {
+        return { mode: 'high', reason: 'moving_fast' };
+      }
+    }
+
+    return { mode: baseMode, reason: 'profile' };
+  };
+
+  return {
+    observe(fix, config) {
+      recentFixes.push(fix);
+      const windowStart = fix.timestamp - config.stationaryDuration * 2;
+      recentFixes = recentFixes.filter((item) => item.timestamp >= windowStart);
+    },
+
+    evaluate({ config, baseMode, current, battery, now }) {
+      const next = decide(config, baseMode, battery);
+      if (next.mode === current.mode) {
+        return next.reason === current.reason ? current : { ...current, reason: next.reason };
+      }
+
+      // 頻繁な監視の張り直しを避ける（バッテリー低下は即時）
+      if (next.reason !== 'battery_low' && now - lastSwitchAt < config.minSwitchInterval) {
+        return current;
+      }
+
+      lastSwitchAt = now;
+      return next;
+    },
+
+    reset() {
+      recentFixes = [];
+      lastSwitchAt = 0;
+    },
+  };
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
+import type { SessionRepository } from '../types/Repository';
+import { createInMemorySessionRepository } from '../repositories/inMemorySessionRepository';
+import { createMemoryStorage } from '../test/memoryStorage';
+import { addPendingFinalization, getPendingFinalizations } from '../utils/pendingFinalizations';
+import { createFirestoreTrackingSink } from './firestoreSink';
+
+// 既定のリポジトリ（Firebaseの初期化）は読み込まない
+vi.mock('../repositories/defaultRepositories', () => ({ sessionRepository: {} }));
+vi.stubGlobal('localStorage', createMemoryStorage());
+
+const point = (seconds: number): GeoPoint => ({
+  lat: 35.68 + seconds * 1e-5,
+  lng: 139.76,
+  timestamp: new Date(Date.UTC(2025, 5, 1, 9, 0, seconds)),
+});
+
+const createSession = (repository: SessionRepository, userId: string) =>
+  repository.create({
+    userId,
+    startTime: new Date(Date.UTC(2025, 5, 1, 9)),
+    isActive: true,
+    storageMode: 'incremental',
+  });
+
+const loadSessionPoints = async (repository: SessionRepository, sessionId: string) =>
+  repository.loadPoints((await repository.get(sessionId)) as TrackingSession);
+
+// IndexedDB のない環境ではメモリ上のキューを使う（テスト間で共有されるため、テスト毎に別のユーザーにする）
+describe('createFirestoreTrackingSink', () => {
+  it('uploads and counts only the signed-in user’s queued points', async () => {
+    const repository = createInMemorySessionRepository();
+    const sessionA = await createSession(repository, 'user-a');
+    const sessionB = await createSession(repository, 'user-b');
+    const sinkA = createFirestoreTrackingSink('user-a', repository);
+    const sinkB = createFirestoreTrackingSink('user-b', repository);
+
+    await sinkA.enqueuePoint(sessionA, point(0));
+    await sinkB.enqueuePoint(sessionB, point(1));
+    await sinkB.enqueuePoint(sessionB, point(2));
+    expect(await sinkA.getPendingCount()).toBe(1);
+    expect(await sinkB.getPendingCount()).toBe(2);
+
+    await sinkB.flush();
+    expect(await sinkB.getPendingCount()).toBe(0);
+    expect(await sinkA.getPendingCount()).toBe(1);
+    expect(await loadSessionPoints(repository, sessionA)).toEqual([]);
+    expect(await loadSessionPoints(repository, sessionB)).toHaveLength(2);
+  });
+
+  it('drops points of a deleted session without blocking the rest of the queue', async () => {
+    const repository = createInMemorySessionRepository();
+    const deleted = await createSession(repository, 'user-c');
+    const kept = await createSession(repository, 'user-c');
+    const sink = createFirestoreTrackingSink('user-c', repository);
+
+    await sink.enqueuePoint(deleted, point(0));
+    await sink.enqueuePoint(kept, point(1));
+    await repository.delete((await repository.get(deleted)) as TrackingSession);
+
+    await expect(sink.flush()).resolves.toBeUndefined();
+    expect(await sink.getPendingCount()).toBe(0);
+    expect(await loadSessionPoints(repository, kept)).toHaveLength(1);
+  });
+
+  it('keeps queued points and rejects when the failure may be temporary', async () => {
+    const repository = createInMemorySessionRepository();
+    const sessionId = await createSession(repository, 'user-d');
+    const unavailable = Object.assign(new Error('offline'), { code: 'unavailable' });
+    const sink = createFirestoreTrackingSink('user-d', {
+      ...repository,
+      appendPoints: () => Promise.reject(unavailable),
+    });
+
+    await sink.enqueuePoint(sessionId, point(0));
+    await expect(sink.flush()).rejects.toBe(unavailable);
+    expect(await sink.getPendingCount()).toBe(1);
+  });
+
+  it('applies only the signed-in user’s pending finalizations', async () => {
+    const repository = createInMemorySessionRepository();
+    const sessionId = await createSession(repository, 'user-e');
+    const progress = { segments: [], stayPoints: [] };
+    addPendingFinalization('user-e', { sessionId, endTime: point(5).timestamp, progress });
+
+    await createFirestoreTrackingSink('user-f', repository).flush();
+    expect((await repository.get(sessionId))?.isActive).toBe(true);
+
+    await createFirestoreTrackingSink('user-e', repository).flush();
+    expect((await repository.get(sessionId))?.isActive).toBe(false);
+    expect(getPendingFinalizations('user-e')).toEqual([]);
+  });
+
+  it('drops the finalization of a deleted session and still sends the heartbeat', async () => {
+    const repository = createInMemorySessionRepository();
+    const deleted = await createSession(repository, 'user-g');
+    const active = await createSession(repository, 'user-g');
+    const progress = { segments: [], stayPoints: [] };
+    addPendingFinalization('user-g', { sessionId: deleted, endTime: point(5).timestamp, progress });
+    await repository.delete((await repository.get(deleted)) as TrackingSession);
+
+    const lastSeenAt = point(10).timestamp;
+    await createFirestoreTrackingSink('user-g', repository).flush({
+      sessionId: active,
+      lastSeenAt,
+    });
+    expect(getPendingFinalizations('user-g')).toEqual([]);
+    expect((await repository.get(active))?.lastSeenAt).toEqual(lastSeenAt);
+  });
+
+  it('holds the finalization while offline and applies it on the next flush', async () => {
+    const repository = createInMemorySessionRepository();
+    const sessionId = await createSession(repository, 'user-h');
+    let online = false;
+    const sink = createFirestoreTrackingSink('user-h', repository, () => online);
+    const progress = { segments: [], stayPoints: [] };
+
+    await sink.finalizeSession(sessionId, point(5).timestamp, progress);
+    expect((await repository.get(sessionId))?.isActive).toBe(true);
+    expect(getPendingFinalizations('user-h')).toHaveLength(1);
+
+    online = true;
+    await sink.flush();
+    expect((await repository.get(sessionId))?.isActive).toBe(false);
+    expect(getPendingFinalizations('user-h')).toEqual([]);
+  });
+
+  it('flushes again for a heartbeat requested during a flush', async () => {
+    const repository = createInMemorySessionRepository();
+    const sessionId = await createSession(repository, 'user-i');
+    const sink = createFirestoreTrackingSink('user-i', repository);
+
+    await sink.enqueuePoint(sessionId, point(1));
+    const first = sink.flush();
+    await sink.enqueuePoint(sessionId, point(2));
+    const lastSeenAt = point(2).timestamp;
+    const second = sink.flush({ sessionId, lastSeenAt });
+    await Promise.all([first, second]);
+
+    expect(await loadSessionPoints(repository, sessionId)).toHaveLength(2);
+    expect((await repository.get(sessionId))?.lastSeenAt).toEqual(lastSeenAt);
+    expect(await sink.getPendingCount()).toBe(0);
+  });
+});
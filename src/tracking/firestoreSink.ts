@@ -0,0 +1,168 @@
+import type { SessionHeartbeat, TrackingSink } from '../types/Tracking';
+import type { SessionRepository } from '../types/Repository';
+import { TRACKING_CONFIG } from '../constants/tracking';
+import {
+  enqueuePendingPoint,
+  getPendingPoints,
+  removePendingPoints,
+  countPendingPoints,
+  groupBySession,
+} from '../utils/pendingPointsQueue';
+import {
+  addPendingFinalization,
+  getPendingFinalizations,
+  removePendingFinalization,
+} from '../utils/pendingFinalizations';
+import { sessionRepository } from '../repositories/defaultRepositories';
+
+// 再試行しても成功しない書き込みのエラー（セッションが削除された・別のユーザーのセッション）
+const isTerminalWriteError = (error: unknown) => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return code === 'permission-denied' || code === 'not-found';
+};
+
+// 未送信ポイントをIndexedDBのキューに溜め、セッションのリポジトリ（Firestore）へまとめて送信する保存先
+// キューはユーザー毎に分け、ログイン中のユーザーのポイントのみ送信する
+export function createFirestoreTrackingSink(
+  userId: string,
+  repository: SessionRepository = sessionRepository,
+  isOnline: () => boolean = () => navigator.onLine
+): TrackingSink {
+  // キューへの書き込み順を保証し、フラッシュ前に書き込み完了を待つためのチェーン
+  let writeChain: Promise<void> = Promise.resolve();
+  // 実行中のフラッシュ（同時実行を防ぎ、呼び出し側は完了を待てる）
+  let flushPromise: Promise<void> | null = null;
+  // 実行中のフラッシュの完了後に行うフラッシュと、その間に要求された最終記録時刻
+  let queuedFlush: Promise<void> | null = null;
+  let queuedHeartbeat: SessionHeartbeat | undefined;
+
+  // キュー内のポイントを記録順に最大件数ずつFirestoreへ送信
+  // ポイントとセッションのメタデータ（最終記録時刻）は同じバッチで書き込み、失敗したら中断する
+  // 削除されたセッションなど再試行しても送信できないポイントは、他のポイントの送信を妨げないよう破棄する
+  const uploadQueuedPoints = async (heartbeat?: SessionHeartbeat) => {
+    let heartbeatSent = false;
+
+    for (;;) {
+      const queued = await getPendingPoints(userId, TRACKING_CONFIG.FLUSH_BATCH_SIZE);
+      if (queued.length === 0) break;
+
+      for (const [sessionId, items] of groupBySession(queued)) {
+        const withHeartbeat = heartbeat?.sessionId === sessionId;
+        try {
+          // 送信済みポイントの除外はリポジトリ側で行う
+          await repository.appendPoints(
+            sessionId,
+            items.map((item) => item.point),
+            withHeartbeat ? heartbeat.lastSeenAt : undefined
+          );
+          heartbeatSent = heartbeatSent || withHeartbeat;
+        } catch (error) {
+          if (!isTerminalWriteError(error)) throw error;
+          console.error(
+            `Dropping ${items.length} unsendable points of session ${sessionId}:`,
+            error
+          );
+        }
+
+        // 成功後（または送信できないと分かった後）にキューから削除
+        await removePendingPoints(items.map((item) => item.id));
+      }
+
+      if (queued.length < TRACKING_CONFIG.FLUSH_BATCH_SIZE) break;
+    }
+
+    return heartbeatSent;
+  };
+
+  // 保留していたセッションの終了処理を確定（ポイントの送信後に行う）
+  // 削除されたセッションなど確定できない保留は、以降の送信や最終記録時刻の更新を妨げないよう破棄する
+  const applyPendingFinalizations = async () => {
+    for (const { sessionId, endTime, progress, metrics } of getPendingFinalizations(userId)) {
+      try {
+        await repository.finalize(sessionId, endTime, progress, metrics);
+      } catch (error) {
+        if (!isTerminalWriteError(error)) throw error;
+        console.error(`Dropping pending finalization of session ${sessionId}:`, error);
+      }
+      removePendingFinalization(userId, sessionId);
+    }
+  };
+
+  // 未送信ポイントを送信し、記録中のセッションの最終記録時刻を更新する
+  const flushQueue = async (heartbeat?: SessionHeartbeat) => {
+    await writeChain;
+
+    const heartbeatSent = await uploadQueuedPoints(heartbeat);
+    await applyPendingFinalizations();
+
+    if (heartbeat && !heartbeatSent) {
+      await repository.touch(heartbeat.sessionId, heartbeat.lastSeenAt);
+    }
+  };
+
+  // 実行中のフラッシュがある場合は、その後にもう一度フラッシュする
+  // （実行中のフラッシュが読み込んだ後に追加されたポイントと、要求された最終記録時刻を送るため）
+  const flush = (heartbeat?: SessionHeartbeat): Promise<void> => {
+    if (!flushPromise) {
+      flushPromise = flushQueue(heartbeat).finally(() => {
+        flushPromise = null;
+      });
+      return flushPromise;
+    }
+
+    if (heartbeat) queuedHeartbeat = heartbeat;
+    if (!queuedFlush) {
+      queuedFlush = flushPromise
+        .catch(() => undefined)
+        .then(() => {
+          const next = queuedHeartbeat;
+          queuedFlush = null;
+          queuedHeartbeat = undefined;
+          return flush(next);
+        });
+    }
+    return queuedFlush;
+  };
+
+  return {
+    createSession(session) {
+      return repository.create(session);
+    },
+
+    enqueuePoint(sessionId, point) {
+      writeChain = writeChain
+        .then(() => enqueuePendingPoint(userId, sessionId, point))
+        .catch((error) => {
+          console.error('Failed to enqueue pending point:', error);
+        });
+      return writeChain;
+    },
+
+    flush,
+
+    getPendingCount() {
+      return countPendingPoints(userId);
+    },
+
+    updateSession(sessionId, progress) {
+      return repository.updateProgress(sessionId, progress);
+    },
+
+    // 未送信ポイントが残っている・オフラインの場合は終了時刻を書き込まずに保留する
+    async finalizeSession(sessionId, endTime, progress, metrics) {
+      await writeChain;
+      const pending = await getPendingPoints(userId);
+      if (!isOnline() || pending.some((item) => item.sessionId === sessionId)) {
+        addPendingFinalization(userId, { sessionId, endTime, progress, metrics });
+        return;
+      }
+
+      try {
+        await repository.finalize(sessionId, endTime, progress, metrics);
+      } catch (error) {
+        console.error('Failed to finalize session, will retry on next flush:', error);
+        addPendingFinalization(userId, { sessionId, endTime, progress, metrics });
+      }
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import type { PositionFix, PositionSource } from '../types/Tracking';
+
+// navigator.geolocation を使った位置情報ソース
+
+// 端末が提供しない項目は null（静止中の heading は NaN）になるため undefined に揃える
+const optionalNumber = (value: number | null): number | undefined =>
+  value !== null && Number.isFinite(value) ? value : undefined;
+
+const toPositionFix = (position: GeolocationPosition): PositionFix => ({
+  lat: position.coords.latitude,
+  lng: position.coords.longitude,
+  accuracy: position.coords.accuracy,
+  timestamp: position.timestamp,
+  altitude: optionalNumber(position.coords.altitude),
+  altitudeAccuracy: optionalNumber(position.coords.altitudeAccuracy),
+  heading: optionalNumber(position.coords.heading),
+  speed: optionalNumber(position.coords.speed),
+});
+
+export function createGeolocationSource(): PositionSource {
+  let watchId: number | null = null;
+
+  return {
+    kind: 'gps',
+
+    start(onPosition, onError, options) {
+      this.stop();
+      if (!navigator.geolocation) return;
+      watchId = navigator.geolocation.watchPosition(
+        (position) => onPosition(toPositionFix(position)),
+        onError,
+        options
+      );
+    },
+
+    stop() {
+      if (watchId !== null) {
+        navigator.geolocation.clearWatch(watchId);
+        watchId = null;
+      }
+    },
+
+    getCurrentPosition(onPosition, onError, options) {
+      if (!navigator.geolocation) {
+        onError({ code: 2, message: 'Geolocation is not supported' });
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(
+        (position) => onPosition(toPositionFix(position)),
+        onError,
+        options
+      );
+    },
+  };
+}
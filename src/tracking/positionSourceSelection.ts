@@ -0,0 +1,101 @@
+import type {
+  PositionSource,
+  PositionSourceKind,
+  PositionSourceSelection,
+  ManualPositionSource,
+} from '../types/Tracking';
+import { SIMULATION_CONFIG } from '../constants/tracking';
+import { parseTrack } from '../utils/trackParser';
+import { createGeolocationSource } from './geolocationSource';
+import { createManualSource, createRandomWalkSource, createReplaySource } from './simulatedSources';
+
+// URLパラメータで位置情報ソースを切り替える
+// 例: ?source=replay&track=/tracks/walk.gpx&speed=10, ?source=random&seed=42, ?source=manual
+
+const SOURCE_KINDS: PositionSourceKind[] = ['gps', 'replay', 'random', 'manual'];
+
+const parseNumber = (value: string | null, fallback: number) => {
+  const parsed = value === null ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export function readSourceSelection(
+  search: string = window.location.search
+): PositionSourceSelection {
+  const params = new URLSearchParams(search);
+  const kind = params.get('source') as PositionSourceKind | null;
+
+  return {
+    kind: kind && SOURCE_KINDS.includes(kind) ? kind : 'gps',
+    speed: parseNumber(params.get('speed'), SIMULATION_CONFIG.REPLAY_SPEED),
+    seed: parseNumber(params.get('seed'), 1),
+    trackUrl: params.get('track') || undefined,
+    origin: {
+      lat: parseNumber(params.get('lat'), SIMULATION_CONFIG.DEFAULT_ORIGIN.lat),
+      lng: parseNumber(params.get('lng'), SIMULATION_CONFIG.DEFAULT_ORIGIN.lng),
+    },
+  };
+}
+
+// 選択内容をURLパラメータに反映したURL
+export function buildSourceSelectionUrl(selection: PositionSourceSelection): string {
+  const url = new URL(window.location.href);
+  ['source', 'speed', 'seed', 'track', 'lat', 'lng'].forEach((key) => url.searchParams.delete(key));
+
+  if (selection.kind !== 'gps') {
+    url.searchParams.set('source', selection.kind);
+    url.searchParams.set('lat', String(selection.origin.lat));
+    url.searchParams.set('lng', String(selection.origin.lng));
+  }
+  if (selection.kind === 'replay') {
+    url.searchParams.set('speed', String(selection.speed));
+    if (selection.trackUrl) url.searchParams.set('track', selection.trackUrl);
+  }
+  if (selection.kind === 'random') {
+    url.searchParams.set('seed', String(selection.seed));
+  }
+  return url.toString();
+}
+
+// リプレイ対象のトラックを読み込む（URL指定がなければ開発メニューで読み込んだもの）
+const loadTrack = async (trackUrl?: string) => {
+  if (trackUrl) {
+    const response = await fetch(trackUrl);
+    if (!response.ok) {
+      throw new Error(`トラックの取得に失敗しました: ${response.status}`);
+    }
+    return parseTrack(await response.text());
+  }
+
+  const stored = localStorage.getItem(SIMULATION_CONFIG.DEV_TRACK_STORAGE_KEY);
+  if (!stored) {
+    throw new Error('リプレイするトラックがありません');
+  }
+  return parseTrack(stored);
+};
+
+export function createPositionSource(selection: PositionSourceSelection): PositionSource {
+  switch (selection.kind) {
+    case 'replay':
+      return createReplaySource({
+        loadTrack: () => loadTrack(selection.trackUrl),
+        speed: selection.speed,
+      });
+    case 'random':
+      return createRandomWalkSource({ origin: selection.origin, seed: selection.seed });
+    case 'manual':
+      return createManualSource(selection.origin);
+    default:
+      return createGeolocationSource();
+  }
+}
+
+export function isManualSource(source: PositionSource): source is ManualPositionSource {
+  return source.kind === 'manual';
+}
+
+// 開発メニューは開発ビルドか ?dev=1 / 擬似ソース選択時のみ表示
+export function isDevMenuEnabled(search: string = window.location.search): boolean {
+  const params = new URLSearchParams(search);
+  return import.meta.env.DEV || params.has('dev') || params.has('source');
+}
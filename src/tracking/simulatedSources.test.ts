@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PositionFix } from '../types/Tracking';
+import type { TrackPoint } from '../utils/trackParser';
+import { createReplaySource } from './simulatedSources';
+
+// 10秒間隔で記録したトラック
+const track: TrackPoint[] = Array.from({ length: 4 }, (_, i) => ({
+  lat: 35.68 + i * 0.0001,
+  lng: 139.76,
+  time: Date.UTC(2025, 5, 1, 9) + i * 10000,
+}));
+
+describe('createReplaySource', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2025, 6, 1, 12));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shortens the interval by the speed and stamps fixes with the real time', async () => {
+    const source = createReplaySource({ loadTrack: async () => track, speed: 5 });
+    const fixes: PositionFix[] = [];
+    const startedAt = Date.now();
+
+    source.start((fix) => fixes.push(fix), vi.fn());
+    await vi.advanceTimersByTimeAsync(4500);
+    expect(fixes.map((fix) => fix.timestamp - startedAt)).toEqual([0, 2000, 4000]);
+
+    // 停止中の位置から再開し、再開した時刻で記録する
+    source.stop();
+    await vi.advanceTimersByTimeAsync(10000);
+    source.start((fix) => fixes.push(fix), vi.fn());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fixes[3]).toMatchObject({ lat: track[3].lat, timestamp: startedAt + 14500 });
+    source.stop();
+  });
+
+  it('does not start replaying when stopped while the track is loading', async () => {
+    let resolveTrack: (points: TrackPoint[]) => void = () => {};
+    const source = createReplaySource({
+      loadTrack: () => new Promise((resolve) => (resolveTrack = resolve)),
+    });
+    const onPosition = vi.fn();
+
+    source.start(onPosition, vi.fn());
+    source.stop();
+    resolveTrack(track);
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(onPosition).not.toHaveBeenCalled();
+  });
+
+  it('replays once when restarted while the track is loading', async () => {
+    const source = createReplaySource({ loadTrack: async () => track });
+    const onPosition = vi.fn();
+
+    source.start(onPosition, vi.fn());
+    source.start(onPosition, vi.fn());
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(onPosition).toHaveBeenCalledTimes(track.length);
+  });
+});
@@ -0,0 +1,198 @@
+import type { ManualPositionSource, PositionFix, PositionSource } from '../types/Tracking';
+import type { TrackPoint } from '../utils/trackParser';
+import { SIMULATION_CONFIG } from '../constants/tracking';
+import { METERS_PER_DEGREE } from '../constants/geo';
+
+// 実際に歩かずにトラッキング処理を確認するための擬似位置情報ソース
+
+// 指定距離・方位だけ移動した座標
+const offsetPosition = (lat: number, lng: number, meters: number, headingRad: number) => ({
+  lat: lat + (meters * Math.cos(headingRad)) / METERS_PER_DEGREE,
+  lng:
+    lng + (meters * Math.sin(headingRad)) / (METERS_PER_DEGREE * Math.cos((lat * Math.PI) / 180)),
+});
+
+// 再現性のある乱数（mulberry32）
+const createRandom = (seed: number) => {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+interface ReplaySourceOptions {
+  loadTrack: () => Promise<TrackPoint[]>;
+  speed?: number;
+}
+
+// GPX/JSONのトラックを指定倍速でリプレイする
+// 倍速時は測位の間隔だけを縮め、測位時刻は実際の時刻とする（記録区間・終了時刻と同じ時計に揃える）
+// 移動速度も倍速になるため、アクティビティの最大速度を超える場合は自転車・カスタムのプロファイルで再生する
+export function createReplaySource({
+  loadTrack,
+  speed = SIMULATION_CONFIG.REPLAY_SPEED,
+}: ReplaySourceOptions): PositionSource {
+  let trackPromise: Promise<TrackPoint[]> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let index = 0;
+  // 開始の度に増やし、トラックの読み込み中に停止・再開された古い開始を無視する
+  let startId = 0;
+
+  const getTrack = () => {
+    if (!trackPromise) {
+      trackPromise = loadTrack().catch((error) => {
+        trackPromise = null;
+        throw error;
+      });
+    }
+    return trackPromise;
+  };
+
+  // トラック上の相対時刻（時刻がない場合は一定間隔とみなす）
+  const relativeTime = (track: TrackPoint[], i: number) => {
+    const first = track[0].time;
+    const current = track[i].time;
+    return first !== undefined && current !== undefined
+      ? current - first
+      : i * SIMULATION_CONFIG.REPLAY_POINT_INTERVAL;
+  };
+
+  const toFix = (track: TrackPoint[], i: number): PositionFix => ({
+    lat: track[i].lat,
+    lng: track[i].lng,
+    accuracy: track[i].accuracy ?? SIMULATION_CONFIG.SIMULATED_ACCURACY,
+    timestamp: Date.now(),
+    altitude: track[i].altitude,
+  });
+
+  return {
+    kind: 'replay',
+
+    start(onPosition, onError) {
+      this.stop();
+      const currentStart = startId;
+
+      getTrack()
+        .then((track) => {
+          if (currentStart !== startId) return;
+          // 停止中の位置から再開する（バックグラウンド復帰の再現用）
+          const step = () => {
+            if (index >= track.length) return;
+            onPosition(toFix(track, index));
+            index++;
+            if (index < track.length) {
+              const delay = (relativeTime(track, index) - relativeTime(track, index - 1)) / speed;
+              timer = setTimeout(step, Math.max(delay, 0));
+            }
+          };
+          step();
+        })
+        .catch((error) => {
+          if (currentStart === startId) onError({ code: 2, message: String(error) });
+        });
+    },
+
+    stop() {
+      startId++;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+
+    getCurrentPosition(onPosition, onError) {
+      getTrack()
+        .then((track) => onPosition(toFix(track, Math.min(index, track.length - 1))))
+        .catch((error) => onError({ code: 2, message: String(error) }));
+    },
+  };
+}
+
+interface RandomWalkSourceOptions {
+  origin: { lat: number; lng: number };
+  seed?: number;
+  stepMeters?: number;
+  interval?: number;
+}
+
+// シードで再現可能なランダムウォーク
+export function createRandomWalkSource({
+  origin,
+  seed = 1,
+  stepMeters = SIMULATION_CONFIG.RANDOM_WALK_STEP,
+  interval = SIMULATION_CONFIG.RANDOM_WALK_INTERVAL,
+}: RandomWalkSourceOptions): PositionSource {
+  const random = createRandom(seed);
+  const maxTurn = (SIMULATION_CONFIG.RANDOM_WALK_TURN * Math.PI) / 180;
+  let position = { ...origin };
+  let heading = random() * 2 * Math.PI;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const toFix = (): PositionFix => ({
+    ...position,
+    accuracy: SIMULATION_CONFIG.SIMULATED_ACCURACY,
+    timestamp: Date.now(),
+  });
+
+  return {
+    kind: 'random',
+
+    start(onPosition) {
+      this.stop();
+      timer = setInterval(() => {
+        heading += (random() * 2 - 1) * maxTurn;
+        position = offsetPosition(position.lat, position.lng, stepMeters, heading);
+        onPosition(toFix());
+      }, interval);
+    },
+
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+
+    getCurrentPosition(onPosition) {
+      onPosition(toFix());
+    },
+  };
+}
+
+// 地図をクリックした位置へ移動する手動ソース
+export function createManualSource(origin: { lat: number; lng: number }): ManualPositionSource {
+  let position = { ...origin };
+  let listener: ((fix: PositionFix) => void) | null = null;
+
+  const toFix = (): PositionFix => ({
+    ...position,
+    accuracy: SIMULATION_CONFIG.SIMULATED_ACCURACY,
+    timestamp: Date.now(),
+  });
+
+  return {
+    kind: 'manual',
+
+    start(onPosition) {
+      listener = onPosition;
+      onPosition(toFix());
+    },
+
+    stop() {
+      listener = null;
+    },
+
+    getCurrentPosition(onPosition) {
+      onPosition(toFix());
+    },
+
+    moveTo(lat, lng) {
+      position = { lat, lng };
+      listener?.(toFix());
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { PositionFix, StationaryDetectionConfig } from '../types/Tracking';
+import { createStationaryDetector } from './stationaryDetector';
+
+const start = Date.UTC(2025, 5, 1, 9);
+
+const config: StationaryDetectionConfig = {
+  enabled: true,
+  dwellTime: 60_000,
+  maxDeviation: 10,
+  minFixes: 3,
+  exitDistance: 30,
+  exitConfirmCount: 2,
+};
+
+// 北へ meters 移動した測位（緯度1度 ≒ 111km）
+const fix = (seconds: number, meters = 0): PositionFix => ({
+  lat: 35.68 + meters / 111_320,
+  lng: 139.76,
+  accuracy: 5,
+  timestamp: start + seconds * 1000,
+});
+
+const stay = { lat: 35.68, lng: 139.76 };
+
+describe('createStationaryDetector', () => {
+  it('detects a stay once fixes cluster for the dwell time', () => {
+    const detector = createStationaryDetector();
+    expect(detector.detectStay(fix(0, 2), config)).toBeNull();
+    expect(detector.detectStay(fix(30, -2), config)).toBeNull();
+
+    const detected = detector.detectStay(fix(60, 0), config);
+    expect(detected?.startTime).toBe(start);
+    expect(detected?.lat).toBeCloseTo(35.68, 6);
+  });
+
+  it('does not detect a stay while the fixes keep moving', () => {
+    const detector = createStationaryDetector();
+    [0, 30, 60, 90].forEach((seconds) => {
+      expect(detector.detectStay(fix(seconds, seconds), config)).toBeNull();
+    });
+  });
+
+  it('waits for the minimum number of fixes', () => {
+    const detector = createStationaryDetector();
+    expect(detector.detectStay(fix(0), config)).toBeNull();
+    expect(detector.detectStay(fix(90), config)).toBeNull();
+    expect(detector.detectStay(fix(120), config)).not.toBeNull();
+  });
+
+  it('starts the stay at the oldest fix still inside the dwell window', () => {
+    const detector = createStationaryDetector();
+    detector.detectStay(fix(0, 200), config);
+    detector.detectStay(fix(30, 100), config);
+    expect(detector.detectStay(fix(60), config)).toBeNull();
+    expect(detector.detectStay(fix(90), config)).toBeNull();
+
+    const detected = detector.detectStay(fix(120), config);
+    expect(detected?.startTime).toBe(start + 60_000);
+  });
+
+  it('confirms a departure only after consecutive distant fixes', () => {
+    const detector = createStationaryDetector();
+    expect(detector.detectDeparture(fix(0, 50), stay, config)).toBe(false);
+    expect(detector.detectDeparture(fix(5, 5), stay, config)).toBe(false);
+    expect(detector.detectDeparture(fix(10, 50), stay, config)).toBe(false);
+    expect(detector.detectDeparture(fix(15, 60), stay, config)).toBe(true);
+  });
+
+  it('forgets collected fixes on reset', () => {
+    const detector = createStationaryDetector();
+    detector.detectStay(fix(0), config);
+    detector.detectStay(fix(30), config);
+    detector.reset();
+    expect(detector.detectStay(fix(60), config)).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import type { PositionFix, StationaryDetectionConfig } from '../types/Tracking';
+import { STATIONARY_DETECTION_CONFIG } from '../constants/tracking';
+import { calculateDistance } from '../utils/explorationUtils';
+
+// 滞在時間と測位位置のばらつきから静止を検出し、滞在地点からの移動で記録再開を判定する
+
+export const DEFAULT_STATIONARY_DETECTION: StationaryDetectionConfig = {
+  enabled: STATIONARY_DETECTION_CONFIG.ENABLED,
+  dwellTime: STATIONARY_DETECTION_CONFIG.DWELL_TIME,
+  maxDeviation: STATIONARY_DETECTION_CONFIG.MAX_DEVIATION,
+  minFixes: STATIONARY_DETECTION_CONFIG.MIN_FIXES,
+  exitDistance: STATIONARY_DETECTION_CONFIG.EXIT_DISTANCE,
+  exitConfirmCount: STATIONARY_DETECTION_CONFIG.EXIT_CONFIRM_COUNT,
+};
+
+// 検出した滞在の開始
+export interface DetectedStay {
+  lat: number; // 滞在中の測位の重心
+  lng: number;
+  startTime: number; // エポックミリ秒
+}
+
+export interface StationaryDetector {
+  detectStay(fix: PositionFix, config: StationaryDetectionConfig): DetectedStay | null;
+  detectDeparture(
+    fix: PositionFix,
+    stay: { lat: number; lng: number },
+    config: StationaryDetectionConfig
+  ): boolean;
+  reset(): void;
+}
+
+export function createStationaryDetector(): StationaryDetector {
+  let recentFixes: PositionFix[] = [];
+  let departureCount = 0;
+
+  return {
+    // 滞在時間分の測位が重心の近くにまとまっていれば静止とみなす
+    detectStay(fix, config) {
+      recentFixes.push(fix);
+
+      // 滞在時間の起点より前の測位は1つだけ残す（期間を満たしたかの判定用）
+      const windowStart = fix.timestamp - config.dwellTime;
+      while (recentFixes.length > 1 && recentFixes[1].timestamp <= windowStart) {
+        recentFixes.shift();
+      }
+
+      if (recentFixes.length < config.minFixes || recentFixes[0].timestamp > windowStart) {
+        return null;
+      }
+
+      const centroid = {
+        lat: recentFixes.reduce((sum, item) => sum + item.lat, 0) / recentFixes.length,
+        lng: recentFixes.reduce((sum, item) => sum + item.lng, 0) / recentFixes.length,
+      };
+      const variance =
+        recentFixes.reduce((sum, item) => {
+          const distance = calculateDistance(centroid.lat, centroid.lng, item.lat, item.lng);
+          return sum + distance * distance;
+        }, 0) / recentFixes.length;
+
+      if (Math.sqrt(variance) > config.maxDeviation) {
+        return null;
+      }
+
+      const stay = { ...centroid, startTime: recentFixes[0].timestamp };
+      recentFixes = [];
+      departureCount = 0;
+      return stay;
+    },
+
+    // 滞在地点から離れた測位が続いたら移動とみなす（単発の飛びは無視）
+    detectDeparture(fix, stay, config) {
+      const distance = calculateDistance(stay.lat, stay.lng, fix.lat, fix.lng);
+      departureCount = distance > config.exitDistance ? departureCount + 1 : 0;
+      if (departureCount < config.exitConfirmCount) {
+        return false;
+      }
+      departureCount = 0;
+      return true;
+    },
+
+    reset() {
+      recentFixes = [];
+      departureCount = 0;
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import { MULTI_INSTANCE_CONFIG } from '../constants/tracking';
+
+// 同じブラウザで複数のタブを開いた場合に、記録を担当するタブを1つに絞る
+// Web Locks API の排他ロックを持つタブが記録を担当し、ロックを待つタブは閲覧のみとする
+// 記録担当タブの記録状態は BroadcastChannel で他のタブへ通知する
+
+type TabMessage = { type: 'tracking'; isTracking: boolean } | { type: 'query' };
+
+interface TabCoordinatorCallbacks {
+  onLeadershipChange: (isLeader: boolean) => void;
+  onRemoteTrackingChange: (isTracking: boolean) => void;
+}
+
+export interface TabCoordinator {
+  isLeader(): boolean;
+  publishTracking(isTracking: boolean): void;
+  dispose(): void;
+}
+
+export function createTabCoordinator({
+  onLeadershipChange,
+  onRemoteTrackingChange,
+}: TabCoordinatorCallbacks): TabCoordinator {
+  let leader = false;
+  let isTracking = false;
+  let releaseLock: (() => void) | null = null;
+  const abortController = new AbortController();
+  const channel =
+    typeof BroadcastChannel !== 'undefined'
+      ? new BroadcastChannel(MULTI_INSTANCE_CONFIG.TAB_CHANNEL_NAME)
+      : null;
+
+  const post = (message: TabMessage) => channel?.postMessage(message);
+
+  const becomeLeader = () => {
+    leader = true;
+    onRemoteTrackingChange(false);
+    onLeadershipChange(true);
+  };
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<TabMessage>) => {
+      if (event.data.type === 'query' && leader) {
+        post({ type: 'tracking', isTracking });
+      } else if (event.data.type === 'tracking' && !leader) {
+        onRemoteTrackingChange(event.data.isTracking);
+      }
+    };
+  }
+
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    // ロックはタブを閉じるかdisposeするまで保持し、解放されると待っているタブに移る
+    navigator.locks
+      .request(
+        MULTI_INSTANCE_CONFIG.TAB_LOCK_NAME,
+        { signal: abortController.signal },
+        () =>
+          new Promise<void>((resolve) => {
+            releaseLock = resolve;
+            becomeLeader();
+          })
+      )
+      .catch((error) => {
+        if ((error as Error).name !== 'AbortError') {
+          console.error('Failed to acquire tab lock:', error);
+        }
+      });
+    // 記録担当タブの現在の記録状態を問い合わせる
+    post({ type: 'query' });
+  } else {
+    // Web Locks API が使えない環境では各タブが記録を担当する
+    becomeLeader();
+  }
+
+  return {
+    isLeader: () => leader,
+
+    publishTracking(next) {
+      isTracking = next;
+      if (leader) {
+        post({ type: 'tracking', isTracking });
+      }
+    },
+
+    dispose() {
+      if (leader) {
+        post({ type: 'tracking', isTracking: false });
+      }
+      abortController.abort();
+      releaseLock?.();
+      channel?.close();
+      leader = false;
+    },
+  };
+}
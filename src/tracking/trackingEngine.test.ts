@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GeoPoint } from '../types/GeoPoint';
+import type { PositionFix, PositionSource, TrackingSink } from '../types/Tracking';
+import { DEFAULT_ACCURACY_POLICY } from './accuracyPolicy';
+import { DEFAULT_STATIONARY_DETECTION } from './stationaryDetector';
+import { createTrackingEngine } from './trackingEngine';
+
+const start = Date.UTC(2025, 5, 1, 9);
+const SESSION_ID = 'session-1';
+
+// 測位を手動で送る位置情報ソース
+const createFakeSource = () => {
+  let onPosition: ((fix: PositionFix) => void) | null = null;
+  const source: PositionSource & { isWatching: () => boolean; send: (fix: PositionFix) => void } = {
+    kind: 'manual',
+    start(callback) {
+      onPosition = callback;
+    },
+    stop() {
+      onPosition = null;
+    },
+    getCurrentPosition: vi.fn(),
+    isWatching: () => onPosition !== null,
+    send: (fix) => onPosition?.(fix),
+  };
+  return source;
+};
+
+// 呼び出しを記録するだけの保存先
+const createFakeSink = () => {
+  const points: GeoPoint[] = [];
+  const sink = {
+    createSession: vi.fn<TrackingSink['createSession']>(() => Promise.resolve(SESSION_ID)),
+    enqueuePoint: vi.fn<TrackingSink['enqueuePoint']>((_sessionId, point) => {
+      points.push(point);
+      return Promise.resolve();
+    }),
+    flush: vi.fn<TrackingSink['flush']>(() => Promise.resolve()),
+    getPendingCount: vi.fn<TrackingSink['getPendingCount']>(() => Promise.resolve(0)),
+    updateSession: vi.fn<TrackingSink['updateSession']>(() => Promise.resolve()),
+    finalizeSession: vi.fn<TrackingSink['finalizeSession']>(() => Promise.resolve()),
+  } satisfies TrackingSink;
+  return { sink, points };
+};
+
+const setup = () => {
+  let clock = start;
+  const source = createFakeSource();
+  const { sink, points } = createFakeSink();
+  const engine = createTrackingEngine({
+    userId: 'user-1',
+    source,
+    sink,
+    now: () => clock,
+    isOnline: () => true,
+    config: {
+      smoothing: false,
+      minDistance: 10,
+      accuracyPolicy: { ...DEFAULT_ACCURACY_POLICY, enabled: false },
+      stationaryDetection: {
+        ...DEFAULT_STATIONARY_DETECTION,
+        enabled: true,
+        dwellTime: 60_000,
+        minFixes: 3,
+        exitDistance: 40,
+        exitConfirmCount: 2,
+      },
+    },
+  });
+
+  // seconds 秒後に北へ meters 移動した測位を送る（エンジンの時計も進める）
+  const send = (seconds: number, meters: number) => {
+    clock = start + seconds * 1000;
+    source.send({
+      lat: 35.68 + meters / 111_320,
+      lng: 139.76,
+      accuracy: 5,
+      timestamp: clock,
+    });
+  };
+  const advance = (seconds: number) => {
+    clock = start + seconds * 1000;
+  };
+
+  return { engine, source, sink, points, send, advance };
+};
+
+describe('createTrackingEngine', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('creates a session and moves from acquiring to tracking on the first fix', async () => {
+    const { engine, source, sink, points, send } = setup();
+
+    await engine.start();
+    expect(engine.getState()).toBe('acquiring');
+    expect(source.isWatching()).toBe(true);
+    expect(sink.createSession).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        isActive: true,
+        startTime: new Date(start),
+        segments: [{ startTime: new Date(start) }],
+      })
+    );
+
+    send(5, 0);
+    send(10, 20);
+    expect(engine.getState()).toBe('tracking');
+    expect(points.map((point) => point.segment)).toEqual([0, 0]);
+    expect(engine.getSession()?.points).toHaveLength(2);
+    engine.dispose();
+  });
+
+  it('skips fixes closer than the minimum distance', async () => {
+    const { engine, points, send } = setup();
+
+    await engine.start();
+    send(5, 0);
+    send(10, 5);
+    send(15, 15);
+    expect(points).toHaveLength(2);
+    engine.dispose();
+  });
+
+  it('records into a new segment after pause and resume', async () => {
+    const { engine, source, sink, points, send, advance } = setup();
+    await engine.start();
+    send(5, 0);
+
+    advance(30);
+    await engine.pause();
+    expect(engine.getState()).toBe('paused');
+    expect(source.isWatching()).toBe(false);
+    expect(engine.getSession()?.segments).toEqual([
+      { startTime: new Date(start), endTime: new Date(start + 30_000) },
+    ]);
+    expect(sink.updateSession).toHaveBeenCalled();
+    expect(sink.flush).toHaveBeenLastCalledWith({
+      sessionId: SESSION_ID,
+      lastSeenAt: new Date(start + 30_000),
+    });
+
+    advance(600);
+    engine.resume();
+    expect(engine.getState()).toBe('acquiring');
+    send(605, 5);
+    expect(points.map((point) => point.segment)).toEqual([0, 1]);
+    expect(engine.getSession()?.segments?.[1]).toEqual({ startTime: new Date(start + 600_000) });
+    engine.dispose();
+  });
+
+  it('stops watching in the background and resumes in the same segment', async () => {
+    const { engine, source, sink, points, send, advance } = setup();
+    await engine.start();
+    send(5, 0);
+
+    advance(20);
+    await engine.enterBackground();
+    expect(engine.getState()).toBe('backgrounded');
+    expect(source.isWatching()).toBe(false);
+    expect(sink.flush).toHaveBeenCalled();
+
+    engine.enterForeground();
+    expect(engine.getState()).toBe('acquiring');
+    expect(source.isWatching()).toBe(true);
+    send(60, 50);
+    expect(points.map((point) => point.segment)).toEqual([0, 0]);
+    engine.dispose();
+  });
+
+  it('auto-pauses on a stay and resumes in a new segment after leaving it', async () => {
+    const { engine, points, send } = setup();
+    await engine.start();
+    send(0, 0);
+    send(30, 1);
+    send(60, 0);
+
+    expect(engine.getState()).toBe('stationary');
+    expect(engine.getSession()?.stayPoints).toEqual([
+      expect.objectContaining({ startTime: new Date(start) }),
+    ]);
+    expect(engine.getSession()?.segments?.[0].endTime).toEqual(new Date(start + 60_000));
+
+    // 単発の飛びでは再開しない
+    send(90, 60);
+    send(100, 0);
+    expect(engine.getState()).toBe('stationary');
+
+    send(110, 60);
+    send(120, 70);
+    expect(engine.getState()).toBe('tracking');
+    expect(engine.getSession()?.stayPoints?.[0]).toMatchObject({
+      endTime: new Date(start + 120_000),
+      duration: 120_000,
+    });
+    expect(points.at(-1)?.segment).toBe(1);
+    engine.dispose();
+  });
+
+  it('flushes and finalizes the session with closed segments and metrics on stop', async () => {
+    const { engine, source, sink, send, advance } = setup();
+    await engine.start();
+    send(0, 0);
+    send(60, 100);
+
+    advance(90);
+    await engine.stop();
+
+    expect(sink.flush).toHaveBeenCalled();
+    const endTime = new Date(start + 90_000);
+    expect(sink.finalizeSession).toHaveBeenCalledWith(
+      SESSION_ID,
+      endTime,
+      { segments: [{ startTime: new Date(start), endTime }], stayPoints: [] },
+      expect.objectContaining({ elapsedTime: 90_000 })
+    );
+    const [, , , metrics] = sink.finalizeSession.mock.calls[0];
+    expect(metrics?.distance).toBeCloseTo(100, 0);
+    expect(engine.getState()).toBe('idle');
+    expect(engine.getSession()).toBeNull();
+    expect(source.isWatching()).toBe(false);
+    engine.dispose();
+  });
+
+  it('returns to idle and rethrows when the session cannot be created', async () => {
+    const { engine, source, sink } = setup();
+    const offline = new Error('offline');
+    sink.createSession.mockRejectedValueOnce(offline);
+
+    await expect(engine.start()).rejects.toBe(offline);
+    expect(engine.getState()).toBe('idle');
+    expect(engine.getSession()).toBeNull();
+    expect(source.isWatching()).toBe(false);
+    engine.dispose();
+  });
+});
@@ -0,0 +1,603 @@
+import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
+import type { ExploredArea } from '../types/ExploredArea';
+import type {
+  AccuracyMode,
+  AccuracyModeState,
+  BatteryState,
+  PositionFix,
+  PositionSource,
+  PositionSourceError,
+  SyncStatus,
+  TrackingEngineConfig,
+  TrackingEvent,
+  TrackingEventListener,
+  TrackingSink,
+  TrackingState,
+} from '../types/Tracking';
+import { TRACKING_CONFIG } from '../constants/tracking';
+import { DEFAULT_ACTIVITY } from '../constants/activity';
+import { calculateDistance } from '../utils/explorationUtils';
+import { createPositionFilter } from '../utils/positionFilter';
+import { calculateSessionMetrics } from '../utils/sessionMetrics';
+import {
+  closeSegment,
+  closeSessionProgress,
+  closeStayPoint,
+  getSessionProgress,
+  getSessionSegments,
+  hasOpenSegment,
+  hasOpenStayPoint,
+  openSegment,
+} from '../utils/sessionSegments';
+import {
+  ACCURACY_MODE_OPTIONS,
+  DEFAULT_ACCURACY_POLICY,
+  createAccuracyPolicy,
+} from './accuracyPolicy';
+import { DEFAULT_STATIONARY_DETECTION, createStationaryDetector } from './stationaryDetector';
+import type { DetectedStay } from './stationaryDetector';
+
+// React や Firestore に依存しないトラッキングエンジン
+// 位置情報ソースと保存先を差し替えることで擬似的な位置情報でも動作を確認できる
+
+interface TrackingEngineOptions {
+  userId: string;
+  source: PositionSource;
+  sink: TrackingSink;
+  config?: Partial<TrackingEngineConfig>;
+  deviceId?: string; // 新規セッションに記録する端末ID
+  getPriorAreas?: () => ExploredArea[]; // 終了時の統計で探索済みとみなすエリア（過去のセッション）
+  now?: () => number;
+  isOnline?: () => boolean;
+}
+
+export interface TrackingEngine {
+  getState(): TrackingState;
+  getSession(): TrackingSession | null;
+  getAccuracyMode(): AccuracyModeState;
+  subscribe(listener: TrackingEventListener): () => void;
+  acquireInitialPosition(): Promise<PositionFix | null>;
+  start(): Promise<void>;
+  resumeSession(session: TrackingSession): void;
+  pause(): Promise<void>;
+  resume(): void;
+  enterBackground(): Promise<void>;
+  enterForeground(): void;
+  stop(): Promise<void>;
+  flush(): Promise<void>;
+  updateConfig(config: Partial<TrackingEngineConfig>): void;
+  setBatteryState(battery: BatteryState | null): void;
+  dispose(): void;
+}
+
+export const DEFAULT_ENGINE_CONFIG: TrackingEngineConfig = {
+  activity: DEFAULT_ACTIVITY,
+  explorationRadius: TRACKING_CONFIG.EXPLORATION_RADIUS,
+  minDistance: TRACKING_CONFIG.MIN_DISTANCE,
+  maxAccuracy: TRACKING_CONFIG.MAX_ACCURACY,
+  maxSpeedKmh: TRACKING_CONFIG.MAX_SPEED_KMH,
+  batchInterval: TRACKING_CONFIG.BATCH_INTERVAL,
+  storageMode: TRACKING_CONFIG.STORAGE_MODE,
+  retryBaseDelay: TRACKING_CONFIG.FLUSH_RETRY_BASE_DELAY,
+  retryMaxDelay: TRACKING_CONFIG.FLUSH_RETRY_MAX_DELAY,
+  smoothing: TRACKING_CONFIG.SMOOTHING_ENABLED,
+  smoothingProcessNoise: TRACKING_CONFIG.SMOOTHING_PROCESS_NOISE,
+  accuracyPolicy: DEFAULT_ACCURACY_POLICY,
+  stationaryDetection: DEFAULT_STATIONARY_DETECTION,
+  geolocationOptions: TRACKING_CONFIG.GEOLOCATION_OPTIONS.BATTERY_SAVING,
+};
+
+// ポイントに保存する測位の付加情報
+const MEASUREMENT_KEYS = ['accuracy', 'altitude', 'altitudeAccuracy', 'heading', 'speed'] as const;
+
+// 値のある付加情報だけを取り出す（Firestoreは undefined を保存できない）
+const pickMeasurements = (fix: PositionFix): Partial<GeoPoint> => {
+  const measurements: Partial<GeoPoint> = {};
+  MEASUREMENT_KEYS.forEach((key) => {
+    const value = fix[key];
+    if (value !== undefined && Number.isFinite(value)) {
+      measurements[key] = value;
+    }
+  });
+  return measurements;
+};
+
+// 位置情報を受け付ける状態
+const RECORDING_STATES: TrackingState[] = ['acquiring', 'tracking', 'stationary'];
+
+export function createTrackingEngine({
+  userId,
+  source,
+  sink,
+  config: configOverrides,
+  deviceId,
+  getPriorAreas = () => [],
+  now = Date.now,
+  isOnline = () => navigator.onLine,
+}: TrackingEngineOptions): TrackingEngine {
+  let config: TrackingEngineConfig = { ...DEFAULT_ENGINE_CONFIG, ...configOverrides };
+  const listeners = new Set<TrackingEventListener>();
+  const positionFilter = createPositionFilter({ processNoise: config.smoothingProcessNoise });
+  const accuracyPolicy = createAccuracyPolicy();
+  const stationaryDetector = createStationaryDetector();
+
+  let state: TrackingState = 'idle';
+  let session: TrackingSession | null = null;
+  let lastPosition: { lat: number; lng: number; timestamp: number } | null = null;
+  let batchTimer: ReturnType<typeof setInterval> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let syncStatus: SyncStatus = { state: 'synced', failureCount: 0, nextRetryAt: null };
+  let battery: BatteryState | null = null;
+  // 現在の記録区間にポイントを記録済みか（区間の最初のポイントは距離によらず記録する）
+  let segmentHasPoints = false;
+
+  // プロファイルの位置情報設定に対応する既定の精度モード
+  const baseAccuracyMode = (): AccuracyMode =>
+    config.geolocationOptions.enableHighAccuracy ? 'high' : 'saving';
+
+  let accuracyMode: AccuracyModeState = { mode: baseAccuracyMode(), reason: 'profile' };
+
+  // await を挟んだ後の状態確認用（TypeScriptの絞り込みを避ける）
+  const getState = (): TrackingState => state;
+
+  const emit = (event: TrackingEvent) => {
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const setState = (next: TrackingState) => {
+    if (next === state) return;
+    const previousState = state;
+    state = next;
+    emit({ type: 'state', state, previousState });
+  };
+
+  const setSession = (next: TrackingSession | null) => {
+    session = next;
+    emit({ type: 'session', session });
+  };
+
+  const emitPendingCount = async () => {
+    try {
+      emit({ type: 'pendingCount', count: await sink.getPendingCount() });
+    } catch (error) {
+      console.error('Failed to count pending points:', error);
+    }
+  };
+
+  // 位置情報の妥当性チェック
+  const validateFix = (fix: PositionFix): boolean => {
+    // 1. 精度フィルタリング
+    if (fix.accuracy > config.maxAccuracy) {
+      return false;
+    }
+
+    // 2. 緯度経度の妥当性チェック
+    if (Math.abs(fix.lat) > 90 || Math.abs(fix.lng) > 180) {
+      return false;
+    }
+
+    // 3. 移動速度チェック（前の位置がある場合）
+    if (lastPosition) {
+      const distance = calculateDistance(lastPosition.lat, lastPosition.lng, fix.lat, fix.lng);
+      const timeDiff = (fix.timestamp - lastPosition.timestamp) / 1000; // 秒
+      if (timeDiff > 0 && (distance / timeDiff) * 3.6 > config.maxSpeedKmh) {
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  // 距離ベースの記録判定
+  const shouldRecord = (fix: PositionFix): boolean => {
+    if (!lastPosition || !segmentHasPoints) return true;
+    const distance = calculateDistance(lastPosition.lat, lastPosition.lng, fix.lat, fix.lng);
+    return distance >= config.minDistance;
+  };
+
+  // 現在の精度モードに応じた位置情報の取得設定
+  const currentGeolocationOptions = (): PositionOptions =>
+    config.accuracyPolicy.enabled
+      ? ACCURACY_MODE_OPTIONS[accuracyMode.mode]
+      : config.geolocationOptions;
+
+  // 記録中なら新しい取得設定で位置情報の監視を張り直す
+  const restartSource = () => {
+    if (!RECORDING_STATES.includes(state)) return;
+    source.stop();
+    source.start(handleFix, handleError, currentGeolocationOptions());
+  };
+
+  const setAccuracyMode = (next: AccuracyModeState) => {
+    if (next.mode === accuracyMode.mode && next.reason === accuracyMode.reason) return;
+    const modeChanged = next.mode !== accuracyMode.mode;
+    accuracyMode = next;
+    emit({ type: 'accuracyMode', accuracyMode });
+    if (modeChanged) {
+      restartSource();
+    }
+  };
+
+  // 移動状況・測位精度・電池残量から精度モードを見直す
+  const reevaluateAccuracy = () => {
+    if (!config.accuracyPolicy.enabled) return;
+    setAccuracyMode(
+      accuracyPolicy.evaluate({
+        config: config.accuracyPolicy,
+        baseMode: baseAccuracyMode(),
+        current: accuracyMode,
+        battery,
+        now: now(),
+      })
+    );
+  };
+
+  const handleFix = (rawFix: PositionFix) => {
+    emit({ type: 'fix', fix: rawFix });
+
+    if (!session || !RECORDING_STATES.includes(state)) return;
+    if (!validateFix(rawFix)) return;
+
+    accuracyPolicy.observe(rawFix, config.accuracyPolicy);
+    reevaluateAccuracy();
+
+    if (state === 'acquiring') {
+      setState('tracking');
+    }
+
+    // 静止中は記録せず、滞在地点から離れたら新しい記録区間で再開する
+    if (state === 'stationary') {
+      const stay = session.stayPoints?.[session.stayPoints.length - 1];
+      if (stay && !stationaryDetector.detectDeparture(rawFix, stay, config.stationaryDetection)) {
+        return;
+      }
+      endStay(new Date(rawFix.timestamp));
+      startNewSegment();
+      setState('tracking');
+    } else if (config.stationaryDetection.enabled) {
+      const detected = stationaryDetector.detectStay(rawFix, config.stationaryDetection);
+      if (detected) {
+        beginStay(detected);
+        return;
+      }
+    }
+    if (!session) return;
+
+    // 平滑化した座標で距離判定・記録し、生の座標も保持する
+    const fix = config.smoothing ? positionFilter.filter(rawFix) : rawFix;
+    if (!shouldRecord(fix)) return;
+
+    const point: GeoPoint = {
+      lat: fix.lat,
+      lng: fix.lng,
+      timestamp: new Date(fix.timestamp),
+      raw: { lat: rawFix.lat, lng: rawFix.lng },
+      ...pickMeasurements(rawFix),
+      segment: getSessionSegments(session).length - 1,
+    };
+    lastPosition = { lat: fix.lat, lng: fix.lng, timestamp: fix.timestamp };
+    segmentHasPoints = true;
+
+    emit({ type: 'position', lat: fix.lat, lng: fix.lng });
+    setSession({ ...session, points: [...session.points, point] });
+    emit({ type: 'point', point, sessionId: session.id });
+
+    sink
+      .enqueuePoint(session.id, point)
+      .catch((error) => console.error('Failed to enqueue point:', error))
+      .then(emitPendingCount);
+  };
+
+  const handleError = (error: PositionSourceError) => {
+    emit({ type: 'error', error });
+  };
+
+  // 記録区間・滞在地点の変更を保存（オフライン時に一時停止が止まらないよう完了は待たない）
+  const saveProgress = (next: TrackingSession) => {
+    setSession(next);
+    sink
+      .updateSession(next.id, getSessionProgress(next))
+      .catch((error) => console.error('Failed to update session progress:', error));
+  };
+
+  // 新しい記録区間を開始する（平滑化や判定の履歴は区間をまたがない）
+  const startNewSegment = () => {
+    if (!session) return;
+    saveProgress({
+      ...session,
+      segments: openSegment(getSessionSegments(session), new Date(now())),
+    });
+    positionFilter.reset();
+    accuracyPolicy.reset();
+    stationaryDetector.reset();
+    segmentHasPoints = false;
+  };
+
+  // 静止を検出したら記録区間を閉じ、滞在地点を記録して自動一時停止する
+  const beginStay = (detected: DetectedStay) => {
+    if (!session) return;
+    const { segments, stayPoints } = getSessionProgress(session);
+    saveProgress({
+      ...session,
+      segments: closeSegment(segments, new Date(now())),
+      stayPoints: [
+        ...stayPoints,
+        { lat: detected.lat, lng: detected.lng, startTime: new Date(detected.startTime) },
+      ],
+    });
+    setState('stationary');
+  };
+
+  // 滞在中の地点を閉じる（滞在中でなければ何もしない）
+  const endStay = (endTime: Date) => {
+    if (!session || !hasOpenStayPoint(session.stayPoints ?? [])) return;
+    saveProgress({ ...session, stayPoints: closeStayPoint(session.stayPoints ?? [], endTime) });
+  };
+
+  const setSyncStatus = (next: SyncStatus) => {
+    syncStatus = next;
+    emit({ type: 'sync', status: syncStatus });
+  };
+
+  const clearRetryTimer = () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+
+  // 未送信データを送信する（記録中のセッションがあれば最終記録時刻も更新する）
+  // 失敗したら間隔を倍増させながら再試行し、再試行待ちの間は定期送信（force: false）を見送る
+  const flushPending = async ({ force }: { force: boolean }) => {
+    if (!isOnline()) {
+      // オフライン時は復帰（onlineイベント）まで待つ
+      clearRetryTimer();
+      setSyncStatus({ ...syncStatus, state: 'offline', nextRetryAt: null });
+      await emitPendingCount();
+      return;
+    }
+    if (retryTimer && !force) return;
+    clearRetryTimer();
+
+    setSyncStatus({ ...syncStatus, state: 'syncing', nextRetryAt: null });
+    try {
+      await sink.flush(
+        session ? { sessionId: session.id, lastSeenAt: new Date(now()) } : undefined
+      );
+      setSyncStatus({ state: 'synced', failureCount: 0, nextRetryAt: null });
+    } catch (error) {
+      console.error('Failed to flush pending points:', error);
+      const failureCount = syncStatus.failureCount + 1;
+      const delay = Math.min(config.retryBaseDelay * 2 ** (failureCount - 1), config.retryMaxDelay);
+      retryTimer = setTimeout(() => {
+        retryTimer = null;
+        flushPending({ force: true });
+      }, delay);
+      setSyncStatus({ state: 'error', failureCount, nextRetryAt: now() + delay });
+    }
+    await emitPendingCount();
+  };
+
+  const flush = () => flushPending({ force: true });
+
+  // 位置情報の監視とバッチ送信タイマーを停止
+  const endRecording = () => {
+    source.stop();
+    if (batchTimer) {
+      clearInterval(batchTimer);
+      batchTimer = null;
+    }
+  };
+
+  // 位置情報の監視とバッチ送信タイマーを開始
+  const beginRecording = () => {
+    endRecording();
+    batchTimer = setInterval(() => flushPending({ force: false }), config.batchInterval);
+    // 開始直後に同期的に測位を返すソースもあるため、状態を先に切り替える
+    setState('acquiring');
+    source.start(handleFix, handleError, currentGeolocationOptions());
+  };
+
+  return {
+    getState,
+    getSession: () => session,
+    getAccuracyMode: () => accuracyMode,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    // 初期位置を取得し、以降の妥当性チェックの基準にする
+    acquireInitialPosition() {
+      return new Promise((resolve) => {
+        source.getCurrentPosition(
+          (fix) => {
+            emit({ type: 'fix', fix });
+            if (!validateFix(fix)) {
+              resolve(null);
+              return;
+            }
+            lastPosition = { lat: fix.lat, lng: fix.lng, timestamp: fix.timestamp };
+            emit({ type: 'position', lat: fix.lat, lng: fix.lng });
+            resolve(fix);
+          },
+          () => resolve(null),
+          config.geolocationOptions
+        );
+      });
+    },
+
+    async start() {
+      if (state !== 'idle') return;
+      setState('acquiring');
+
+      const startTime = new Date(now());
+      const newSession: Omit<TrackingSession, 'id' | 'points'> = {
+        userId,
+        startTime,
+        lastSeenAt: startTime,
+        isActive: true,
+        ...(deviceId ? { deviceId } : {}),
+        segments: [{ startTime }],
+        storageMode: config.storageMode,
+        minDistance: config.minDistance,
+        activity: config.activity,
+        explorationRadius: config.explorationRadius,
+      };
+
+      try {
+        positionFilter.reset();
+        accuracyPolicy.reset();
+        stationaryDetector.reset();
+        segmentHasPoints = false;
+        const sessionId = await sink.createSession(newSession);
+
+        // 作成中に停止された場合は作成したセッションをそのまま閉じる
+        if (getState() !== 'acquiring') {
+          const endTime = new Date(now());
+          await sink.finalizeSession(
+            sessionId,
+            endTime,
+            closeSessionProgress(getSessionProgress(newSession), endTime)
+          );
+          return;
+        }
+
+        setSession({ ...newSession, id: sessionId, points: [] });
+        beginRecording();
+      } catch (error) {
+        setState('idle');
+        throw error;
+      }
+    },
+
+    // 既存のセッションを継続して記録する
+    // 一時停止中だったセッションは一時停止のまま、静止中だったセッションは新しい記録区間で再開する
+    resumeSession(existing) {
+      if (state !== 'idle') return;
+      const { segments, stayPoints } = getSessionProgress(existing);
+      positionFilter.reset();
+      accuracyPolicy.reset();
+      stationaryDetector.reset();
+      setSession({ ...existing, segments, stayPoints });
+      // 継続したことを最終記録時刻に反映
+      flush();
+
+      if (hasOpenStayPoint(stayPoints)) {
+        endStay(new Date(now()));
+        startNewSegment();
+      } else if (!hasOpenSegment(segments)) {
+        setState('paused');
+        return;
+      } else {
+        segmentHasPoints = existing.points.some(
+          (point) => (point.segment ?? 0) === segments.length - 1
+        );
+      }
+      beginRecording();
+    },
+
+    // セッションを開いたまま記録を止め、現在の記録区間を閉じる
+    async pause() {
+      if (!RECORDING_STATES.includes(state)) return;
+      endRecording();
+      endStay(new Date(now()));
+      if (session) {
+        saveProgress({
+          ...session,
+          segments: closeSegment(getSessionSegments(session), new Date(now())),
+        });
+      }
+      setState('paused');
+      await flush();
+    },
+
+    // 新しい記録区間を開始して記録を再開する
+    resume() {
+      if (state !== 'paused') return;
+      startNewSegment();
+      beginRecording();
+    },
+
+    // バックグラウンド時はリソース節約のため記録を止め、未送信ポイントを送信
+    // 静止中だった場合は滞在を閉じ、フォアグラウンド復帰時に新しい記録区間で再開する
+    async enterBackground() {
+      if (!RECORDING_STATES.includes(state)) return;
+      endRecording();
+      endStay(new Date(now()));
+      setState('backgrounded');
+      await flush();
+    },
+
+    enterForeground() {
+      if (state !== 'backgrounded') return;
+      if (session && !hasOpenSegment(getSessionSegments(session))) {
+        startNewSegment();
+      }
+      beginRecording();
+    },
+
+    async stop() {
+      if (state === 'idle' || state === 'finalizing') return;
+      endRecording();
+      setState('finalizing');
+
+      const finishing = session;
+      try {
+        // 残りのペンディングポイントを送信してからセッションを終了
+        // （送信できなかった場合、終了処理は保存先が保留して次回の送信時に確定する）
+        await flush();
+        if (finishing) {
+          const endTime = new Date(now());
+          const progress = closeSessionProgress(getSessionProgress(finishing), endTime);
+          // 保存モードによらず、記録中に保持しているポイントから統計を計算して保存する
+          const metrics = calculateSessionMetrics(
+            { ...finishing, ...progress, endTime },
+            getPriorAreas()
+          );
+          await sink.finalizeSession(finishing.id, endTime, progress, metrics);
+        }
+      } finally {
+        setSession(null);
+        setState('idle');
+      }
+    },
+
+    flush,
+
+    // 設定を変更する（位置情報の取得設定が変わった場合は監視を張り直す）
+    updateConfig(overrides) {
+      const previousOptions = currentGeolocationOptions();
+      config = { ...config, ...overrides };
+
+      // プロファイル由来のモードは新しいプロファイルに追従させる
+      if (!config.accuracyPolicy.enabled || accuracyMode.reason === 'profile') {
+        const next: AccuracyModeState = { mode: baseAccuracyMode(), reason: 'profile' };
+        if (next.mode !== accuracyMode.mode || next.reason !== accuracyMode.reason) {
+          accuracyMode = next;
+          emit({ type: 'accuracyMode', accuracyMode });
+        }
+      }
+      reevaluateAccuracy();
+
+      if (JSON.stringify(previousOptions) !== JSON.stringify(currentGeolocationOptions())) {
+        restartSource();
+      }
+    },
+
+    // 電池残量の変化を反映する（取得できない環境では null）
+    setBatteryState(next) {
+      battery = next;
+      reevaluateAccuracy();
+    },
+
+    dispose() {
+      endRecording();
+      clearRetryTimer();
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,14 @@
+// 移動手段ごとのトラッキング設定
+
+export type ActivityType = 'walk' | 'run' | 'bike' | 'custom';
+
+export interface ActivityProfile {
+  type: ActivityType;
+  label: string;
+  icon: string;
+  maxSpeedKmh: number; // 最大許容速度 (km/h)
+  minDistance: number; // 最小記録距離 (m)
+  maxAccuracy: number; // 最大許容精度 (m)
+  explorationRadius: number; // 探索半径 (m)
+  geolocationOptions: PositionOptions;
+}
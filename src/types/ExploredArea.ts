@@ -4,6 +4,7 @@ export interface ExploredArea {
   radius: number; // メートル単位
   timestamp: Date;
   userId: string;
+  sessionId?: string; // 生成元の履歴セッション（セッションの更新・削除時の差分反映に使用）
 }
 
 export interface ExplorationStats {
@@ -13,6 +14,14 @@ export interface ExplorationStats {
   explorationPercentage: number; // 対象エリア内の探索率
 }
 
+// 履歴の読み込み状況
+export interface HistorySyncStatus {
+  isSyncing: boolean;
+  isInitialLoad: boolean; // 初回の全件読み込み中（ページ単位で順次反映）
+  loadedSessions: number; // 読み込み済みのセッション数
+  isLive: boolean; // リアルタイム同期中で、サーバーの最新の状態を反映済み
+}
+
 export interface ExplorationRegion {
   id: string;
   name: string;
@@ -1,7 +1,61 @@
+import type { ActivityType } from './Activity';
+
 export interface GeoPoint {
+  lat: number; // フィルタ適用後の緯度
+  lng: number; // フィルタ適用後の経度
+  timestamp: Date;
+  raw?: { lat: number; lng: number }; // フィルタ適用前の測位座標
+  accuracy?: number; // 測位誤差 (m)
+  altitude?: number; // 高度 (m)
+  altitudeAccuracy?: number; // 高度の誤差 (m)
+  heading?: number; // 進行方向（真北から時計回りの度）
+  speed?: number; // 速度 (m/s)
+  segment?: number; // 記録されたセグメントの番号（未指定は0）
+}
+
+// 静止を検出して自動一時停止した滞在地点
+export interface StayPoint {
+  lat: number; // 滞在中の測位の重心
+  lng: number;
+  startTime: Date;
+  endTime?: Date; // 滞在中は未設定
+  duration?: number; // 滞在時間 (ms)、滞在終了時に設定
+}
+
+// 一時停止で区切られた記録区間
+export interface SessionSegment {
+  startTime: Date;
+  endTime?: Date; // 記録中の区間は未設定
+}
+
+// ポイントの保存モード
+// incremental: ポイントのみ / full: ポイントと探索エリア / areas_only: 探索エリアのみ
+// compact: ポイントを圧縮した文字列で保存する
+export type StorageMode = 'full' | 'areas_only' | 'incremental' | 'compact';
+
+// セッションに保存する探索エリア（半径はセッションの探索半径）
+export interface SessionArea {
   lat: number;
   lng: number;
-  timestamp: Date;
+}
+
+// 保存期間を過ぎて生ポイントを間引いた記録
+export interface SessionRetention {
+  downsampledAt: Date;
+  originalPointCount: number; // 間引く前のポイント数
+  archivePath?: string; // 間引く前のポイントを保存したアーカイブ（Storageのパス）
+}
+
+// セッションの統計（終了時・編集時に計算して保存する）
+export interface SessionMetrics {
+  distance: number; // 記録区間毎の移動距離の合計 (m)
+  elapsedTime: number; // 開始から終了までの時間 (ms)（一時停止中を含む）
+  movingTime: number; // 移動していた時間 (ms)
+  averagePace?: number; // 移動中の平均ペース (秒/km)
+  maxPace?: number; // 最も速かった区間のペース (秒/km)
+  elevationGain?: number; // 獲得標高 (m)（高度を取得できた場合のみ）
+  newArea: number; // それまでに探索していなかったエリアの面積 (m²)
+  revisitedArea: number; // 探索済みのエリアを再び通った面積 (m²)
 }
 
 export interface TrackingSession {
@@ -10,7 +64,36 @@ export interface TrackingSession {
   points: GeoPoint[];
   startTime: Date;
   endTime?: Date;
+  lastSeenAt?: Date; // 記録中に送信の度に更新する最終記録時刻（継続・終了の判定に使用）
+  updatedAt?: Date; // 履歴に影響する最終更新時刻（サーバー時刻、履歴の差分同期に使用）
   isActive: boolean;
-  storageMode?: 'full' | 'areas_only' | 'incremental'; // 保存モード
+  deviceId?: string; // 記録した端末のID
+  segments?: SessionSegment[]; // 記録区間（未指定は開始から終了までの1区間）
+  stayPoints?: StayPoint[]; // 自動一時停止した滞在地点
+  areas?: SessionArea[]; // full・areas_only・間引き済みのセッションで保存する探索エリア
+  retention?: SessionRetention; // 保存期間を過ぎて生ポイントを間引いた場合に設定
+  metrics?: SessionMetrics; // 終了時に計算した統計（未設定の場合は表示時に計算する）
+  storageMode?: StorageMode; // 保存モード
   minDistance?: number; // 最小記録距離（メートル）
+  activity?: ActivityType; // 記録時のアクティビティ（未指定は徒歩）
+  explorationRadius?: number; // 記録時の探索半径（メートル）
+  pointsFormat?: 'inline' | 'chunked'; // ポイントの保存形式（未指定はinline）
+  pointCount?: number; // chunked形式で保存済みのポイント数
+  chunkCount?: number; // chunked形式のチャンク数
+}
+
+// sessions/{id}/points/{seq} に保存するポイントのチャンク
+export interface SessionPointChunk {
+  seq: number; // チャンクの連番（0始まり）
+  points: GeoPoint[];
+}
+
+// storageMode: 'compact' のセッションで保存するチャンク（utils/pointCodec でエンコード）
+export interface EncodedPointChunk {
+  seq: number;
+  encoding: 'polyline6';
+  count: number; // ポイント数
+  path: string; // 緯度経度（1e-6度単位の緯度・経度それぞれの差分）
+  times: string; // 測位時刻（ミリ秒単位の差分）
+  segments: string; // 記録区間の番号（差分）
 }
@@ -1,3 +1,9 @@
+import type { ActivityProfile, ActivityType } from './Activity';
+import type { SessionMetrics, StorageMode } from './GeoPoint';
+import type { RetentionReport } from '../utils/sessionRetention';
+import type { HistorySyncStatus } from './ExploredArea';
+import type { AccuracyModeState, SyncStatus } from './Tracking';
+
 export interface MapHeaderProps {
   // ユーザー情報
   user: {
@@ -7,13 +13,34 @@ export interface MapHeaderProps {
 
   // トラッキング状態
   isTracking: boolean;
+  isPaused: boolean;
+  isStationary: boolean;
+  startError: string | null; // 記録を開始できなかった理由
+
+  // 複数タブ・複数端末
+  isReadOnly: boolean; // 別のタブが記録を担当しているため記録できない
+  isOtherTabTracking: boolean;
+  isOtherDeviceTracking: boolean;
+
+  // アクティビティ
+  activity: ActivityType;
+  customProfile: ActivityProfile;
+
+  // 保存モード
+  storageMode: StorageMode;
 
   // データ表示用
   totalPointsCount: number;
   pendingCount: number;
+  syncStatus: SyncStatus;
+  retentionReport: RetentionReport | null; // 古いポイントの間引きの前回の実行結果
+  historySync: HistorySyncStatus;
+  isLiveSynced: boolean; // 履歴と写真が他の端末の変更まで反映済み
+  sessionMetrics: SessionMetrics | null; // 記録中のセッションの統計
 
   // 位置情報
   lastLocationUpdate: Date | null;
+  accuracyMode: AccuracyModeState | null;
 
   // アップロード状態
   isUploading: boolean;
@@ -24,7 +51,12 @@ export interface MapHeaderProps {
   // イベントハンドラー
   onStartTracking: () => void;
   onStopTracking: () => void;
+  onPauseTracking: () => void;
+  onResumeTracking: () => void;
   onCameraClick: () => void;
   onFileSelect: (event: React.ChangeEvent<HTMLInputElement>) => void;
   onLogout: () => void;
+  onActivityChange: (activity: ActivityType) => void;
+  onCustomProfileChange: (changes: Partial<ActivityProfile>) => void;
+  onStorageModeChange: (storageMode: StorageMode) => void;
 }
@@ -12,6 +12,10 @@ export interface Photo {
   timestamp: Date;
   tags?: string[];
   isPublic: boolean;
+  fileName?: string; // アップロードした元のファイル名
+  fileSize?: number; // 元画像のサイズ (byte)
+  thumbnailSize?: number; // サムネイルのサイズ (byte)
+  createdAt?: Date;
 }
 
 export interface PhotoUploadProgress {
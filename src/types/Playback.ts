@@ -0,0 +1,27 @@
+import type { GeoPoint, TrackingSession } from './GeoPoint';
+
+// 再生の時間軸の区間（セッションの記録区間。区間の間の時間は再生しない）
+export interface PlaybackSpan {
+  session: TrackingSession;
+  start: number; // 区間の開始時刻 (ms)
+  end: number; // 区間の終了時刻 (ms)
+  offset: number; // 再生位置での区間の開始 (ms)
+}
+
+// 再生するセッションを開始時刻順に並べ、記録区間を繋げた時間軸
+export interface PlaybackTimeline {
+  sessions: TrackingSession[];
+  spans: PlaybackSpan[];
+  duration: number; // 再生位置の最大値 (ms)
+}
+
+// 再生するセッションの選び方
+export type PlaybackSource =
+  | { type: 'sessions'; sessionIds: string[] }
+  | { type: 'range'; from: Date; to: Date }; // from の日の0時から to の日の終わりまで
+
+// 再生位置での各セッションの軌跡
+export interface PlaybackTrail {
+  session: TrackingSession;
+  points: GeoPoint[]; // 再生位置までのポイント（末尾は補間した現在位置）
+}
@@ -0,0 +1,129 @@
+import type {
+  GeoPoint,
+  SessionArea,
+  SessionMetrics,
+  SessionRetention,
+  SessionSegment,
+  StayPoint,
+  TrackingSession,
+} from './GeoPoint';
+import type { Photo } from './Photo';
+import type { ActiveDeviceClaim, SessionProgress } from './Tracking';
+
+// 永続化の窓口（repositories/ に Firestore とメモリ上の実装がある）
+// コンポーネント・フックは Firestore を直接扱わず、これらのインターフェースを通して読み書きする
+
+// 監視中のコレクションの変更
+export interface RepositoryChange<T> {
+  type: 'added' | 'modified' | 'removed';
+  item: T;
+  hasPendingWrites: boolean; // 自端末の書き込みがサーバーに未反映か
+}
+
+// 監視中のコレクションのスナップショット（changes は前回のスナップショットからの差分）
+export interface RepositorySnapshot<T> {
+  changes: RepositoryChange<T>[];
+  ids: string[]; // スナップショットに含まれる全てのID
+  fromCache: boolean; // サーバーと同期できていない（オフラインのキャッシュ）か
+  hasPendingWrites: boolean;
+}
+
+export type RepositoryUnsubscribe = () => void;
+
+// 開始時刻の新しい順のページ読み込みの位置
+export interface SessionPageCursor {
+  startTime: Date;
+  id: string;
+}
+
+export interface SessionPage {
+  sessions: TrackingSession[];
+  nextCursor: SessionPageCursor | null; // 最後のページの場合は null
+}
+
+// 新規セッションの内容（ポイントは appendPoints で追加する）
+export type NewTrackingSession = Omit<TrackingSession, 'id' | 'points'>;
+
+// ポイントを全て置き換える際に同時に更新する内容
+// 編集（トリミング・分割・結合）では期間・記録区間・滞在地点・統計も置き換える
+export interface SessionPointsReplacement {
+  areas?: SessionArea[];
+  retention?: SessionRetention;
+  startTime?: Date; // 終了済みのセッションのみ、後ろへずらせる
+  endTime?: Date;
+  segments?: SessionSegment[];
+  stayPoints?: StayPoint[];
+  metrics?: SessionMetrics;
+}
+
+// セッションの読み書き
+// 読み込んだセッションの points は旧形式（インライン配列）のポイントのみで、
+// チャンクに保存されたポイントは loadPoints で読み込む
+// 履歴に影響する書き込みでは updatedAt を更新する（最終記録時刻のみの更新は除く）
+export interface SessionRepository {
+  create(session: NewTrackingSession): Promise<string>;
+  get(sessionId: string): Promise<TrackingSession | null>;
+  listByUser(userId: string): Promise<TrackingSession[]>;
+  listActiveByUser(userId: string): Promise<TrackingSession[]>;
+  listPage(
+    userId: string,
+    cursor: SessionPageCursor | null,
+    pageSize: number
+  ): Promise<SessionPage>;
+  // since より後に更新されたセッション（更新時刻の古い順）
+  listUpdatedSince(userId: string, since: Date | null): Promise<TrackingSession[]>;
+  getLatestUpdatedAt(userId: string): Promise<Date | null>;
+  watchByUser(
+    userId: string,
+    onSnapshot: (snapshot: RepositorySnapshot<TrackingSession>) => void,
+    onError: (error: Error) => void
+  ): RepositoryUnsubscribe;
+
+  updateProgress(sessionId: string, progress: SessionProgress): Promise<void>;
+  touch(sessionId: string, lastSeenAt: Date): Promise<void>;
+  // metrics は記録中のポイントから計算した統計（計算できない場合は省略する）
+  finalize(
+    sessionId: string,
+    endTime: Date,
+    progress: SessionProgress,
+    metrics?: SessionMetrics
+  ): Promise<void>;
+
+  loadPoints(session: TrackingSession): Promise<GeoPoint[]>;
+  loadLastPoint(session: TrackingSession): Promise<GeoPoint | null>;
+  // 送信済みのポイントは除外して追加し、lastSeenAt はポイントと同時に書き込む
+  appendPoints(sessionId: string, points: GeoPoint[], lastSeenAt?: Date): Promise<void>;
+  replacePoints(
+    session: TrackingSession,
+    points: GeoPoint[],
+    replacement?: SessionPointsReplacement
+  ): Promise<void>;
+  // セッションと保存済みのポイントを削除する
+  delete(session: TrackingSession): Promise<void>;
+}
+
+// 写真のメタデータの読み書き（画像ファイルは Storage に保存する）
+export interface PhotoRepository {
+  listByUser(userId: string): Promise<Photo[]>;
+  add(photo: Omit<Photo, 'id'>): Promise<string>;
+  // 写真を撮影したセッションを付け替える（セッションの編集・削除時、null はセッションなし）
+  assignSession(photoId: string, sessionId: string | null): Promise<void>;
+  watchByUser(
+    userId: string,
+    onSnapshot: (snapshot: RepositorySnapshot<Photo>) => void,
+    onError: (error: Error) => void
+  ): RepositoryUnsubscribe;
+}
+
+// ユーザー毎の記録中の端末の宣言の読み書き（端末をまたいだ同時記録の防止）
+export interface ActiveDeviceRepository {
+  // claimedAt は端末間で時計がずれるため、保存時にサーバー時刻を記録する
+  claim(userId: string, claim: Omit<ActiveDeviceClaim, 'claimedAt'>): Promise<void>;
+  // 宣言が deviceId の端末のものである場合のみ取り下げる
+  release(userId: string, deviceId: string): Promise<void>;
+  watch(
+    userId: string,
+    onChange: (claim: ActiveDeviceClaim | null) => void,
+    onError: (error: Error) => void
+  ): RepositoryUnsubscribe;
+}
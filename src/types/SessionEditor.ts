@@ -0,0 +1,22 @@
+import type { TrackingSession } from './GeoPoint';
+
+// 編集中のセッション（分割で追加したセッションは保存時に作成する）
+export interface DraftSession {
+  session: TrackingSession; // 追加したセッションの id は保存までの仮のID
+  isNew: boolean;
+}
+
+// 保存前の編集内容（保存するまで1操作ずつ元に戻せる）
+export interface SessionDraft {
+  sessions: DraftSession[]; // 編集後のセッション（開始時刻順）
+  deletedIds: string[]; // 削除する保存済みのセッション（結合で取り込んだセッションを含む）
+}
+
+// 結合する隣のセッション
+export type MergeDirection = 'previous' | 'next';
+
+// 地図に表示する編集中のポイント
+export interface EditorCursor {
+  sessionId: string;
+  index: number;
+}
@@ -0,0 +1,18 @@
+import type { ActivityType } from './Activity';
+import type { StorageMode } from './GeoPoint';
+
+// 履歴一覧に表示するセッションの概要
+export interface SessionSummary {
+  id: string;
+  startTime: Date;
+  endTime: Date;
+  duration: number; // 記録区間の合計時間 (ms)（一時停止中は含まない）
+  distance: number; // 記録区間毎の移動距離の合計 (m)
+  pointCount: number;
+  photoCount: number;
+  activity: ActivityType;
+  storageMode: StorageMode;
+}
+
+export type SessionSortKey = 'date' | 'duration' | 'distance';
+export type SessionSortOrder = 'asc' | 'desc';
@@ -0,0 +1,186 @@
+import type {
+  GeoPoint,
+  SessionMetrics,
+  SessionSegment,
+  StayPoint,
+  StorageMode,
+  TrackingSession,
+} from './GeoPoint';
+import type { ActivityType } from './Activity';
+
+// トラッキングエンジンの状態
+export type TrackingState =
+  | 'idle' // 記録していない
+  | 'acquiring' // 記録開始・再開直後で位置情報の取得待ち
+  | 'tracking' // 記録中
+  | 'stationary' // 静止を検出して自動一時停止中（移動を検出したら記録を再開）
+  | 'paused' // セッションを開いたまま記録を一時停止中
+  | 'backgrounded' // アプリがバックグラウンドのため記録を停止中
+  | 'finalizing'; // セッションの終了処理中
+
+// 位置情報ソースから届く1回分の測位結果
+export interface PositionFix {
+  lat: number;
+  lng: number;
+  accuracy: number; // メートル
+  timestamp: number; // エポックミリ秒
+  altitude?: number; // 高度 (m)
+  altitudeAccuracy?: number; // 高度の誤差 (m)
+  heading?: number; // 進行方向（真北から時計回りの度）
+  speed?: number; // 速度 (m/s)
+}
+
+export interface PositionSourceError {
+  code: number; // GeolocationPositionError と同じコード体系
+  message: string;
+}
+
+// 位置情報ソースの種類（gps以外は開発用の擬似ソース）
+export type PositionSourceKind = 'gps' | 'replay' | 'random' | 'manual';
+
+// 位置情報の取得元（navigator.geolocation や、テスト用の擬似ソースを差し替え可能にする）
+export interface PositionSource {
+  kind: PositionSourceKind;
+  start(
+    onPosition: (fix: PositionFix) => void,
+    onError: (error: PositionSourceError) => void,
+    options?: PositionOptions
+  ): void;
+  stop(): void;
+  getCurrentPosition(
+    onPosition: (fix: PositionFix) => void,
+    onError: (error: PositionSourceError) => void,
+    options?: PositionOptions
+  ): void;
+}
+
+// 地図クリックで現在位置を動かす開発用ソース
+export interface ManualPositionSource extends PositionSource {
+  kind: 'manual';
+  moveTo(lat: number, lng: number): void;
+}
+
+export interface PositionSourceSelection {
+  kind: PositionSourceKind;
+  speed: number; // リプレイ速度の倍率
+  seed: number; // ランダムウォークの乱数シード
+  trackUrl?: string; // リプレイするGPX/JSONのURL（未指定なら開発メニューで読み込んだトラック）
+  origin: { lat: number; lng: number }; // ランダムウォーク・手動モードの開始位置
+}
+
+// 記録中に更新されるセッションの付随情報
+export interface SessionProgress {
+  segments: SessionSegment[];
+  stayPoints: StayPoint[];
+}
+
+// ユーザー毎に記録中の端末を1つに絞るための宣言（activeDevices/{userId}）
+export interface ActiveDeviceClaim {
+  deviceId: string;
+  sessionId: string;
+  claimedAt: Date; // サーバー時刻（書き込みが未確定の間はこの端末の時刻）
+}
+
+// 記録中のセッションが生きていることを示す最終記録時刻
+export interface SessionHeartbeat {
+  sessionId: string;
+  lastSeenAt: Date;
+}
+
+// 未送信データの送信状態
+export type SyncState =
+  | 'synced' // 送信済み（または未送信のデータを送信できた）
+  | 'syncing' // 送信中
+  | 'offline' // オフラインのため送信待ち
+  | 'error'; // 送信に失敗したため再試行待ち
+
+export interface SyncStatus {
+  state: SyncState;
+  failureCount: number; // 連続して失敗した回数
+  nextRetryAt: number | null; // 次に再試行する時刻（エポックミリ秒）
+}
+
+// 記録したポイントの保存先
+// flush は送信に失敗したら reject し、finalizeSession は送信できない場合に保留して次回の送信時に確定する
+export interface TrackingSink {
+  createSession(session: Omit<TrackingSession, 'id' | 'points'>): Promise<string>;
+  enqueuePoint(sessionId: string, point: GeoPoint): Promise<void>;
+  flush(heartbeat?: SessionHeartbeat): Promise<void>;
+  getPendingCount(): Promise<number>;
+  updateSession(sessionId: string, progress: SessionProgress): Promise<void>;
+  finalizeSession(
+    sessionId: string,
+    endTime: Date,
+    progress: SessionProgress,
+    metrics?: SessionMetrics
+  ): Promise<void>;
+}
+
+// 測位精度のモードと、そのモードを選んだ理由
+export type AccuracyMode = 'high' | 'saving';
+export type AccuracyModeReason =
+  | 'profile' // アクティビティプロファイルの既定値
+  | 'moving_fast' // 移動速度が速い
+  | 'poor_accuracy' // 測位誤差が大きい
+  | 'stationary' // 静止している
+  | 'battery_low'; // バッテリー残量が少ない
+
+export interface AccuracyModeState {
+  mode: AccuracyMode;
+  reason: AccuracyModeReason;
+}
+
+export interface BatteryState {
+  level: number; // 0-1
+  charging: boolean;
+}
+
+export interface AccuracyPolicyConfig {
+  enabled: boolean;
+  fastSpeedKmh: number;
+  poorAccuracy: number; // m
+  stationaryRadius: number; // m
+  stationaryDuration: number; // ms
+  lowBatteryLevel: number; // 0-1
+  minSwitchInterval: number; // ms
+}
+
+export interface StationaryDetectionConfig {
+  enabled: boolean;
+  dwellTime: number; // ms
+  maxDeviation: number; // m
+  minFixes: number;
+  exitDistance: number; // m
+  exitConfirmCount: number;
+}
+
+export interface TrackingEngineConfig {
+  activity: ActivityType; // 新規セッションに記録するアクティビティ
+  explorationRadius: number; // 新規セッションに記録する探索半径 (m)
+  minDistance: number; // 最小記録距離 (m)
+  maxAccuracy: number; // 最大許容精度 (m)
+  maxSpeedKmh: number; // 最大許容速度 (km/h)
+  batchInterval: number; // バッチ保存間隔 (ms)
+  storageMode: StorageMode; // 新規セッションのポイントの保存モード
+  retryBaseDelay: number; // 送信失敗時の再試行間隔の初期値 (ms)
+  retryMaxDelay: number; // 送信失敗時の再試行間隔の上限 (ms)
+  smoothing: boolean; // カルマンフィルタで平滑化するか
+  smoothingProcessNoise: number; // 想定する移動のばらつき (m/s)
+  accuracyPolicy: AccuracyPolicyConfig; // 測位精度の自動切り替え
+  stationaryDetection: StationaryDetectionConfig; // 静止の自動検出
+  geolocationOptions: PositionOptions;
+}
+
+// トラッキングエンジンが発行するイベント
+export type TrackingEvent =
+  | { type: 'state'; state: TrackingState; previousState: TrackingState }
+  | { type: 'fix'; fix: PositionFix } // 妥当性チェック前の全測位結果（生の座標）
+  | { type: 'position'; lat: number; lng: number } // 現在位置の更新
+  | { type: 'point'; point: GeoPoint; sessionId: string } // 記録されたポイント
+  | { type: 'session'; session: TrackingSession | null }
+  | { type: 'pendingCount'; count: number }
+  | { type: 'sync'; status: SyncStatus }
+  | { type: 'accuracyMode'; accuracyMode: AccuracyModeState }
+  | { type: 'error'; error: PositionSourceError };
+
+export type TrackingEventListener = (event: TrackingEvent) => void;
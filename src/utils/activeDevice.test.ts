@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SessionRepository } from '../types/Repository';
+import type { ActiveDeviceClaim } from '../types/Tracking';
+import { createInMemorySessionRepository } from '../repositories/inMemorySessionRepository';
+import { getClaimExpiry } from './activeDevice';
+
+vi.mock('../repositories/defaultRepositories', () => ({ sessionRepository: {} }));
+
+const MINUTE = 60 * 1000;
+const RESUME_WINDOW = 30 * MINUTE;
+const now = Date.UTC(2025, 5, 1, 9);
+
+const createClaimedSession = async (
+  repository: SessionRepository,
+  lastSeenAt: number,
+  isActive = true
+): Promise<ActiveDeviceClaim> => {
+  const sessionId = await repository.create({
+    userId: 'user-1',
+    startTime: new Date(lastSeenAt - 10 * MINUTE),
+    lastSeenAt: new Date(lastSeenAt),
+    isActive,
+    deviceId: 'device-2',
+    storageMode: 'full',
+  });
+  return { deviceId: 'device-2', sessionId, claimedAt: new Date(lastSeenAt - 10 * MINUTE) };
+};
+
+describe('getClaimExpiry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('expires the resume window after the last heartbeat of the claimed session', async () => {
+    const repository = createInMemorySessionRepository();
+    const claim = await createClaimedSession(repository, now - 5 * MINUTE);
+
+    await expect(getClaimExpiry(claim, RESUME_WINDOW, repository)).resolves.toBe(
+      now - 5 * MINUTE + RESUME_WINDOW
+    );
+  });
+
+  it('treats a claim as stale once the device stopped sending heartbeats', async () => {
+    const repository = createInMemorySessionRepository();
+    const claim = await createClaimedSession(repository, now - RESUME_WINDOW - MINUTE);
+
+    await expect(getClaimExpiry(claim, RESUME_WINDOW, repository)).resolves.toBeNull();
+  });
+
+  it('treats a claim as stale when its session has ended or is missing', async () => {
+    const repository = createInMemorySessionRepository();
+    const finished = await createClaimedSession(repository, now - MINUTE, false);
+
+    await expect(getClaimExpiry(finished, RESUME_WINDOW, repository)).resolves.toBeNull();
+    await expect(
+      getClaimExpiry({ ...finished, sessionId: 'missing' }, RESUME_WINDOW, repository)
+    ).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import type { SessionRepository } from '../types/Repository';
+import type { ActiveDeviceClaim } from '../types/Tracking';
+import { MULTI_INSTANCE_CONFIG } from '../constants/tracking';
+import { sessionRepository } from '../repositories/defaultRepositories';
+import { getSessionLastSeen } from './sessionSegments';
+
+// 端末をまたいだ同時記録の防止
+// 記録を開始・継続した端末が activeDevices/{userId} を自分の端末IDで上書きし、
+// 他の端末は上書きを検知したら記録を終了する（宣言の読み書きは ActiveDeviceRepository で行う）
+
+// この端末のID（初回にLocalStorageへ保存し、同じブラウザのタブ間で共有する）
+export function getDeviceId(): string {
+  const stored = localStorage.getItem(MULTI_INSTANCE_CONFIG.DEVICE_ID_STORAGE_KEY);
+  if (stored) return stored;
+
+  const deviceId =
+    typeof crypto.randomUUID === 'function'
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  localStorage.setItem(MULTI_INSTANCE_CONFIG.DEVICE_ID_STORAGE_KEY, deviceId);
+  return deviceId;
+}
+
+// 他の端末で記録中（継続可能時間内に最終記録がある）のセッションID
+export async function findRemoteActiveSession(
+  userId: string,
+  deviceId: string,
+  resumeWindow: number,
+  repository: SessionRepository = sessionRepository
+): Promise<string | null> {
+  const activeSessions = await repository.listActiveByUser(userId);
+  const now = Date.now();
+
+  const remote = activeSessions.find(
+    (session) =>
+      session.deviceId !== undefined &&
+      session.deviceId !== deviceId &&
+      now - getSessionLastSeen(session).getTime() <= resumeWindow
+  );
+  return remote?.id ?? null;
+}
+
+// 宣言した端末がまだ記録中とみなせる期限（既に期限切れの場合は null）
+// 記録中の端末が異常終了すると宣言は残り続けるため、宣言したセッションが終了しておらず、
+// 継続可能時間内に最終記録があるかで判断する（最終記録は記録中に随時更新される）
+export async function getClaimExpiry(
+  claim: ActiveDeviceClaim,
+  resumeWindow: number,
+  repository: SessionRepository = sessionRepository
+): Promise<number | null> {
+  const session = await repository.get(claim.sessionId);
+  if (!session || !session.isActive) return null;
+
+  const expiresAt = getSessionLastSeen(session).getTime() + resumeWindow;
+  return expiresAt > Date.now() ? expiresAt : null;
+}
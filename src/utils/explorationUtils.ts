@@ -1,5 +1,6 @@
-import type { GeoPoint } from '../types/GeoPoint';
+import type { GeoPoint, SessionArea, TrackingSession } from '../types/GeoPoint';
 import type { ExploredArea, ExplorationStats } from '../types/ExploredArea';
+import { TRACKING_CONFIG } from '../constants/tracking';
 
 // 2点間の距離を計算（ハーバサイン公式）
 export function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
@@ -16,13 +17,14 @@ export function calculateDistance(lat1: number, lng1: number, lat2: number, lng2
   return R * c;
 }
 
-// 軌跡から探索済みエリアを生成
+// 軌跡から探索済みエリアを生成（initialAreasを渡すとその続きとして生成）
 export function generateExploredAreas(
   points: GeoPoint[],
   userId: string,
-  explorationRadius: number = 25
+  explorationRadius: number = TRACKING_CONFIG.EXPLORATION_RADIUS,
+  initialAreas: ExploredArea[] = []
 ): ExploredArea[] {
-  const areas: ExploredArea[] = [];
+  const areas: ExploredArea[] = [...initialAreas];
   const minDistance = explorationRadius * 0.3; // より小さな最小距離（15m）
 
   points.forEach((point) => {
@@ -47,12 +49,98 @@ export function generateExploredAreas(
   return areas;
 }
 
+// 探索エリアの生成元になるセッションの位置
+// エリアを保存しているセッションは保存済みのエリア（間引き済みのポイントからは元のエリアを再現できない）
+export function getSessionAreaPoints(session: TrackingSession): GeoPoint[] {
+  if (!session.areas || session.areas.length === 0) return session.points ?? [];
+  return session.areas.map((area) => ({
+    lat: area.lat,
+    lng: area.lng,
+    timestamp: session.startTime,
+  }));
+}
+
+// セッションのポイントから生成したエリアを生成元のセッションIDを付けて追加
+const appendSessionAreas = (
+  areas: ExploredArea[],
+  points: GeoPoint[],
+  session: TrackingSession,
+  userId: string
+): ExploredArea[] => {
+  const generated = generateExploredAreas(
+    points,
+    userId,
+    session.explorationRadius ?? TRACKING_CONFIG.EXPLORATION_RADIUS,
+    areas
+  );
+  return [
+    ...areas,
+    ...generated.slice(areas.length).map((area) => ({ ...area, sessionId: session.id })),
+  ];
+};
+
+// セッションの探索エリアを既存のエリアに追加（セッション毎の探索半径を反映する）
+// 保存モードの異なるセッションが混在していても同じ間隔のエリアになる
+export function addSessionExploredAreas(
+  areas: ExploredArea[],
+  session: TrackingSession,
+  userId: string
+): ExploredArea[] {
+  return appendSessionAreas(areas, getSessionAreaPoints(session), session, userId);
+}
+
+// セッションの探索エリアを取り除く（セッションの更新・削除時）
+// 取り除いたエリアと重なっていたために生成されなかった他のセッションのエリアを補う
+export function removeSessionExploredAreas(
+  areas: ExploredArea[],
+  sessionIds: Set<string>,
+  otherSessions: TrackingSession[],
+  userId: string
+): ExploredArea[] {
+  const removed = areas.filter((area) => area.sessionId && sessionIds.has(area.sessionId));
+  if (removed.length === 0) return areas;
+
+  const remaining = areas.filter((area) => !area.sessionId || !sessionIds.has(area.sessionId));
+  return otherSessions.reduce((result, session) => {
+    const minDistance = (session.explorationRadius ?? TRACKING_CONFIG.EXPLORATION_RADIUS) * 0.3;
+    const nearbyPoints = getSessionAreaPoints(session).filter((point) =>
+      removed.some(
+        (area) => calculateDistance(area.lat, area.lng, point.lat, point.lng) < minDistance
+      )
+    );
+    return nearbyPoints.length > 0
+      ? appendSessionAreas(result, nearbyPoints, session, userId)
+      : result;
+  }, remaining);
+}
+
+// セッションに保存する探索エリアに新しいポイントのエリアを追加
+export function extendSessionAreas(
+  areas: SessionArea[],
+  points: GeoPoint[],
+  explorationRadius: number = TRACKING_CONFIG.EXPLORATION_RADIUS
+): SessionArea[] {
+  const result = [...areas];
+  const minDistance = explorationRadius * 0.3;
+
+  points.forEach((point) => {
+    const hasNearbyArea = result.some(
+      (area) => calculateDistance(area.lat, area.lng, point.lat, point.lng) < minDistance
+    );
+    if (!hasNearbyArea) {
+      result.push({ lat: point.lat, lng: point.lng });
+    }
+  });
+
+  return result;
+}
+
 // 増分更新用：新しいポイントを既存エリアに追加
 export function addPointToExploredAreas(
   existingAreas: ExploredArea[],
   newPoint: GeoPoint,
   userId: string,
-  explorationRadius: number = 25
+  explorationRadius: number = TRACKING_CONFIG.EXPLORATION_RADIUS
 ): ExploredArea[] {
   const minDistance = explorationRadius * 0.3;
 
@@ -103,7 +191,7 @@ export function formatArea(areaInSquareMeters: number): string {
   if (areaInSquareMeters < 1000) {
     return `${Math.round(areaInSquareMeters)}m²`;
   } else if (areaInSquareMeters < 1000000) {
-    return `${(areaInSquareMeters / 1000).toFixed(1)}km²`;
+    return `${(areaInSquareMeters / 1000000).toFixed(3)}km²`;
   } else {
     return `${(areaInSquareMeters / 1000000).toFixed(2)}km²`;
   }
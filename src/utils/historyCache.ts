@@ -0,0 +1,73 @@
+import type { TrackingSession } from '../types/GeoPoint';
+import type { ExploredArea } from '../types/ExploredArea';
+import type { Photo } from '../types/Photo';
+import {
+  IDB_STORES,
+  isIndexedDbAvailable,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from './indexedDb';
+
+// 履歴・写真メタデータのユーザー毎の永続キャッシュ（起動直後にFirestoreを待たずに表示するため）
+// IndexedDB が使えない環境ではキャッシュしない
+
+export interface HistoryCacheEntry {
+  userId: string;
+  sessions: TrackingSession[];
+  exploredAreas: ExploredArea[]; // sessions から生成済みの探索エリア
+  lastSyncAt: number | null; // 同期済みの更新時刻（サーバー時刻のエポックミリ秒）
+  savedAt: number;
+}
+
+interface PhotoCacheEntry {
+  userId: string;
+  photos: Photo[];
+  savedAt: number;
+}
+
+const readEntry = async <T>(storeName: string, userId: string): Promise<T | null> => {
+  if (!isIndexedDbAvailable()) return null;
+
+  const db = await openDatabase();
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  const entry = await requestToPromise(store.get(userId) as IDBRequest<T | undefined>);
+  return entry ?? null;
+};
+
+const writeEntry = async <T extends { userId: string }>(storeName: string, entry: T) => {
+  if (!isIndexedDbAvailable()) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).put(entry);
+  await transactionDone(tx);
+};
+
+export function loadHistoryCache(userId: string): Promise<HistoryCacheEntry | null> {
+  return readEntry<HistoryCacheEntry>(IDB_STORES.HISTORY_CACHE, userId);
+}
+
+export function saveHistoryCache(entry: Omit<HistoryCacheEntry, 'savedAt'>): Promise<void> {
+  return writeEntry(IDB_STORES.HISTORY_CACHE, { ...entry, savedAt: Date.now() });
+}
+
+export async function loadPhotoCache(userId: string): Promise<Photo[] | null> {
+  const entry = await readEntry<PhotoCacheEntry>(IDB_STORES.PHOTO_CACHE, userId);
+  return entry?.photos ?? null;
+}
+
+export function savePhotoCache(userId: string, photos: Photo[]): Promise<void> {
+  return writeEntry(IDB_STORES.PHOTO_CACHE, { userId, photos, savedAt: Date.now() });
+}
+
+// 全ユーザーのキャッシュを削除（ログアウト時）
+export async function clearHistoryCaches(): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction([IDB_STORES.HISTORY_CACHE, IDB_STORES.PHOTO_CACHE], 'readwrite');
+  tx.objectStore(IDB_STORES.HISTORY_CACHE).clear();
+  tx.objectStore(IDB_STORES.PHOTO_CACHE).clear();
+  await transactionDone(tx);
+}
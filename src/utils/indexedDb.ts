@@ -0,0 +1,87 @@
+// IndexedDB の共通ラッパー
+
+const DB_NAME = 'footpath';
+const DB_VERSION = 3;
+
+export const IDB_STORES = {
+  PENDING_POINTS: 'pendingPoints', // 未送信の位置情報キュー
+  HISTORY_CACHE: 'historyCache', // ユーザー毎の履歴（セッション・探索エリア）のキャッシュ
+  PHOTO_CACHE: 'photoCache', // ユーザー毎の写真メタデータのキャッシュ
+} as const;
+
+// 未送信ポイントのユーザー毎の索引
+export const PENDING_POINTS_USER_INDEX = 'userId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// IndexedDB が利用可能か判定
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+// データベースを開く（接続は使い回す）
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(IDB_STORES.PENDING_POINTS)) {
+        // autoIncrement のキーで記録順を保持する
+        db.createObjectStore(IDB_STORES.PENDING_POINTS, { keyPath: 'id', autoIncrement: true });
+      }
+      // v3: 未送信ポイントをユーザー毎に取り出す索引（同じユーザーの中では記録順に並ぶ）
+      const pendingPoints = request.transaction?.objectStore(IDB_STORES.PENDING_POINTS);
+      if (pendingPoints && !pendingPoints.indexNames.contains(PENDING_POINTS_USER_INDEX)) {
+        pendingPoints.createIndex(PENDING_POINTS_USER_INDEX, 'userId');
+      }
+      // v2: 履歴・写真のキャッシュ
+      if (!db.objectStoreNames.contains(IDB_STORES.HISTORY_CACHE)) {
+        db.createObjectStore(IDB_STORES.HISTORY_CACHE, { keyPath: 'userId' });
+      }
+      if (!db.objectStoreNames.contains(IDB_STORES.PHOTO_CACHE)) {
+        db.createObjectStore(IDB_STORES.PHOTO_CACHE, { keyPath: 'userId' });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // 他のタブがバージョンを上げる場合は接続を閉じ、アップグレードを妨げない
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    // 古いバージョンの接続が閉じられずアップグレードできない場合は待たずに失敗とする
+    request.onblocked = () => {
+      dbPromise = null;
+      reject(new Error('IndexedDB upgrade is blocked by another connection'));
+    };
+  });
+
+  return dbPromise;
+}
+
+// IDBRequest を Promise に変換
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// トランザクション完了を待つ
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,57 @@
+import type { SessionMetrics } from '../types/GeoPoint';
+import type { SessionProgress } from '../types/Tracking';
+import { convertSegmentTimestamps, convertStayPointTimestamps } from '../repositories/converters';
+
+// 送信できなかったセッション終了処理の保留（LocalStorageに永続化し、次回の送信時に確定する）
+// 同じ端末で別のユーザーがログインしても確定しないよう、ユーザー毎のキーに保存する
+
+export interface PendingFinalization {
+  sessionId: string;
+  endTime: Date;
+  progress: SessionProgress;
+  metrics?: SessionMetrics;
+}
+
+const storageKey = (userId: string) => `footpath_pending_finalizations_${userId}`;
+
+export function getPendingFinalizations(userId: string): PendingFinalization[] {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    if (!stored) return [];
+    return (JSON.parse(stored) as PendingFinalization[]).map((item) => ({
+      sessionId: item.sessionId,
+      endTime: new Date(item.endTime),
+      progress: {
+        segments: convertSegmentTimestamps(item.progress.segments) ?? [],
+        stayPoints: convertStayPointTimestamps(item.progress.stayPoints) ?? [],
+      },
+      ...(item.metrics ? { metrics: item.metrics } : {}),
+    }));
+  } catch (error) {
+    console.error('Failed to load pending finalizations:', error);
+    return [];
+  }
+}
+
+const saveAll = (userId: string, items: PendingFinalization[]) => {
+  if (items.length === 0) {
+    localStorage.removeItem(storageKey(userId));
+  } else {
+    localStorage.setItem(storageKey(userId), JSON.stringify(items));
+  }
+};
+
+// 保留に追加（同じセッションは新しい内容で置き換える）
+export function addPendingFinalization(userId: string, item: PendingFinalization): void {
+  saveAll(userId, [
+    ...getPendingFinalizations(userId).filter((x) => x.sessionId !== item.sessionId),
+    item,
+  ]);
+}
+
+export function removePendingFinalization(userId: string, sessionId: string): void {
+  saveAll(
+    userId,
+    getPendingFinalizations(userId).filter((item) => item.sessionId !== sessionId)
+  );
+}
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GeoPoint } from '../types/GeoPoint';
+
+const point: GeoPoint = { lat: 35.68, lng: 139.76, timestamp: new Date(Date.UTC(2025, 5, 1, 9)) };
+
+// open の要求に対して指定したイベントだけを返す IndexedDB
+const createUnopenableIndexedDb = (event: 'onerror' | 'onblocked') => ({
+  open: vi.fn(() => {
+    const request: Partial<Record<'onerror' | 'onblocked', () => void>> & { error: Error } = {
+      error: new Error('Database could not be opened'),
+    };
+    setTimeout(() => request[event]?.());
+    return request;
+  }),
+});
+
+// 接続・フォールバックの状態はモジュールが保持するため、テスト毎に読み込み直す
+const loadQueue = () => import('./pendingPointsQueue');
+
+describe('pendingPointsQueue', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it.each(['onerror', 'onblocked'] as const)(
+    'falls back to the in-memory queue when opening IndexedDB fires %s',
+    async (event) => {
+      const indexedDb = createUnopenableIndexedDb(event);
+      vi.stubGlobal('indexedDB', indexedDb);
+      const queue = await loadQueue();
+
+      await queue.enqueuePendingPoint('user-1', 'session-1', point);
+      await queue.enqueuePendingPoint('user-2', 'session-2', point);
+      expect(await queue.countPendingPoints('user-1')).toBe(1);
+
+      const pending = await queue.getPendingPoints('user-1');
+      expect(pending).toEqual([{ id: 1, userId: 'user-1', sessionId: 'session-1', point }]);
+
+      await queue.removePendingPoints(pending.map((item) => item.id));
+      expect(await queue.countPendingPoints('user-1')).toBe(0);
+      expect(await queue.countPendingPoints('user-2')).toBe(1);
+
+      // 一度失敗したら開き直さず、メモリ上のキューを使い続ける
+      expect(indexedDb.open).toHaveBeenCalledTimes(1);
+    }
+  );
+});
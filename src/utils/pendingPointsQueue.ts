@@ -0,0 +1,116 @@
+import type { GeoPoint } from '../types/GeoPoint';
+import {
+  IDB_STORES,
+  PENDING_POINTS_USER_INDEX,
+  isIndexedDbAvailable,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from './indexedDb';
+
+// 未送信ポイントのキュー（IndexedDBに永続化し、クラッシュやリロードでも失わない）
+// 同じ端末で別のユーザーがログインしても送信しないよう、ユーザー毎に取り出す
+// （ログアウトしたユーザーのポイントは、そのユーザーが再びログインした時に送信する）
+
+export interface QueuedPoint {
+  id: number;
+  userId: string;
+  sessionId: string;
+  point: GeoPoint;
+}
+
+// IndexedDB が使えない環境・開けない場合のメモリ上フォールバック
+const memoryQueue: QueuedPoint[] = [];
+let memoryId = 0;
+// 一度開けなかった場合は、キューが分かれないよう以降もメモリ上のキューを使う
+let useMemoryQueue = false;
+
+// キューのデータベースを開く（メモリ上のキューを使う場合は null）
+const openQueueDatabase = async (): Promise<IDBDatabase | null> => {
+  if (useMemoryQueue || !isIndexedDbAvailable()) return null;
+
+  try {
+    return await openDatabase();
+  } catch (error) {
+    console.error('Failed to open IndexedDB, falling back to in-memory queue:', error);
+    useMemoryQueue = true;
+    return null;
+  }
+};
+
+// ポイントをキューに追加
+export async function enqueuePendingPoint(
+  userId: string,
+  sessionId: string,
+  point: GeoPoint
+): Promise<void> {
+  const db = await openQueueDatabase();
+  if (!db) {
+    memoryQueue.push({ id: ++memoryId, userId, sessionId, point });
+    return;
+  }
+
+  const tx = db.transaction(IDB_STORES.PENDING_POINTS, 'readwrite');
+  tx.objectStore(IDB_STORES.PENDING_POINTS).add({ userId, sessionId, point });
+  await transactionDone(tx);
+}
+
+// ユーザー毎の索引を開く（メモリ上のキューを使う場合は null）
+const openUserIndex = async () => {
+  const db = await openQueueDatabase();
+  return db
+    ? db
+        .transaction(IDB_STORES.PENDING_POINTS, 'readonly')
+        .objectStore(IDB_STORES.PENDING_POINTS)
+        .index(PENDING_POINTS_USER_INDEX)
+    : null;
+};
+
+// ユーザーのキュー内のポイントを記録順に取得（limit 指定時は先頭から指定数まで）
+export async function getPendingPoints(userId: string, limit?: number): Promise<QueuedPoint[]> {
+  const index = await openUserIndex();
+  if (!index) {
+    return memoryQueue.filter((item) => item.userId === userId).slice(0, limit);
+  }
+
+  return requestToPromise(index.getAll(userId, limit) as IDBRequest<QueuedPoint[]>);
+}
+
+// 送信済み・送信できないポイントをキューから削除
+export async function removePendingPoints(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const db = await openQueueDatabase();
+  if (!db) {
+    const idSet = new Set(ids);
+    const remaining = memoryQueue.filter((item) => !idSet.has(item.id));
+    memoryQueue.splice(0, memoryQueue.length, ...remaining);
+    return;
+  }
+
+  const tx = db.transaction(IDB_STORES.PENDING_POINTS, 'readwrite');
+  const store = tx.objectStore(IDB_STORES.PENDING_POINTS);
+  ids.forEach((id) => store.delete(id));
+  await transactionDone(tx);
+}
+
+// ユーザーのキュー内のポイント数を取得
+export async function countPendingPoints(userId: string): Promise<number> {
+  const index = await openUserIndex();
+  if (!index) {
+    return memoryQueue.filter((item) => item.userId === userId).length;
+  }
+
+  return requestToPromise(index.count(userId));
+}
+
+// セッション毎に記録順を保ったままグループ化
+export function groupBySession(items: QueuedPoint[]): Map<string, QueuedPoint[]> {
+  const groups = new Map<string, QueuedPoint[]>();
+  items.forEach((item) => {
+    const group = groups.get(item.sessionId) || [];
+    group.push(item);
+    groups.set(item.sessionId, group);
+  });
+  return groups;
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
+import type { ExploredArea } from '../types/ExploredArea';
+import {
+  countRevealedAreas,
+  createPlaybackTimeline,
+  getPlaybackPosition,
+  getPlaybackTime,
+  getPlayedPoints,
+  sortAreasByTime,
+  spreadSessionAreaTimes,
+} from './playbackTimeline';
+
+const MINUTE = 60 * 1000;
+const start = Date.UTC(2025, 5, 1, 9);
+const at = (minutes: number) => new Date(start + minutes * MINUTE);
+
+const point = (minutes: number, lat: number, segment?: number): GeoPoint => ({
+  lat,
+  lng: 139.76,
+  timestamp: at(minutes),
+  segment,
+});
+
+// 0〜4分と6〜10分の2区間で記録したセッション
+const paused: TrackingSession = {
+  id: 'paused',
+  userId: 'user-1',
+  points: [point(0, 35.68, 0), point(4, 35.684, 0), point(6, 35.69, 1), point(10, 35.694, 1)],
+  startTime: at(0),
+  endTime: at(10),
+  isActive: false,
+  segments: [
+    { startTime: at(0), endTime: at(4) },
+    { startTime: at(6), endTime: at(10) },
+  ],
+};
+
+// 60分に開始し、終了時刻がなく62分の最後のポイントで終わるセッション
+const unfinished: TrackingSession = {
+  id: 'unfinished',
+  userId: 'user-1',
+  points: [point(60, 35.7), point(62, 35.702)],
+  startTime: at(60),
+  isActive: false,
+};
+
+describe('createPlaybackTimeline', () => {
+  it('joins the recorded segments of the sessions in start order', () => {
+    const timeline = createPlaybackTimeline([unfinished, paused]);
+
+    expect(timeline.sessions.map(({ id }) => id)).toEqual(['paused', 'unfinished']);
+    expect(timeline.spans.map(({ start, end, offset }) => ({ start, end, offset }))).toEqual([
+      { start: at(0).getTime(), end: at(4).getTime(), offset: 0 },
+      { start: at(6).getTime(), end: at(10).getTime(), offset: 4 * MINUTE },
+      { start: at(60).getTime(), end: at(62).getTime(), offset: 8 * MINUTE },
+    ]);
+    expect(timeline.duration).toBe(10 * MINUTE);
+  });
+
+  it('is empty without sessions', () => {
+    const timeline = createPlaybackTimeline([]);
+    expect(timeline.duration).toBe(0);
+    expect(getPlaybackTime(timeline, 0)).toBeNull();
+    expect(getPlaybackPosition(timeline, at(0))).toBeNull();
+  });
+});
+
+describe('getPlaybackTime', () => {
+  const timeline = createPlaybackTimeline([paused, unfinished]);
+
+  it('skips pauses and the time between sessions', () => {
+    expect(getPlaybackTime(timeline, 0)).toEqual(at(0));
+    expect(getPlaybackTime(timeline, 3 * MINUTE)).toEqual(at(3));
+    expect(getPlaybackTime(timeline, 4 * MINUTE)).toEqual(at(6));
+    expect(getPlaybackTime(timeline, 9 * MINUTE)).toEqual(at(61));
+  });
+
+  it('stops at the end of the timeline', () => {
+    expect(getPlaybackTime(timeline, 20 * MINUTE)).toEqual(at(62));
+  });
+});
+
+describe('getPlaybackPosition', () => {
+  const timeline = createPlaybackTimeline([paused, unfinished]);
+
+  it('maps recorded times back onto the timeline', () => {
+    expect(getPlaybackPosition(timeline, at(3))).toBe(3 * MINUTE);
+    expect(getPlaybackPosition(timeline, at(61))).toBe(9 * MINUTE);
+  });
+
+  it('moves times outside the segments to the start of the next segment', () => {
+    expect(getPlaybackPosition(timeline, at(5))).toBe(4 * MINUTE);
+    expect(getPlaybackPosition(timeline, at(30))).toBe(8 * MINUTE);
+  });
+
+  it('returns null outside the timeline', () => {
+    expect(getPlaybackPosition(timeline, at(-1))).toBeNull();
+    expect(getPlaybackPosition(timeline, at(63))).toBeNull();
+  });
+});
+
+describe('getPlayedPoints', () => {
+  it('adds an interpolated head between two points of the same segment', () => {
+    const played = getPlayedPoints(paused.points, at(1));
+    expect(played).toHaveLength(2);
+    expect(played[1].lat).toBeCloseTo(35.681, 6);
+    expect(played[1].timestamp).toEqual(at(1));
+  });
+
+  it('does not interpolate across segments or past the last point', () => {
+    expect(getPlayedPoints(paused.points, at(5))).toEqual(paused.points.slice(0, 2));
+    expect(getPlayedPoints(paused.points, at(20))).toEqual(paused.points);
+  });
+
+  it('plays nothing before the first point', () => {
+    expect(getPlayedPoints(paused.points, at(-1))).toEqual([]);
+  });
+});
+
+describe('countRevealedAreas', () => {
+  it('counts the areas explored up to the time', () => {
+    const area = (minutes: number): ExploredArea => ({
+      lat: 35.68,
+      lng: 139.76,
+      radius: 25,
+      timestamp: at(minutes),
+      userId: 'user-1',
+    });
+    const sorted = sortAreasByTime([area(5), area(1), area(3)]);
+
+    expect(sorted.map(({ timestamp }) => timestamp)).toEqual([at(1), at(3), at(5)]);
+    expect(countRevealedAreas(sorted, at(0))).toBe(0);
+    expect(countRevealedAreas(sorted, at(3))).toBe(2);
+    expect(countRevealedAreas(sorted, at(10))).toBe(3);
+  });
+});
+
+describe('spreadSessionAreaTimes', () => {
+  const area = (sessionId: string, minutes: number): ExploredArea => ({
+    lat: 35.68,
+    lng: 139.76,
+    radius: 25,
+    timestamp: at(minutes),
+    userId: 'user-1',
+    sessionId,
+  });
+
+  it('spreads the areas of a session saved as areas over its recorded segments', () => {
+    const areasOnly: TrackingSession = {
+      ...paused,
+      points: [],
+      areas: Array.from({ length: 4 }, (_, i) => ({ lat: 35.68 + i * 0.001, lng: 139.76 })),
+    };
+    const areas = [0, 1, 2, 3].map(() => area('paused', 0));
+
+    expect(spreadSessionAreaTimes(areas, [areasOnly]).map(({ timestamp }) => timestamp)).toEqual([
+      at(0),
+      at(2),
+      at(4),
+      at(8),
+    ]);
+  });
+
+  it('keeps the times of areas generated from points', () => {
+    const areas = [area('paused', 0), area('paused', 4), area('unfinished', 60)];
+
+    expect(spreadSessionAreaTimes(areas, [paused, unfinished])).toEqual(areas);
+  });
+});
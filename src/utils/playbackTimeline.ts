@@ -0,0 +1,153 @@
+import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
+import type { ExploredArea } from '../types/ExploredArea';
+import type { PlaybackSpan, PlaybackTimeline } from '../types/Playback';
+import { getSessionEnd, getSessionSegments } from './sessionSegments';
+
+// セッションの再生の時間軸
+// 再生位置 (ms) は記録区間だけを繋げた時間で、セッションの間や一時停止中の時間は飛ばす
+
+// 時刻順に並んだ配列で、時刻が time 以下の要素の数
+const countUntil = <T>(items: T[], time: number, timeOf: (item: T) => number): number => {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (timeOf(items[middle]) <= time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+// 再生するセッションの時間軸を作る
+export function createPlaybackTimeline(sessions: TrackingSession[]): PlaybackTimeline {
+  const sorted = [...sessions].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const spans: PlaybackSpan[] = [];
+  let offset = 0;
+
+  sorted.forEach((session) => {
+    const endTime = getSessionEnd(session);
+    getSessionSegments({ ...session, endTime }).forEach((segment) => {
+      const start = segment.startTime.getTime();
+      const end = Math.max(start, (segment.endTime ?? endTime).getTime());
+      spans.push({ session, start, end, offset });
+      offset += end - start;
+    });
+  });
+
+  return { sessions: sorted, spans, duration: offset };
+}
+
+// 再生位置の時刻
+export function getPlaybackTime(timeline: PlaybackTimeline, position: number): Date | null {
+  const { spans } = timeline;
+  if (spans.length === 0) return null;
+  const index = Math.max(0, countUntil(spans, position, (span) => span.offset) - 1);
+  const span = spans[index];
+  return new Date(Math.min(span.end, span.start + Math.max(0, position - span.offset)));
+}
+
+// 時刻の再生位置（記録区間の外の時刻は次の区間の開始位置、時間軸の外は null）
+export function getPlaybackPosition(timeline: PlaybackTimeline, time: Date): number | null {
+  const { spans } = timeline;
+  const target = time.getTime();
+  if (spans.length === 0 || target < spans[0].start) return null;
+  const span = spans.find(({ end }) => end >= target);
+  return span ? span.offset + Math.max(0, target - span.start) : null;
+}
+
+// 時刻までに記録したポイント（時刻が次のポイントとの間なら、同じ区間の範囲で補間した位置を末尾に加える）
+export function getPlayedPoints(points: GeoPoint[], time: Date): GeoPoint[] {
+  const target = time.getTime();
+  const count = countUntil(points, target, (point) => point.timestamp.getTime());
+  const played = points.slice(0, count);
+  const last = points[count - 1];
+  const next = points[count];
+  if (!last || !next || (last.segment ?? 0) !== (next.segment ?? 0)) return played;
+
+  const ratio =
+    (target - last.timestamp.getTime()) /
+    Math.max(1, next.timestamp.getTime() - last.timestamp.getTime());
+  if (ratio <= 0) return played;
+  return [
+    ...played,
+    {
+      lat: last.lat + (next.lat - last.lat) * ratio,
+      lng: last.lng + (next.lng - last.lng) * ratio,
+      timestamp: time,
+      segment: last.segment,
+    },
+  ];
+}
+
+// 記録区間を通した経過時間 elapsed (ms) の時刻（区間の合計を超える場合は最後の区間の終了時刻）
+const getRecordedTime = (segments: { start: number; end: number }[], elapsed: number): number => {
+  let remaining = elapsed;
+  for (const { start, end } of segments) {
+    if (remaining <= end - start) return start + remaining;
+    remaining -= end - start;
+  }
+  return segments[segments.length - 1].end;
+};
+
+// 保存済みのエリアから生成した探索エリア（探索エリアのみ保存・間引き済みのセッション）に表示する時刻を割り振る
+// これらのエリアは通った時刻を持たず、どれもセッションの開始時刻になっているため、
+// 生成された順（記録した順）にセッションの記録区間の時間へ均等に割り振る（実際に通った時刻とは一致しない）
+export function spreadSessionAreaTimes(
+  areas: ExploredArea[],
+  sessions: TrackingSession[]
+): ExploredArea[] {
+  const sessionById = new Map(
+    sessions
+      .filter((session) => session.areas && session.areas.length > 0)
+      .map((session) => [session.id, session])
+  );
+  const sourceOf = (area: ExploredArea) => {
+    const session = area.sessionId ? sessionById.get(area.sessionId) : undefined;
+    return session && area.timestamp.getTime() === session.startTime.getTime()
+      ? session
+      : undefined;
+  };
+
+  const counts = new Map<TrackingSession, number>();
+  areas.forEach((area) => {
+    const session = sourceOf(area);
+    if (session) counts.set(session, (counts.get(session) ?? 0) + 1);
+  });
+
+  const recordedSegments = new Map(
+    [...counts.keys()].map((session) => {
+      const endTime = getSessionEnd(session);
+      const segments = getSessionSegments({ ...session, endTime }).map((segment) => {
+        const start = segment.startTime.getTime();
+        return { start, end: Math.max(start, (segment.endTime ?? endTime).getTime()) };
+      });
+      return [session, segments];
+    })
+  );
+
+  const indices = new Map<TrackingSession, number>();
+  return areas.map((area) => {
+    const session = sourceOf(area);
+    const segments = session && recordedSegments.get(session);
+    if (!session || !segments) return area;
+
+    const index = indices.get(session) ?? 0;
+    indices.set(session, index + 1);
+    const recorded = segments.reduce((total, { start, end }) => total + end - start, 0);
+    const elapsed = (recorded * index) / (counts.get(session) ?? 1);
+    return { ...area, timestamp: new Date(getRecordedTime(segments, elapsed)) };
+  });
+}
+
+// 探索エリアを生成された時刻順に並べる（再生中はこの順に先頭から表示する）
+export function sortAreasByTime(areas: ExploredArea[]): ExploredArea[] {
+  return [...areas].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+// 時刻までに探索したエリアの数（sortAreasByTime で並べた先頭からの数）
+export function countRevealedAreas(sortedAreas: ExploredArea[], time: Date): number {
+  return countUntil(sortedAreas, time.getTime(), (area) => area.timestamp.getTime());
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { GeoPoint } from '../types/GeoPoint';
+import { decodePointChunk, encodePointChunk } from './pointCodec';
+
+const start = Date.UTC(2025, 5, 1, 9);
+
+// 南西・北東に行き来する経路（緯度と経度が逆向きに動く区間を含む）
+const points: GeoPoint[] = Array.from({ length: 40 }, (_, i) => ({
+  lat: 35.681236 + Math.sin(i / 3) * 0.0012 + i * 1.23e-7,
+  lng: 139.767125 - Math.cos(i / 4) * 0.0015 - i * 4.56e-7,
+  // 同じ秒に複数の測位がある場合を含める
+  timestamp: new Date(start + i * 450 + (i % 3) * 7),
+  ...(i >= 20 ? { segment: 1 } : {}),
+}));
+
+describe('pointCodec', () => {
+  it('round-trips coordinates within 1e-6 degrees and keeps timestamps and segments', () => {
+    const decoded = decodePointChunk(encodePointChunk(3, points));
+
+    expect(decoded).toHaveLength(points.length);
+    decoded.forEach((point, i) => {
+      expect(Math.abs(point.lat - points[i].lat)).toBeLessThanOrEqual(0.5e-6 + 1e-12);
+      expect(Math.abs(point.lng - points[i].lng)).toBeLessThanOrEqual(0.5e-6 + 1e-12);
+      expect(point.timestamp.getTime()).toBe(points[i].timestamp.getTime());
+      expect(point.segment).toBe(points[i].segment);
+    });
+  });
+
+  it('round-trips the southern and western hemispheres', () => {
+    const southWest: GeoPoint[] = [
+      { lat: -33.868819, lng: -151.209295, timestamp: new Date(start) },
+      { lat: -33.868901, lng: -151.209101, timestamp: new Date(start + 1000) },
+    ];
+    const decoded = decodePointChunk(encodePointChunk(0, southWest));
+
+    expect(decoded.map(({ lat, lng }) => [lat, lng])).toEqual([
+      [-33.868819, -151.209295],
+      [-33.868901, -151.209101],
+    ]);
+  });
+
+  it('encodes latitude and longitude as separate delta chains', () => {
+    const stay = { lat: 35.681236, lng: 139.767125 };
+    const first = encodePointChunk(0, [{ ...stay, timestamp: new Date(start) }]);
+    const chunk = encodePointChunk(0, [
+      { ...stay, timestamp: new Date(start) },
+      { ...stay, timestamp: new Date(start + 1000) },
+    ]);
+    // 同じ地点の2点目は緯度・経度とも差分0（'?'）になる
+    expect(chunk.path).toBe(`${first.path}??`);
+  });
+
+  it('returns an empty list for an empty chunk', () => {
+    expect(decodePointChunk(encodePointChunk(0, []))).toEqual([]);
+  });
+
+  it('rejects a chunk whose fields disagree on the point count', () => {
+    const chunk = encodePointChunk(5, points);
+
+    expect(() => decodePointChunk({ ...chunk, count: points.length + 1 })).toThrow('seq=5');
+    expect(() =>
+      decodePointChunk({ ...chunk, segments: encodePointChunk(5, points.slice(1)).segments })
+    ).toThrow('seq=5');
+  });
+});
@@ -0,0 +1,99 @@
+import type { EncodedPointChunk, GeoPoint, SessionPointChunk } from '../types/GeoPoint';
+
+// ポイントのコンパクト形式（storageMode: 'compact'）のエンコード・デコード
+// 緯度経度はポリライン形式（精度1e-6度、約0.1m）、時刻はミリ秒単位の差分で文字列に詰める
+// 往復で保たれるのは緯度経度（±0.5e-6度）・時刻・記録区間の番号のみで、
+// 測位誤差・高度などの付随情報と平滑化前の座標は保存しない
+
+const COORD_FACTOR = 1e6;
+
+// 符号付き整数をポリライン形式の文字列に変換
+// 時刻（エポックミリ秒）は32bitを超えるためビット演算を使わずに計算する
+const encodeValue = (value: number): string => {
+  let rest = value < 0 ? -value * 2 - 1 : value * 2;
+  let encoded = '';
+  while (rest >= 0x20) {
+    encoded += String.fromCharCode((0x20 | rest % 0x20) + 63);
+    rest = Math.floor(rest / 0x20);
+  }
+  return encoded + String.fromCharCode(rest + 63);
+};
+
+// 差分エンコード（先頭は絶対値）
+// axes: 交互に並んだ値の軸の数（緯度経度は2）。軸毎に直前の値との差分を取る
+const encodeDeltas = (values: number[], axes = 1): string => {
+  const previous = new Array<number>(axes).fill(0);
+  return values
+    .map((value, i) => {
+      const encoded = encodeValue(value - previous[i % axes]);
+      previous[i % axes] = value;
+      return encoded;
+    })
+    .join('');
+};
+
+// encodeDeltas の逆変換
+const decodeDeltas = (encoded: string, axes = 1): number[] => {
+  const values: number[] = [];
+  const previous = new Array<number>(axes).fill(0);
+  let index = 0;
+  while (index < encoded.length) {
+    let result = 0;
+    let scale = 1;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result += (byte % 0x20) * scale;
+      scale *= 0x20;
+    } while (byte >= 0x20);
+    const delta = result % 2 === 1 ? -(result + 1) / 2 : result / 2;
+    const axis = values.length % axes;
+    previous[axis] += delta;
+    values.push(previous[axis]);
+  }
+  return values;
+};
+
+// ポイントをコンパクト形式のチャンクに変換
+export function encodePointChunk(seq: number, points: GeoPoint[]): EncodedPointChunk {
+  return {
+    seq,
+    encoding: 'polyline6',
+    count: points.length,
+    path: encodeDeltas(
+      points.flatMap((point) => [
+        Math.round(point.lat * COORD_FACTOR),
+        Math.round(point.lng * COORD_FACTOR),
+      ]),
+      2
+    ),
+    times: encodeDeltas(points.map((point) => point.timestamp.getTime())),
+    segments: encodeDeltas(points.map((point) => point.segment ?? 0)),
+  };
+}
+
+// コンパクト形式のチャンクをポイントに戻す
+export function decodePointChunk(chunk: EncodedPointChunk): GeoPoint[] {
+  const coords = decodeDeltas(chunk.path, 2);
+  const times = decodeDeltas(chunk.times);
+  const segments = decodeDeltas(chunk.segments);
+
+  if (
+    coords.length !== chunk.count * 2 ||
+    times.length !== chunk.count ||
+    segments.length !== chunk.count
+  ) {
+    throw new Error(`Corrupted encoded point chunk: seq=${chunk.seq}`);
+  }
+
+  return times.map((time, i) => ({
+    lat: coords[i * 2] / COORD_FACTOR,
+    lng: coords[i * 2 + 1] / COORD_FACTOR,
+    timestamp: new Date(time),
+    ...(segments[i] ? { segment: segments[i] } : {}),
+  }));
+}
+
+export const isEncodedPointChunk = (
+  chunk: SessionPointChunk | EncodedPointChunk
+): chunk is EncodedPointChunk => 'encoding' in chunk;
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { PositionFix } from '../types/Tracking';
+import { createPositionFilter } from './positionFilter';
+
+const start = Date.UTC(2025, 5, 1, 9);
+
+const fix = (lat: number, seconds: number, accuracy: number): PositionFix => ({
+  lat,
+  lng: 139.76,
+  accuracy,
+  timestamp: start + seconds * 1000,
+});
+
+describe('createPositionFilter', () => {
+  it('passes the first fix through unchanged', () => {
+    const filter = createPositionFilter({ processNoise: 3 });
+    expect(filter.filter(fix(35.68, 0, 10))).toEqual(fix(35.68, 0, 10));
+  });
+
+  it('moves less towards an inaccurate fix than an accurate one', () => {
+    const jump = 0.001;
+    const inaccurate = createPositionFilter({ processNoise: 3 });
+    inaccurate.filter(fix(35.68, 0, 5));
+    const accurate = createPositionFilter({ processNoise: 3 });
+    accurate.filter(fix(35.68, 0, 5));
+
+    const fromInaccurate = inaccurate.filter(fix(35.68 + jump, 1, 100)).lat - 35.68;
+    const fromAccurate = accurate.filter(fix(35.68 + jump, 1, 5)).lat - 35.68;
+
+    expect(fromInaccurate).toBeGreaterThan(0);
+    expect(fromInaccurate).toBeLessThan(fromAccurate);
+    expect(fromAccurate).toBeLessThan(jump);
+  });
+
+  it('trusts a new fix more after a longer gap', () => {
+    const afterShortGap = createPositionFilter({ processNoise: 3 });
+    afterShortGap.filter(fix(35.68, 0, 10));
+    const afterLongGap = createPositionFilter({ processNoise: 3 });
+    afterLongGap.filter(fix(35.68, 0, 10));
+
+    const short = afterShortGap.filter(fix(35.681, 1, 10)).lat;
+    const long = afterLongGap.filter(fix(35.681, 60, 10)).lat;
+
+    expect(long).toBeGreaterThan(short);
+  });
+
+  it('reports a smaller accuracy than either input after combining fixes', () => {
+    const filter = createPositionFilter({ processNoise: 0 });
+    filter.filter(fix(35.68, 0, 10));
+    expect(filter.filter(fix(35.68, 1, 10)).accuracy).toBeCloseTo(Math.sqrt(50));
+  });
+
+  it('starts over after reset', () => {
+    const filter = createPositionFilter({ processNoise: 3 });
+    filter.filter(fix(35.68, 0, 10));
+    filter.reset();
+    expect(filter.filter(fix(35.7, 1, 10)).lat).toBe(35.7);
+  });
+});
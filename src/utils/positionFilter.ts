@@ -0,0 +1,58 @@
+import type { PositionFix } from '../types/Tracking';
+
+// GPS測位のカルマンフィルタ（等速度を仮定しない位置のみのモデル）
+// 測位精度 (coords.accuracy) を観測ノイズとして重み付けし、時間経過に応じて予測の不確かさを増やす
+
+interface PositionFilterOptions {
+  processNoise: number; // 想定する移動のばらつき (m/s)
+}
+
+export interface PositionFilter {
+  filter(fix: PositionFix): PositionFix;
+  reset(): void;
+}
+
+export function createPositionFilter({ processNoise }: PositionFilterOptions): PositionFilter {
+  let state: { lat: number; lng: number; variance: number; timestamp: number } | null = null;
+
+  return {
+    filter(fix) {
+      const accuracy = Math.max(fix.accuracy, 1);
+      const measurementVariance = accuracy * accuracy;
+
+      if (!state) {
+        state = {
+          lat: fix.lat,
+          lng: fix.lng,
+          variance: measurementVariance,
+          timestamp: fix.timestamp,
+        };
+        return { ...fix };
+      }
+
+      // 予測：経過時間に応じて位置の不確かさを増やす
+      const elapsedSeconds = Math.max(fix.timestamp - state.timestamp, 0) / 1000;
+      const variance = state.variance + elapsedSeconds * processNoise * processNoise;
+
+      // 更新：精度の良い測位ほど強く反映する
+      const gain = variance / (variance + measurementVariance);
+      state = {
+        lat: state.lat + gain * (fix.lat - state.lat),
+        lng: state.lng + gain * (fix.lng - state.lng),
+        variance: (1 - gain) * variance,
+        timestamp: fix.timestamp,
+      };
+
+      return {
+        ...fix,
+        lat: state.lat,
+        lng: state.lng,
+        accuracy: Math.sqrt(state.variance),
+      };
+    },
+
+    reset() {
+      state = null;
+    },
+  };
+}
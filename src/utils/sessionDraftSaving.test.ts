@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
+import type { Photo } from '../types/Photo';
+import { createInMemoryPhotoRepository } from '../repositories/inMemoryPhotoRepository';
+import { createInMemorySessionRepository } from '../repositories/inMemorySessionRepository';
+import { splitSession } from './sessionEditing';
+import { saveSessionDraft } from './sessionDraftSaving';
+
+const USER_ID = 'user-1';
+const MINUTE = 60 * 1000;
+const start = Date.UTC(2025, 5, 1, 9);
+
+// 10分間、1分毎に北へ約100m進んだ終了済みのセッションと、2分後・8分後に撮影した写真を用意する
+const setup = async () => {
+  const repository = createInMemorySessionRepository();
+  const photoRepository = createInMemoryPhotoRepository();
+  const points: GeoPoint[] = Array.from({ length: 10 }, (_, i) => ({
+    lat: 35.68 + i * 0.0009,
+    lng: 139.76,
+    timestamp: new Date(start + i * MINUTE),
+  }));
+
+  const sessionId = await repository.create({
+    userId: USER_ID,
+    startTime: new Date(start),
+    endTime: new Date(start + 9 * MINUTE),
+    isActive: false,
+    storageMode: 'full',
+  });
+  await repository.appendPoints(sessionId, points);
+  const stored = (await repository.get(sessionId)) as TrackingSession;
+  const session = { ...stored, points: await repository.loadPoints(stored) };
+
+  const addPhoto = (minutes: number) =>
+    photoRepository.add({
+      userId: USER_ID,
+      sessionId,
+      location: { lat: points[minutes].lat, lng: points[minutes].lng },
+      imageUrl: 'https://example.com/photo.jpg',
+      thumbnailUrl: 'https://example.com/thumb.jpg',
+      timestamp: new Date(start + minutes * MINUTE),
+      isPublic: false,
+    });
+  await addPhoto(2);
+  await addPhoto(8);
+  const photos = await photoRepository.listByUser(USER_ID);
+
+  return { repository, photoRepository, session, photos };
+};
+
+const sessionIdsOf = (photos: Photo[]) => photos.map((photo) => photo.sessionId);
+
+describe('saveSessionDraft', () => {
+  it('creates the split-off session and moves its photos to it', async () => {
+    const { repository, photoRepository, session, photos } = await setup();
+    const [first, second] = splitSession(session, 4, 'draft-1');
+
+    const result = await saveSessionDraft({
+      draft: {
+        sessions: [
+          { session: first, isNew: false },
+          { session: second, isNew: true },
+        ],
+        deletedIds: [],
+      },
+      sessions: [session],
+      photos,
+      priorAreasOf: () => [],
+      repository,
+      photoRepository,
+    });
+
+    const [, createdId] = result.savedIds;
+    expect(result.savedIds).toHaveLength(2);
+    expect(result.savedIds[0]).toBe(session.id);
+    expect(createdId).not.toBe('draft-1');
+
+    const created = (await repository.get(createdId)) as TrackingSession;
+    expect(created.isActive).toBe(false);
+    expect(await repository.loadPoints(created)).toHaveLength(5);
+    expect(created.metrics?.distance).toBeGreaterThan(0);
+    const kept = (await repository.get(session.id)) as TrackingSession;
+    expect(await repository.loadPoints(kept)).toHaveLength(5);
+
+    expect(sessionIdsOf(await photoRepository.listByUser(USER_ID))).toEqual([
+      session.id,
+      createdId,
+    ]);
+  });
+
+  it('keeps the original points when the split-off session cannot be created', async () => {
+    const { repository, photoRepository, session, photos } = await setup();
+    const [first, second] = splitSession(session, 4, 'draft-1');
+    const offline = Object.assign(new Error('offline'), { code: 'unavailable' });
+
+    const save = saveSessionDraft({
+      draft: {
+        sessions: [
+          { session: first, isNew: false },
+          { session: second, isNew: true },
+        ],
+        deletedIds: [],
+      },
+      sessions: [session],
+      photos,
+      priorAreasOf: () => [],
+      repository: { ...repository, create: () => Promise.reject(offline) },
+      photoRepository,
+    });
+
+    await expect(save).rejects.toBe(offline);
+    const kept = (await repository.get(session.id)) as TrackingSession;
+    expect(await repository.loadPoints(kept)).toHaveLength(10);
+    expect(await repository.listByUser(USER_ID)).toHaveLength(1);
+  });
+
+  it('removes the created session when its points cannot be written', async () => {
+    const { repository, photoRepository, session, photos } = await setup();
+    const [first, second] = splitSession(session, 4, 'draft-1');
+    const offline = Object.assign(new Error('offline'), { code: 'unavailable' });
+
+    const save = saveSessionDraft({
+      draft: {
+        sessions: [
+          { session: first, isNew: false },
+          { session: second, isNew: true },
+        ],
+        deletedIds: [],
+      },
+      sessions: [session],
+      photos,
+      priorAreasOf: () => [],
+      repository: { ...repository, replacePoints: () => Promise.reject(offline) },
+      photoRepository,
+    });
+
+    await expect(save).rejects.toBe(offline);
+    expect((await repository.listByUser(USER_ID)).map(({ id }) => id)).toEqual([session.id]);
+    const kept = (await repository.get(session.id)) as TrackingSession;
+    expect(await repository.loadPoints(kept)).toHaveLength(10);
+  });
+
+  it('deletes sessions and detaches their photos', async () => {
+    const { repository, photoRepository, session, photos } = await setup();
+
+    const result = await saveSessionDraft({
+      draft: { sessions: [], deletedIds: [session.id] },
+      sessions: [session],
+      photos,
+      priorAreasOf: () => [],
+      repository,
+      photoRepository,
+    });
+
+    expect(result).toEqual({ savedIds: [], removedIds: [session.id] });
+    expect(await repository.get(session.id)).toBeNull();
+    expect(sessionIdsOf(await photoRepository.listByUser(USER_ID))).toEqual([undefined, undefined]);
+  });
+});
@@ -0,0 +1,108 @@
+import type { TrackingSession } from '../types/GeoPoint';
+import type { ExploredArea } from '../types/ExploredArea';
+import type { Photo } from '../types/Photo';
+import type { PhotoRepository, SessionRepository } from '../types/Repository';
+import type { SessionDraft } from '../types/SessionEditor';
+import { areasUpdate } from '../repositories/sessionPointRules';
+import { canEditPoints } from './sessionEditing';
+import { calculateSessionMetrics } from './sessionMetrics';
+import { getSessionProgress, toSessionProgressData } from './sessionSegments';
+
+// セッションの編集内容の保存（セッションの作成、既存のセッションの保存、削除、写真の付け替えの順）
+// 分割したセッションを作成してから元のセッションを切り詰めるため、途中で失敗してもポイントを失わない
+// 作成に失敗した場合は作成済みのセッションを削除し、再試行で重複させない
+
+export interface DraftSaveOptions {
+  draft: SessionDraft;
+  sessions: TrackingSession[]; // 編集前の履歴セッション（削除するセッションの読み込み元）
+  photos: Photo[];
+  priorAreasOf: (session: TrackingSession) => ExploredArea[]; // 統計で探索済みとみなすエリア
+  repository: SessionRepository;
+  photoRepository: PhotoRepository;
+}
+
+export interface DraftSaveResult {
+  savedIds: string[]; // 保存・作成したセッションのID
+  removedIds: string[];
+}
+
+// 編集後のセッションの終了時刻（写真の付け替えに使用）
+const endOf = (session: TrackingSession) => session.endTime ?? session.startTime;
+
+export async function saveSessionDraft({
+  draft,
+  sessions,
+  photos,
+  priorAreasOf,
+  repository,
+  photoRepository,
+}: DraftSaveOptions): Promise<DraftSaveResult> {
+  // 仮のIDから作成したセッションのIDへの対応
+  const savedIds = new Map<string, string>();
+
+  const prepare = (session: TrackingSession) => {
+    const { id: draftId, points, ...fields } = session;
+    const replacement = {
+      startTime: session.startTime,
+      endTime: endOf(session),
+      ...toSessionProgressData(getSessionProgress(session)),
+      metrics: calculateSessionMetrics(session, priorAreasOf(session)),
+      ...areasUpdate({ ...session, areas: [] }, points),
+    };
+    return { draftId, points, fields, replacement };
+  };
+
+  const created: TrackingSession[] = [];
+  try {
+    for (const { session } of draft.sessions.filter(({ isNew }) => isNew)) {
+      const { draftId, points, fields, replacement } = prepare(session);
+      const id = await repository.create({ ...fields, isActive: false });
+      const createdSession: TrackingSession = {
+        ...session,
+        id,
+        pointsFormat: 'chunked',
+        pointCount: 0,
+        chunkCount: 0,
+      };
+      created.push(createdSession);
+      await repository.replacePoints(createdSession, points, replacement);
+      savedIds.set(draftId, id);
+    }
+  } catch (error) {
+    await Promise.allSettled(created.map((session) => repository.delete(session)));
+    throw error;
+  }
+
+  for (const { session } of draft.sessions.filter(({ isNew }) => !isNew)) {
+    if (!canEditPoints(session)) continue;
+    const { draftId, points, replacement } = prepare(session);
+    await repository.replacePoints(session, points, replacement);
+    savedIds.set(draftId, draftId);
+  }
+
+  for (const sessionId of draft.deletedIds) {
+    const session = sessions.find(({ id }) => id === sessionId);
+    if (session) await repository.delete(session);
+  }
+
+  // 編集したセッションの写真は、撮影時刻を含むセッションに付け替える（含むものがなければ外す）
+  const affectedIds = new Set([
+    ...draft.sessions.filter(({ isNew }) => !isNew).map(({ session }) => session.id),
+    ...draft.deletedIds,
+  ]);
+  for (const photo of photos) {
+    if (!photo.sessionId || !affectedIds.has(photo.sessionId)) continue;
+    const taken = photo.timestamp.getTime();
+    const owner = draft.sessions.find(
+      ({ session }) => taken >= session.startTime.getTime() && taken <= endOf(session).getTime()
+    );
+    const sessionId = owner ? (savedIds.get(owner.session.id) ?? null) : null;
+    if (sessionId !== photo.sessionId) {
+      await photoRepository.assignSession(photo.id, sessionId);
+    }
+  }
+
+  // 保存したセッションのIDは編集後のセッションの順に返す
+  const orderedIds = draft.sessions.flatMap(({ session }) => savedIds.get(session.id) ?? []);
+  return { savedIds: orderedIds, removedIds: draft.deletedIds };
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
+import {
+  canEditPoints,
+  mergeSessions,
+  removePoint,
+  splitSession,
+  trimSession,
+} from './sessionEditing';
+
+const MINUTE = 60 * 1000;
+const start = Date.UTC(2025, 5, 1, 9);
+const at = (minutes: number) => new Date(start + minutes * MINUTE);
+
+const point = (minutes: number, segment: number): GeoPoint => ({
+  lat: 35.68 + minutes * 0.001,
+  lng: 139.76,
+  timestamp: at(minutes),
+  segment,
+});
+
+// 0〜3.5分と6〜10分の2区間で記録し、4〜5分に滞在したセッション
+const createSession = (): TrackingSession => ({
+  id: 'session-1',
+  userId: 'user-1',
+  points: [point(0, 0), point(1, 0), point(2, 0), point(3, 0), point(6, 1), point(7, 1)],
+  startTime: at(0),
+  endTime: at(10),
+  isActive: false,
+  segments: [
+    { startTime: at(0), endTime: at(3.5) },
+    { startTime: at(6), endTime: at(10) },
+  ],
+  stayPoints: [{ lat: 35.683, lng: 139.76, startTime: at(4), endTime: at(5), duration: MINUTE }],
+  metrics: {
+    distance: 700,
+    elapsedTime: 10 * MINUTE,
+    movingTime: 6 * MINUTE,
+    newArea: 0,
+    revisitedArea: 0,
+  },
+});
+
+const segmentsOf = (session: TrackingSession) => session.points.map((p) => p.segment);
+
+describe('canEditPoints', () => {
+  it('rejects sessions without their original points', () => {
+    const session = createSession();
+    expect(canEditPoints(session)).toBe(true);
+    expect(canEditPoints({ ...session, storageMode: 'areas_only' })).toBe(false);
+    expect(canEditPoints({ ...session, points: [] })).toBe(false);
+    expect(
+      canEditPoints({
+        ...session,
+        retention: { downsampledAt: at(20), originalPointCount: 6 },
+      })
+    ).toBe(false);
+  });
+});
+
+describe('trimSession', () => {
+  it('keeps the original start and end when the edge points are kept', () => {
+    const trimmed = trimSession(createSession(), 0, 5);
+    expect(trimmed.startTime).toEqual(at(0));
+    expect(trimmed.endTime).toEqual(at(10));
+    expect(trimmed.points).toHaveLength(6);
+    expect(trimmed.metrics).toBeUndefined();
+  });
+
+  it('drops segments and stays outside the kept range and renumbers the points', () => {
+    const trimmed = trimSession(createSession(), 4, 5);
+
+    expect(trimmed.startTime).toEqual(at(6));
+    expect(trimmed.endTime).toEqual(at(10));
+    expect(trimmed.segments).toEqual([{ startTime: at(6), endTime: at(10) }]);
+    expect(trimmed.stayPoints).toEqual([]);
+    expect(segmentsOf(trimmed)).toEqual([0, 0]);
+  });
+
+  it('clips a stay that overlaps the new end', () => {
+    const trimmed = trimSession(
+      { ...createSession(), stayPoints: [{ lat: 35.68, lng: 139.76, startTime: at(1.5) }] },
+      0,
+      2
+    );
+
+    expect(trimmed.endTime).toEqual(at(2));
+    expect(trimmed.stayPoints).toEqual([
+      { lat: 35.68, lng: 139.76, startTime: at(1.5), endTime: at(2), duration: MINUTE / 2 },
+    ]);
+  });
+});
+
+describe('splitSession', () => {
+  it('splits the points, segments and stays at the chosen point', () => {
+    const [first, second] = splitSession(createSession(), 2, 'draft-1');
+
+    expect(first.id).toBe('session-1');
+    expect(first.endTime).toEqual(at(2));
+    expect(first.points.map((p) => p.timestamp)).toEqual([at(0), at(1), at(2)]);
+    expect(first.segments).toEqual([{ startTime: at(0), endTime: at(2) }]);
+    expect(first.stayPoints).toEqual([]);
+
+    expect(second.id).toBe('draft-1');
+    expect(second.startTime).toEqual(at(2));
+    expect(second.endTime).toEqual(at(10));
+    expect(segmentsOf(second)).toEqual([0, 1, 1]);
+    expect(second.segments).toEqual([
+      { startTime: at(2), endTime: at(3.5) },
+      { startTime: at(6), endTime: at(10) },
+    ]);
+    expect(second.stayPoints).toHaveLength(1);
+    expect(second.metrics).toBeUndefined();
+  });
+});
+
+describe('mergeSessions', () => {
+  it('joins two sessions and shifts the segments of the second', () => {
+    const [first, second] = splitSession(createSession(), 2, 'draft-1');
+    const merged = mergeSessions(first, second);
+
+    expect(merged.id).toBe('session-1');
+    expect(merged.startTime).toEqual(at(0));
+    expect(merged.endTime).toEqual(at(10));
+    expect(merged.points).toHaveLength(6);
+    expect(segmentsOf(merged)).toEqual([0, 0, 0, 1, 2, 2]);
+    expect(merged.segments).toEqual([
+      { startTime: at(0), endTime: at(2) },
+      { startTime: at(2), endTime: at(3.5) },
+      { startTime: at(6), endTime: at(10) },
+    ]);
+    expect(merged.stayPoints).toHaveLength(1);
+  });
+
+  it('treats sessions without segments as a single segment each', () => {
+    const first = {
+      ...createSession(),
+      segments: undefined,
+      points: [point(0, 0)],
+      endTime: at(1),
+    };
+    const second = {
+      ...createSession(),
+      id: 'session-2',
+      segments: undefined,
+      points: [point(5, 0)],
+      startTime: at(5),
+      endTime: at(6),
+    };
+
+    expect(mergeSessions(first, second).segments).toEqual([
+      { startTime: at(0), endTime: at(1) },
+      { startTime: at(5), endTime: at(6) },
+    ]);
+  });
+});
+
+describe('removePoint', () => {
+  it('removes only the chosen point and clears the metrics', () => {
+    const edited = removePoint(createSession(), 1);
+    expect(edited.points.map((p) => p.timestamp)).toEqual([at(0), at(2), at(3), at(6), at(7)]);
+    expect(edited.metrics).toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+import type { GeoPoint, SessionSegment, StayPoint, TrackingSession } from '../types/GeoPoint';
+import { getSessionEnd, getSessionSegments } from './sessionSegments';
+
+// セッションの編集（トリミング・分割・結合・外れ値の削除）
+// 編集後のセッションは統計（metrics）を持たず、保存時に計算し直す
+
+// ポイントを編集できるセッションか
+// 探索エリアのみ保存・保存期間を過ぎて間引いたセッションは元のポイントがないため削除のみ行える
+export function canEditPoints(session: TrackingSession): boolean {
+  return session.storageMode !== 'areas_only' && !session.retention && session.points.length > 0;
+}
+
+// 記録区間・滞在地点を期間内に切り詰め、ポイントの区間番号を振り直す
+// 期間外になった区間は、その区間のポイントが残っていなければ取り除く
+const clipSession = (
+  session: TrackingSession,
+  startTime: Date,
+  endTime: Date,
+  points: GeoPoint[]
+): TrackingSession => {
+  const start = startTime.getTime();
+  const end = endTime.getTime();
+  const usedSegments = new Set(points.map((point) => point.segment ?? 0));
+
+  const segmentIndex = new Map<number, number>();
+  const segments: SessionSegment[] = [];
+  getSessionSegments(session).forEach((segment, i) => {
+    const segmentStart = Math.max(segment.startTime.getTime(), start);
+    const segmentEnd = Math.min((segment.endTime ?? endTime).getTime(), end);
+    if (segmentEnd <= segmentStart && !usedSegments.has(i)) return;
+    segmentIndex.set(i, segments.length);
+    segments.push({
+      startTime: new Date(segmentStart),
+      endTime: new Date(Math.max(segmentStart, segmentEnd)),
+    });
+  });
+
+  const stayPoints = (session.stayPoints ?? []).flatMap((stay): StayPoint[] => {
+    const stayStart = Math.max(stay.startTime.getTime(), start);
+    const stayEnd = Math.min((stay.endTime ?? endTime).getTime(), end);
+    if (stayEnd <= stayStart) return [];
+    return [
+      {
+        ...stay,
+        startTime: new Date(stayStart),
+        endTime: new Date(stayEnd),
+        duration: stayEnd - stayStart,
+      },
+    ];
+  });
+
+  return {
+    ...session,
+    startTime,
+    endTime,
+    points: points.flatMap((point) => {
+      const segment = segmentIndex.get(point.segment ?? 0);
+      return segment === undefined ? [] : [{ ...point, segment }];
+    }),
+    segments,
+    stayPoints,
+    metrics: undefined,
+  };
+};
+
+// startIndex から endIndex までのポイントを残す（端のポイントを残す場合は元の開始・終了時刻のまま）
+export function trimSession(
+  session: TrackingSession,
+  startIndex: number,
+  endIndex: number
+): TrackingSession {
+  const { points } = session;
+  const startTime = startIndex <= 0 ? session.startTime : points[startIndex].timestamp;
+  const endTime =
+    endIndex >= points.length - 1 ? getSessionEnd(session) : points[endIndex].timestamp;
+  return clipSession(session, startTime, endTime, points.slice(startIndex, endIndex + 1));
+}
+
+// index のポイントまでと、それより後のポイントの2つのセッションに分ける
+// 後半のセッションは newId を仮のIDとし、index のポイントの時刻から開始する
+export function splitSession(
+  session: TrackingSession,
+  index: number,
+  newId: string
+): [TrackingSession, TrackingSession] {
+  const { points } = session;
+  const splitTime = points[index].timestamp;
+  return [
+    clipSession(session, session.startTime, splitTime, points.slice(0, index + 1)),
+    clipSession(
+      { ...session, id: newId },
+      splitTime,
+      getSessionEnd(session),
+      points.slice(index + 1)
+    ),
+  ];
+}
+
+// 続けて記録した2つのセッションを1つにする（間の時間は記録区間に含めない）
+export function mergeSessions(first: TrackingSession, second: TrackingSession): TrackingSession {
+  const firstSegments = getSessionSegments({ ...first, endTime: getSessionEnd(first) });
+  const offset = firstSegments.length;
+  return {
+    ...first,
+    endTime: getSessionEnd(second),
+    points: [
+      ...first.points,
+      ...second.points.map((point) => ({ ...point, segment: (point.segment ?? 0) + offset })),
+    ],
+    segments: [
+      ...firstSegments,
+      ...getSessionSegments({ ...second, endTime: getSessionEnd(second) }),
+    ],
+    stayPoints: [...(first.stayPoints ?? []), ...(second.stayPoints ?? [])],
+    metrics: undefined,
+  };
+}
+
+// 1つのポイントを取り除く（測位の外れ値の削除）
+export function removePoint(session: TrackingSession, index: number): TrackingSession {
+  return {
+    ...session,
+    points: session.points.filter((_, i) => i !== index),
+    metrics: undefined,
+  };
+}
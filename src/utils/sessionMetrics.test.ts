@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
+import type { ExploredArea } from '../types/ExploredArea';
+import { METERS_PER_DEGREE } from '../constants/geo';
+import { formatArea } from './explorationUtils';
+import {
+  calculateGroundMetrics,
+  calculateSessionMetrics,
+  formatPace,
+  getPriorAreas,
+  indexExploredAreas,
+} from './sessionMetrics';
+
+const MINUTE = 60 * 1000;
+const start = Date.UTC(2025, 5, 1, 9);
+
+// 1分毎に北へ meters 進むポイント
+const walk = (count: number, meters: number, extra: Partial<GeoPoint> = {}): GeoPoint[] =>
+  Array.from({ length: count }, (_, i) => ({
+    lat: 35.68 + (i * meters) / METERS_PER_DEGREE,
+    lng: 139.76,
+    timestamp: new Date(start + i * MINUTE),
+    ...extra,
+  }));
+
+const session = (
+  points: GeoPoint[],
+  overrides: Partial<TrackingSession> = {}
+): TrackingSession => ({
+  id: 'session-1',
+  userId: 'user-1',
+  points,
+  startTime: new Date(start),
+  isActive: false,
+  ...overrides,
+});
+
+describe('calculateSessionMetrics', () => {
+  it('sums distance and moving time and derives the pace', () => {
+    const metrics = calculateSessionMetrics(
+      session(walk(11, 100), { endTime: new Date(start + 10 * MINUTE) }),
+      []
+    );
+
+    expect(metrics.distance).toBeCloseTo(1000, -1);
+    expect(metrics.elapsedTime).toBe(10 * MINUTE);
+    expect(metrics.movingTime).toBe(10 * MINUTE);
+    // 100m/分 は 600秒/km
+    expect(metrics.averagePace).toBeCloseTo(600, -1);
+    expect(metrics.maxPace).toBeCloseTo(600, -1);
+  });
+
+  it('leaves out slow steps from the moving time and omits the pace of short walks', () => {
+    const metrics = calculateSessionMetrics(session(walk(4, 10)), []);
+
+    expect(metrics.movingTime).toBe(0);
+    expect(metrics).not.toHaveProperty('averagePace');
+    expect(metrics).not.toHaveProperty('maxPace');
+    expect(metrics).not.toHaveProperty('elevationGain');
+  });
+
+  it('does not count the gap between segments as distance', () => {
+    const first = walk(3, 100);
+    const second = walk(6, 100)
+      .slice(3)
+      .map((point) => ({ ...point, segment: 1 }));
+
+    expect(calculateSessionMetrics(session([...first, ...second]), []).distance).toBeCloseTo(
+      400,
+      -1
+    );
+  });
+
+  it('measures an active session up to its last point', () => {
+    const metrics = calculateSessionMetrics(session(walk(6, 100), { isActive: true }), []);
+    expect(metrics.elapsedTime).toBe(5 * MINUTE);
+  });
+
+  it('counts only climbs above the threshold and ignores inaccurate altitudes', () => {
+    const altitudes = [10, 11, 12, 13, 11, 20, 50];
+    const points = walk(altitudes.length, 100).map((point, i) => ({
+      ...point,
+      altitude: altitudes[i],
+      altitudeAccuracy: i === altitudes.length - 1 ? 100 : 5,
+    }));
+
+    // 10 → 13 (+3)、11 → 20 (+9)。最後の 50m は誤差が大きいため除外する
+    expect(calculateSessionMetrics(session(points), []).elevationGain).toBe(12);
+  });
+});
+
+describe('calculateGroundMetrics', () => {
+  it('splits the explored area into new and revisited parts', () => {
+    const points = walk(10, 100);
+    const prior: ExploredArea[] = points.slice(0, 4).map((point) => ({
+      lat: point.lat,
+      lng: point.lng,
+      radius: 25,
+      timestamp: point.timestamp,
+      userId: 'user-1',
+    }));
+    const areaSize = Math.PI * 25 * 25;
+
+    expect(calculateGroundMetrics(session(points), prior)).toEqual({
+      newArea: 6 * areaSize,
+      revisitedArea: 4 * areaSize,
+    });
+  });
+
+  it('gives the same result with a prebuilt index of the prior areas', () => {
+    const points = walk(10, 100);
+    const prior: ExploredArea[] = points.slice(0, 4).map((point) => ({
+      lat: point.lat,
+      lng: point.lng,
+      radius: 25,
+      timestamp: point.timestamp,
+      userId: 'user-1',
+    }));
+    const index = indexExploredAreas(prior);
+
+    expect(calculateGroundMetrics(session(points), index)).toEqual(
+      calculateGroundMetrics(session(points), prior)
+    );
+    expect(calculateGroundMetrics(session(points.slice(5)), index).revisitedArea).toBe(0);
+  });
+});
+
+describe('getPriorAreas', () => {
+  it('keeps only the areas of sessions started before the session', () => {
+    const earlier = session([], { id: 'earlier', startTime: new Date(start - MINUTE) });
+    const current = session([], { id: 'current' });
+    const later = session([], { id: 'later', startTime: new Date(start + MINUTE) });
+    const area = (sessionId?: string): ExploredArea => ({
+      lat: 35.68,
+      lng: 139.76,
+      radius: 25,
+      timestamp: new Date(start),
+      userId: 'user-1',
+      sessionId,
+    });
+
+    const areas = [area('earlier'), area('current'), area('later'), area()];
+    expect(getPriorAreas(current, [earlier, current, later], areas)).toEqual([area('earlier')]);
+  });
+});
+
+describe('formatPace', () => {
+  it('formats seconds per kilometre as minutes and seconds', () => {
+    expect(formatPace(330)).toBe(`5'30"/km`);
+    expect(formatPace(599.6)).toBe(`10'00"/km`);
+  });
+});
+
+describe('formatArea', () => {
+  it('switches from square metres to square kilometres at 1000m²', () => {
+    expect(formatArea(999)).toBe('999m²');
+    expect(formatArea(2500)).toBe('0.003km²');
+    expect(formatArea(1_250_000)).toBe('1.25km²');
+  });
+});
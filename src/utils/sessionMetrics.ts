@@ -0,0 +1,220 @@
+import type { GeoPoint, SessionMetrics, TrackingSession } from '../types/GeoPoint';
+import type { ExploredArea } from '../types/ExploredArea';
+import { METRICS_CONFIG, TRACKING_CONFIG } from '../constants/tracking';
+import { METERS_PER_DEGREE } from '../constants/geo';
+import { calculateDistance, formatArea } from './explorationUtils';
+import { getSessionLastSeen, splitPointsBySegment } from './sessionSegments';
+import { formatDistance, formatDuration } from './sessionSummary';
+
+// セッションの統計（距離・移動時間・ペース・獲得標高・新たに探索した面積）の計算
+// 記録中は表示のために随時計算し、終了時に計算した値をセッションに保存する
+
+// 隣り合うポイント間の移動
+interface Step {
+  distance: number; // m
+  time: number; // ms
+}
+
+const toSteps = (points: GeoPoint[]): Step[] =>
+  points.slice(1).map((point, i) => ({
+    distance: calculateDistance(points[i].lat, points[i].lng, point.lat, point.lng),
+    time: Math.max(0, point.timestamp.getTime() - points[i].timestamp.getTime()),
+  }));
+
+const isMoving = (step: Step) =>
+  step.time > 0 && step.distance / (step.time / 1000) >= METRICS_CONFIG.MOVING_SPEED;
+
+// 一定距離以上の連続した移動のうち最も速いペース (秒/km)
+// 短い区間では測位誤差でペースが極端になるため、窓の距離を保ったまま先頭を詰めて調べる
+const findMaxPace = (steps: Step[]): number | undefined => {
+  let best: number | undefined;
+  let start = 0;
+  let distance = 0;
+  let time = 0;
+  steps.forEach((step) => {
+    distance += step.distance;
+    time += step.time;
+    while (distance - steps[start].distance >= METRICS_CONFIG.PACE_WINDOW) {
+      distance -= steps[start].distance;
+      time -= steps[start].time;
+      start++;
+    }
+    if (distance >= METRICS_CONFIG.PACE_WINDOW && time > 0) {
+      // ms/m はそのまま 秒/km になる
+      best = Math.min(best ?? Infinity, time / distance);
+    }
+  });
+  return best;
+};
+
+// しきい値以上の上りのみを積算した獲得標高（高度を取得できたポイントが2つ未満なら未設定）
+const calculateElevationGain = (points: GeoPoint[]): number | undefined => {
+  const altitudes = points
+    .filter(
+      (point) =>
+        point.altitude !== undefined &&
+        (point.altitudeAccuracy === undefined ||
+          point.altitudeAccuracy <= METRICS_CONFIG.MAX_ALTITUDE_ACCURACY)
+    )
+    .map((point) => point.altitude as number);
+  if (altitudes.length < 2) return undefined;
+
+  let gain = 0;
+  let base = altitudes[0];
+  altitudes.slice(1).forEach((altitude) => {
+    if (altitude - base >= METRICS_CONFIG.ELEVATION_THRESHOLD) {
+      gain += altitude - base;
+      base = altitude;
+    } else if (altitude < base) {
+      base = altitude;
+    }
+  });
+  return gain;
+};
+
+// 緯度方向の帯に分けた探索エリアの索引（前後の帯のエリアだけを調べる）
+// 帯の幅は登録するエリアの半径以上にする
+const createAreaIndex = (bandWidth: number) => {
+  const bands = new Map<number, { lat: number; lng: number; radius: number }[]>();
+  const bandOf = (lat: number) => Math.floor((lat * METERS_PER_DEGREE) / bandWidth);
+
+  return {
+    add(area: { lat: number; lng: number; radius: number }) {
+      const band = bandOf(area.lat);
+      const areas = bands.get(band);
+      if (areas) {
+        areas.push(area);
+      } else {
+        bands.set(band, [area]);
+      }
+    },
+    // いずれかのエリアの半径内にあるか
+    covers(lat: number, lng: number) {
+      const band = bandOf(lat);
+      return [band - 1, band, band + 1].some((key) =>
+        (bands.get(key) ?? []).some(
+          (area) => calculateDistance(area.lat, area.lng, lat, lng) < area.radius
+        )
+      );
+    },
+  };
+};
+
+export type ExploredAreaIndex = ReturnType<typeof createAreaIndex>;
+
+// 以前のセッションで探索済みのエリアの索引
+// 記録中は統計をポイント毎に計算するため、履歴が変わるまで同じ索引を使い回せるようにする
+export function indexExploredAreas(areas: ExploredArea[]): ExploredAreaIndex {
+  const index = createAreaIndex(
+    areas.reduce<number>(
+      (max, area) => Math.max(max, area.radius),
+      TRACKING_CONFIG.EXPLORATION_RADIUS
+    )
+  );
+  areas.forEach((area) => index.add(area));
+  return index;
+}
+
+// セッションの探索エリアのうち、以前のセッションで探索済みだったものとそうでないものの面積
+// エリアの間隔は explorationUtils と同じ（探索半径の0.3倍）で、面積は円の面積の合計で概算する
+export function calculateGroundMetrics(
+  session: TrackingSession,
+  priorAreas: ExploredArea[] | ExploredAreaIndex
+): Pick<SessionMetrics, 'newArea' | 'revisitedArea'> {
+  const radius = session.explorationRadius ?? TRACKING_CONFIG.EXPLORATION_RADIUS;
+  const minDistance = radius * 0.3;
+
+  const sessionAreas = createAreaIndex(minDistance);
+  const areas = [...(session.areas ?? []), ...session.points].filter((point) => {
+    if (sessionAreas.covers(point.lat, point.lng)) return false;
+    sessionAreas.add({ lat: point.lat, lng: point.lng, radius: minDistance });
+    return true;
+  });
+
+  const explored = Array.isArray(priorAreas) ? indexExploredAreas(priorAreas) : priorAreas;
+  const revisited = areas.filter((area) => explored.covers(area.lat, area.lng)).length;
+
+  const areaSize = Math.PI * radius * radius;
+  return {
+    newArea: (areas.length - revisited) * areaSize,
+    revisitedArea: revisited * areaSize,
+  };
+}
+
+// セッションの統計を計算する（priorAreas はこのセッションより前に探索済みのエリアまたはその索引）
+// 記録中のセッションは最後に記録した時刻までを経過時間とする
+export function calculateSessionMetrics(
+  session: TrackingSession,
+  priorAreas: ExploredArea[] | ExploredAreaIndex
+): SessionMetrics {
+  const segmentSteps = splitPointsBySegment(session.points).map(toSteps);
+  const steps = segmentSteps.flat();
+  const movingSteps = steps.filter(isMoving);
+  const distance = steps.reduce((total, step) => total + step.distance, 0);
+  const movingDistance = movingSteps.reduce((total, step) => total + step.distance, 0);
+  const movingTime = movingSteps.reduce((total, step) => total + step.time, 0);
+
+  const lastPoint = session.points[session.points.length - 1];
+  const endTime =
+    session.endTime?.getTime() ??
+    Math.max(getSessionLastSeen(session).getTime(), lastPoint?.timestamp.getTime() ?? 0);
+
+  const maxPace = segmentSteps.reduce<number | undefined>((best, stepsInSegment) => {
+    const pace = findMaxPace(stepsInSegment);
+    return pace === undefined ? best : Math.min(best ?? Infinity, pace);
+  }, undefined);
+  const elevationGain = calculateElevationGain(session.points);
+
+  // Firestoreは undefined を保存できないため、計算できなかった値は含めない
+  return {
+    distance,
+    elapsedTime: Math.max(0, endTime - session.startTime.getTime()),
+    movingTime,
+    ...(movingDistance >= METRICS_CONFIG.MIN_PACE_DISTANCE
+      ? { averagePace: movingTime / movingDistance }
+      : {}),
+    ...(maxPace !== undefined ? { maxPace } : {}),
+    ...(elevationGain !== undefined ? { elevationGain } : {}),
+    ...calculateGroundMetrics(session, priorAreas),
+  };
+}
+
+// 履歴の探索エリアのうち、セッションより前に開始したセッションから生成されたもの
+// （終了時に保存した統計と同じ条件で、編集時・旧データの統計を計算するために使う）
+export function getPriorAreas(
+  session: TrackingSession,
+  sessions: TrackingSession[],
+  exploredAreas: ExploredArea[]
+): ExploredArea[] {
+  const startTimes = new Map(sessions.map(({ id, startTime }) => [id, startTime.getTime()]));
+  return exploredAreas.filter((area) => {
+    const startTime = area.sessionId ? startTimes.get(area.sessionId) : undefined;
+    return startTime !== undefined && startTime < session.startTime.getTime();
+  });
+}
+
+// ペースの表示（例: 5'30"/km）
+export function formatPace(pace: number): string {
+  const totalSeconds = Math.round(pace);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return `${minutes}'${seconds}"/km`;
+}
+
+// 統計の表示用の項目（計算できなかった値は "-"）
+export function describeSessionMetrics(
+  metrics: SessionMetrics
+): { label: string; value: string }[] {
+  const optional = (value: number | undefined, format: (value: number) => string) =>
+    value === undefined ? '-' : format(value);
+  return [
+    { label: 'DIST', value: formatDistance(metrics.distance) },
+    { label: 'MOVING', value: formatDuration(metrics.movingTime) },
+    { label: 'ELAPSED', value: formatDuration(metrics.elapsedTime) },
+    { label: 'AVG PACE', value: optional(metrics.averagePace, formatPace) },
+    { label: 'MAX PACE', value: optional(metrics.maxPace, formatPace) },
+    { label: 'ELEV +', value: optional(metrics.elevationGain, (gain) => `${Math.round(gain)}m`) },
+    { label: 'NEW', value: formatArea(metrics.newArea) },
+    { label: 'REVISIT', value: formatArea(metrics.revisitedArea) },
+  ];
+}
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { uploadBytes } from 'firebase/storage';
+import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
+import type { SessionRepository } from '../types/Repository';
+import { createInMemorySessionRepository } from '../repositories/inMemorySessionRepository';
+import { applyRetentionPolicy } from './sessionRetention';
+
+// Firebase は初期化せず、アーカイブのアップロードは呼び出しだけを記録する
+vi.mock('../firebase', () => ({ storage: {} }));
+vi.mock('../repositories/defaultRepositories', () => ({ sessionRepository: {} }));
+vi.mock('firebase/storage', () => ({
+  ref: (_storage: unknown, path: string) => ({ path }),
+  uploadBytes: vi.fn(() => Promise.resolve()),
+}));
+
+const USER_ID = 'user-1';
+const DAY = 24 * 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+const now = Date.UTC(2025, 5, 1, 9);
+
+// 1分毎に北へ約10m、まっすぐ進むポイント（簡略化すると両端だけが残る）
+const straightPoints = (start: number): GeoPoint[] =>
+  Array.from({ length: 20 }, (_, i) => ({
+    lat: 35.68 + i * 0.0001,
+    lng: 139.76,
+    timestamp: new Date(start + i * MINUTE),
+  }));
+
+const createFinishedSession = async (repository: SessionRepository, daysAgo: number) => {
+  const start = now - daysAgo * DAY;
+  const sessionId = await repository.create({
+    userId: USER_ID,
+    startTime: new Date(start),
+    endTime: new Date(start + 19 * MINUTE),
+    isActive: false,
+    storageMode: 'full',
+  });
+  await repository.appendPoints(sessionId, straightPoints(start));
+  return sessionId;
+};
+
+const getSession = async (repository: SessionRepository, sessionId: string) =>
+  (await repository.get(sessionId)) as TrackingSession;
+
+describe('applyRetentionPolicy', () => {
+  beforeEach(() => {
+    vi.mocked(uploadBytes).mockClear();
+  });
+
+  it('downsamples only sessions that ended before the retention period', async () => {
+    const repository = createInMemorySessionRepository();
+    const expired = await createFinishedSession(repository, 10);
+    const recent = await createFinishedSession(repository, 1);
+
+    const report = await applyRetentionPolicy({
+      userId: USER_ID,
+      maxRawAge: 7 * DAY,
+      archive: false,
+      now,
+      repository,
+    });
+
+    expect(report).toMatchObject({ sessionsProcessed: 1, sessionsRemaining: 0, pointsRemoved: 18 });
+    expect(report.bytesReclaimed).toBeGreaterThan(0);
+
+    const downsampled = await getSession(repository, expired);
+    expect(downsampled.pointCount).toBe(2);
+    expect(downsampled.retention).toEqual({
+      downsampledAt: new Date(now),
+      originalPointCount: 20,
+    });
+    expect(downsampled.areas?.length).toBeGreaterThan(0);
+    expect((await getSession(repository, recent)).pointCount).toBe(20);
+  });
+
+  it('processes at most the limit and leaves the rest for the next run', async () => {
+    const repository = createInMemorySessionRepository();
+    await createFinishedSession(repository, 10);
+    await createFinishedSession(repository, 11);
+    await createFinishedSession(repository, 12);
+    const options = { userId: USER_ID, maxRawAge: 7 * DAY, archive: false, limit: 2, now };
+
+    const first = await applyRetentionPolicy({ ...options, repository });
+    expect(first).toMatchObject({ sessionsProcessed: 2, sessionsRemaining: 1 });
+
+    const second = await applyRetentionPolicy({ ...options, repository });
+    expect(second).toMatchObject({ sessionsProcessed: 1, sessionsRemaining: 0 });
+  });
+
+  it('records the archive path when archiving the raw points', async () => {
+    const repository = createInMemorySessionRepository();
+    const sessionId = await createFinishedSession(repository, 10);
+
+    await applyRetentionPolicy({
+      userId: USER_ID,
+      maxRawAge: 7 * DAY,
+      archive: true,
+      now,
+      repository,
+    });
+
+    const path = `archives/${USER_ID}/sessions/${sessionId}.json`;
+    expect(uploadBytes).toHaveBeenCalledWith({ path }, expect.any(Blob), {
+      contentType: 'application/json',
+    });
+    expect((await getSession(repository, sessionId)).retention?.archivePath).toBe(path);
+  });
+
+  it('keeps the raw points when the archive upload fails', async () => {
+    const repository = createInMemorySessionRepository();
+    const sessionId = await createFinishedSession(repository, 10);
+    vi.mocked(uploadBytes).mockRejectedValueOnce(new Error('offline'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const report = await applyRetentionPolicy({
+      userId: USER_ID,
+      maxRawAge: 7 * DAY,
+      archive: true,
+      now,
+      repository,
+    });
+
+    expect(report).toMatchObject({ sessionsProcessed: 0, sessionsRemaining: 1 });
+    const session = await getSession(repository, sessionId);
+    expect(session.pointCount).toBe(20);
+    expect(session.retention).toBeUndefined();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,115 @@
+import { ref, uploadBytes } from 'firebase/storage';
+import { storage } from '../firebase';
+import type { GeoPoint, TrackingSession } from '../types/GeoPoint';
+import type { SessionRepository } from '../types/Repository';
+import { RETENTION_CONFIG } from '../constants/tracking';
+import { sessionRepository } from '../repositories/defaultRepositories';
+import { extendSessionAreas } from './explorationUtils';
+import { encodePointChunk } from './pointCodec';
+import { simplifyTrail } from './trailSimplification';
+
+// 保存期間を過ぎたセッションの生ポイントを、探索エリアと簡略化した軌跡に置き換える
+// 1回の実行で処理するセッション数を制限し、起動の度に少しずつ進める
+
+export interface RetentionOptions {
+  userId: string;
+  maxRawAge?: number; // 生ポイントを保存する期間 (ms)
+  tolerance?: number; // 軌跡の簡略化の許容誤差 (m)
+  archive?: boolean; // 間引く前のポイントをStorageにアーカイブするか
+  limit?: number; // 1回の実行で処理するセッション数
+  now?: number;
+  repository?: SessionRepository;
+}
+
+export interface RetentionReport {
+  ranAt: Date;
+  sessionsProcessed: number;
+  sessionsRemaining: number; // 次回以降に処理するセッション数
+  pointsRemoved: number;
+  bytesReclaimed: number; // ポイントの保存サイズの削減量（概算）
+}
+
+// ポイントの保存サイズの概算（Firestoreのドキュメントサイズに近い値として文字列長を使う）
+const estimatePointsSize = (points: GeoPoint[], compact: boolean) =>
+  compact ? JSON.stringify(encodePointChunk(0, points)).length : JSON.stringify(points).length;
+
+// 間引く前のポイントをStorageに保存
+const archiveSessionPoints = async (session: TrackingSession, points: GeoPoint[]) => {
+  const path = `archives/${session.userId}/sessions/${session.id}.json`;
+  const archive = {
+    sessionId: session.id,
+    userId: session.userId,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    storageMode: session.storageMode ?? 'incremental',
+    points,
+  };
+  await uploadBytes(ref(storage, path), new Blob([JSON.stringify(archive)]), {
+    contentType: 'application/json',
+  });
+  return path;
+};
+
+// 保存期間を過ぎて生ポイントが残っているセッションか
+const isExpired = (session: TrackingSession, cutoff: number) =>
+  !session.isActive &&
+  !session.retention &&
+  session.storageMode !== 'areas_only' &&
+  session.endTime !== undefined &&
+  session.endTime.getTime() < cutoff &&
+  ((session.pointCount ?? 0) > 0 || session.points.length > 0);
+
+export async function applyRetentionPolicy({
+  userId,
+  maxRawAge = RETENTION_CONFIG.MAX_RAW_AGE,
+  tolerance = RETENTION_CONFIG.SIMPLIFY_TOLERANCE,
+  archive = RETENTION_CONFIG.ARCHIVE,
+  limit = RETENTION_CONFIG.SESSIONS_PER_RUN,
+  now = Date.now(),
+  repository = sessionRepository,
+}: RetentionOptions): Promise<RetentionReport> {
+  const sessions = await repository.listByUser(userId);
+  const expired = sessions.filter((session) => isExpired(session, now - maxRawAge));
+
+  const report: RetentionReport = {
+    ranAt: new Date(now),
+    sessionsProcessed: 0,
+    sessionsRemaining: expired.length,
+    pointsRemoved: 0,
+    bytesReclaimed: 0,
+  };
+
+  for (const session of expired.slice(0, limit)) {
+    try {
+      const points = await repository.loadPoints(session);
+      const simplified = simplifyTrail(points, tolerance);
+      const storedAreas = session.areas ?? [];
+      const areas = extendSessionAreas(storedAreas, points, session.explorationRadius);
+
+      // アーカイブに失敗した場合は間引かずに次回に回す
+      const archivePath = archive ? await archiveSessionPoints(session, points) : undefined;
+
+      await repository.replacePoints(session, simplified, {
+        areas,
+        retention: {
+          downsampledAt: new Date(now),
+          originalPointCount: points.length,
+          ...(archivePath ? { archivePath } : {}),
+        },
+      });
+
+      const compact = session.storageMode === 'compact';
+      report.sessionsProcessed++;
+      report.sessionsRemaining--;
+      report.pointsRemoved += points.length - simplified.length;
+      report.bytesReclaimed +=
+        estimatePointsSize(points, compact) -
+        estimatePointsSize(simplified, compact) -
+        (JSON.stringify(areas).length - JSON.stringify(storedAreas).length);
+    } catch (error) {
+      console.error('Failed to apply retention policy:', session.id, error);
+    }
+  }
+
+  return report;
+}
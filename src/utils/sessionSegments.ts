@@ -0,0 +1,111 @@
+import type { GeoPoint, SessionSegment, StayPoint, TrackingSession } from '../types/GeoPoint';
+import type { SessionProgress } from '../types/Tracking';
+
+// 一時停止で区切られた記録区間（セグメント）と、自動一時停止した滞在地点の操作
+
+// セッションの記録区間（区間を持たない旧形式は開始から終了までの1区間とみなす）
+export function getSessionSegments(
+  session: Pick<TrackingSession, 'segments' | 'startTime' | 'endTime'>
+): SessionSegment[] {
+  if (session.segments && session.segments.length > 0) {
+    return session.segments;
+  }
+  return [{ startTime: session.startTime, endTime: session.endTime }];
+}
+
+// 最後の区間が記録中（終了時刻なし）か
+export function hasOpenSegment(segments: SessionSegment[]): boolean {
+  const last = segments[segments.length - 1];
+  return last !== undefined && last.endTime === undefined;
+}
+
+// 記録中の区間を指定時刻で閉じる
+export function closeSegment(segments: SessionSegment[], endTime: Date): SessionSegment[] {
+  if (!hasOpenSegment(segments)) return segments;
+  return [...segments.slice(0, -1), { ...segments[segments.length - 1], endTime }];
+}
+
+// 新しい区間を開始する
+export function openSegment(segments: SessionSegment[], startTime: Date): SessionSegment[] {
+  return [...closeSegment(segments, startTime), { startTime }];
+}
+
+// 記録区間と滞在地点をまとめて取得
+export function getSessionProgress(
+  session: Pick<TrackingSession, 'segments' | 'stayPoints' | 'startTime' | 'endTime'>
+): SessionProgress {
+  return { segments: getSessionSegments(session), stayPoints: session.stayPoints ?? [] };
+}
+
+// 最後の滞在地点が滞在中（終了時刻なし）か
+export function hasOpenStayPoint(stayPoints: StayPoint[]): boolean {
+  const last = stayPoints[stayPoints.length - 1];
+  return last !== undefined && last.endTime === undefined;
+}
+
+// 滞在中の地点を指定時刻で閉じ、滞在時間を記録する
+export function closeStayPoint(stayPoints: StayPoint[], endTime: Date): StayPoint[] {
+  if (!hasOpenStayPoint(stayPoints)) return stayPoints;
+  const last = stayPoints[stayPoints.length - 1];
+  return [
+    ...stayPoints.slice(0, -1),
+    {
+      ...last,
+      endTime,
+      duration: Math.max(endTime.getTime() - last.startTime.getTime(), 0),
+    },
+  ];
+}
+
+// セッション終了時に記録中の区間・滞在中の地点を閉じる
+export function closeSessionProgress(progress: SessionProgress, endTime: Date): SessionProgress {
+  return {
+    segments: closeSegment(progress.segments, endTime),
+    stayPoints: closeStayPoint(progress.stayPoints, endTime),
+  };
+}
+
+// セッションの最終記録時刻（ハートビートのない旧データは開始時刻）
+export function getSessionLastSeen(
+  session: Pick<TrackingSession, 'lastSeenAt' | 'startTime'>
+): Date {
+  return session.lastSeenAt ?? session.startTime;
+}
+
+// セッションの終了時刻（終了時刻のないセッションは最後のポイント、ポイントもなければ開始時刻）
+export function getSessionEnd(
+  session: Pick<TrackingSession, 'endTime' | 'points' | 'startTime'>
+): Date {
+  return (
+    session.endTime ?? session.points[session.points.length - 1]?.timestamp ?? session.startTime
+  );
+}
+
+// Firestoreは undefined を保存できないため、記録中の区間・滞在中の地点は終了時刻を省く
+export function toSessionProgressData({ segments, stayPoints }: SessionProgress) {
+  return {
+    segments: segments.map(({ startTime, endTime }) =>
+      endTime ? { startTime, endTime } : { startTime }
+    ),
+    stayPoints: stayPoints.map(({ endTime, duration, ...stay }) =>
+      endTime ? { ...stay, endTime, duration: duration ?? 0 } : stay
+    ),
+  };
+}
+
+// ポイントを区間毎に分割する（区間をまたいで線を繋げないため）
+export function splitPointsBySegment(points: GeoPoint[]): GeoPoint[][] {
+  const groups: GeoPoint[][] = [];
+  let currentSegment: number | null = null;
+
+  points.forEach((point) => {
+    const segment = point.segment ?? 0;
+    if (segment !== currentSegment) {
+      groups.push([]);
+      currentSegment = segment;
+    }
+    groups[groups.length - 1].push(point);
+  });
+
+  return groups;
+}
@@ -0,0 +1,127 @@
+import type { TrackingSession } from '../types/GeoPoint';
+import type { Photo } from '../types/Photo';
+import type { SessionSortKey, SessionSortOrder, SessionSummary } from '../types/SessionHistory';
+import { calculateDistance } from './explorationUtils';
+import { getSessionLastSeen, getSessionSegments, splitPointsBySegment } from './sessionSegments';
+
+// 履歴一覧の概要の集計・検索・並び替え
+
+// 記録区間の合計時間 (ms)（終了時刻のない区間はセッションの終了時刻・最終記録時刻まで）
+export function getSessionDuration(session: TrackingSession): number {
+  const fallbackEnd = session.endTime ?? getSessionLastSeen(session);
+  return getSessionSegments(session).reduce(
+    (total, segment) =>
+      total + Math.max(0, (segment.endTime ?? fallbackEnd).getTime() - segment.startTime.getTime()),
+    0
+  );
+}
+
+// 記録区間毎の移動距離の合計 (m)（区間をまたいだ移動は含まない）
+export function getSessionDistance(session: TrackingSession): number {
+  return splitPointsBySegment(session.points).reduce(
+    (total, points) =>
+      total +
+      points
+        .slice(1)
+        .reduce(
+          (sum, point, i) =>
+            sum + calculateDistance(points[i].lat, points[i].lng, point.lat, point.lng),
+          0
+        ),
+    0
+  );
+}
+
+export function summarizeSession(session: TrackingSession, photos: Photo[]): SessionSummary {
+  return {
+    id: session.id,
+    startTime: session.startTime,
+    endTime: session.endTime ?? getSessionLastSeen(session),
+    duration: getSessionDuration(session),
+    distance: session.metrics?.distance ?? getSessionDistance(session),
+    pointCount: session.points.length,
+    photoCount: photos.filter((photo) => photo.sessionId === session.id).length,
+    activity: session.activity ?? 'walk',
+    storageMode: session.storageMode ?? 'incremental',
+  };
+}
+
+// 時間の表示（例: 1:05:30、1時間未満は 12:34）
+export function formatDuration(duration: number): string {
+  const totalSeconds = Math.round(duration / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+// 距離の表示
+export function formatDistance(distance: number): string {
+  return distance < 1000 ? `${Math.round(distance)}m` : `${(distance / 1000).toFixed(2)}km`;
+}
+
+// 日付の表示（検索でもこの形式と照合する）
+export function formatSessionDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// 比較条件の単位（距離は m、時間は ms に換算する）
+const QUERY_UNITS: Record<string, { field: 'distance' | 'duration'; scale: number }> = {
+  m: { field: 'distance', scale: 1 },
+  km: { field: 'distance', scale: 1000 },
+  min: { field: 'duration', scale: 60 * 1000 },
+  h: { field: 'duration', scale: 60 * 60 * 1000 },
+};
+
+const COMPARISON_PATTERN = /^(>=|<=|>|<)(\d+(?:\.\d+)?)(km|m|min|h)$/;
+
+// 検索語の条件（空白区切りの全ての語を満たすセッションを残す）
+// ">3km" "<=30min" のように比較演算子と単位を付けた語は距離・時間の条件、
+// それ以外は日付（YYYY-MM-DD HH:mm、"/" 区切りも可）の部分一致
+const matchesTerm = (summary: SessionSummary, term: string): boolean => {
+  const comparison = term.match(COMPARISON_PATTERN);
+  if (comparison) {
+    const [, operator, value, unit] = comparison;
+    const { field, scale } = QUERY_UNITS[unit];
+    const threshold = Number(value) * scale;
+    const actual = summary[field];
+    switch (operator) {
+      case '>':
+        return actual > threshold;
+      case '>=':
+        return actual >= threshold;
+      case '<':
+        return actual < threshold;
+      default:
+        return actual <= threshold;
+    }
+  }
+  return formatSessionDate(summary.startTime).includes(term.replace(/\//g, '-'));
+};
+
+export function filterSessionSummaries(
+  summaries: SessionSummary[],
+  query: string
+): SessionSummary[] {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return summaries;
+  return summaries.filter((summary) => terms.every((term) => matchesTerm(summary, term)));
+}
+
+const SORT_VALUES: Record<SessionSortKey, (summary: SessionSummary) => number> = {
+  date: (summary) => summary.startTime.getTime(),
+  duration: (summary) => summary.duration,
+  distance: (summary) => summary.distance,
+};
+
+export function sortSessionSummaries(
+  summaries: SessionSummary[],
+  sortKey: SessionSortKey,
+  sortOrder: SessionSortOrder
+): SessionSummary[] {
+  const value = SORT_VALUES[sortKey];
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  return [...summaries].sort((a, b) => (value(a) - value(b)) * direction);
+}
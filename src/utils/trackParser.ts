@@ -0,0 +1,74 @@
+// GPX / JSON 形式のトラックを読み込む（開発用のリプレイに使用）
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  time?: number; // エポックミリ秒
+  accuracy?: number;
+  altitude?: number;
+}
+
+const parseNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const parseTime = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const time = typeof value === 'number' ? value : new Date(value as string).getTime();
+  return Number.isNaN(time) ? undefined : time;
+};
+
+// JSON形式: [{ lat, lng | lon, timestamp | time, accuracy, altitude | ele }] の配列
+function parseJsonTrack(text: string): TrackPoint[] {
+  const data = JSON.parse(text) as unknown;
+  const items = Array.isArray(data) ? data : (data as { points?: unknown[] }).points || [];
+
+  return items
+    .map((item) => {
+      const raw = item as Record<string, unknown>;
+      return {
+        lat: Number(raw.lat),
+        lng: Number(raw.lng ?? raw.lon),
+        time: parseTime(raw.timestamp ?? raw.time),
+        accuracy: parseNumber(raw.accuracy),
+        altitude: parseNumber(raw.altitude ?? raw.ele),
+      };
+    })
+    .filter((point) => Number.isFinite(point.lat) && Number.isFinite(point.lng));
+}
+
+// GPX形式: trkpt / rtept / wpt 要素の lat, lon 属性と time, ele 子要素
+function parseGpxTrack(text: string): TrackPoint[] {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.querySelector('parsererror')) {
+    throw new Error('GPXの解析に失敗しました');
+  }
+
+  let nodes = Array.from(xml.getElementsByTagName('trkpt'));
+  if (nodes.length === 0) nodes = Array.from(xml.getElementsByTagName('rtept'));
+  if (nodes.length === 0) nodes = Array.from(xml.getElementsByTagName('wpt'));
+
+  return nodes
+    .map((node) => ({
+      lat: Number(node.getAttribute('lat')),
+      lng: Number(node.getAttribute('lon')),
+      time: parseTime(node.getElementsByTagName('time')[0]?.textContent),
+      altitude: parseNumber(node.getElementsByTagName('ele')[0]?.textContent),
+    }))
+    .filter((point) => Number.isFinite(point.lat) && Number.isFinite(point.lng));
+}
+
+export function parseTrack(text: string): TrackPoint[] {
+  const trimmed = text.trim();
+  const points =
+    trimmed.startsWith('[') || trimmed.startsWith('{')
+      ? parseJsonTrack(trimmed)
+      : parseGpxTrack(trimmed);
+
+  if (points.length === 0) {
+    throw new Error('トラックにポイントが含まれていません');
+  }
+  return points;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { GeoPoint } from '../types/GeoPoint';
+import { simplifyTrail } from './trailSimplification';
+
+const start = Date.UTC(2025, 5, 1, 9);
+
+// 東へ x m、北へ y m 進んだポイント（東京駅付近の平面近似）
+const point = (i: number, x: number, y: number, segment?: number): GeoPoint => ({
+  lat: 35.68 + y / 111_320,
+  lng: 139.76 + x / (111_320 * Math.cos((35.68 * Math.PI) / 180)),
+  timestamp: new Date(start + i * 1000),
+  segment,
+});
+
+describe('simplifyTrail', () => {
+  it('keeps only the ends of a straight line', () => {
+    const points = Array.from({ length: 10 }, (_, i) => point(i, 0, i * 10));
+    expect(simplifyTrail(points, 5)).toEqual([points[0], points[9]]);
+  });
+
+  it('keeps corners that deviate more than the tolerance', () => {
+    const points = [point(0, 0, 0), point(1, 0, 50), point(2, 0, 100), point(3, 50, 100)];
+    expect(simplifyTrail(points, 5)).toEqual([points[0], points[2], points[3]]);
+  });
+
+  it('drops jitter within the tolerance', () => {
+    const points = [point(0, 0, 0), point(1, 3, 50), point(2, -2, 100)];
+    expect(simplifyTrail(points, 5)).toEqual([points[0], points[2]]);
+  });
+
+  it('simplifies each segment separately and keeps their ends', () => {
+    const first = [0, 1, 2].map((i) => point(i, 0, i * 10, 0));
+    const second = [3, 4, 5].map((i) => point(i, 100, i * 10, 1));
+    expect(simplifyTrail([...first, ...second], 5)).toEqual([
+      first[0],
+      first[2],
+      second[0],
+      second[2],
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import type { GeoPoint } from '../types/GeoPoint';
+import { METERS_PER_DEGREE } from '../constants/geo';
+import { splitPointsBySegment } from './sessionSegments';
+
+// 軌跡の簡略化（Douglas-Peucker法）
+// 古いセッションの生ポイントを保存期間経過後に間引くために使用する
+
+// 線分ABから点Pまでの距離 (m)（短い区間なので平面近似で計算）
+const distanceToSegment = (p: GeoPoint, a: GeoPoint, b: GeoPoint): number => {
+  const cosLat = Math.cos((a.lat * Math.PI) / 180);
+  const toXY = (point: GeoPoint) => ({
+    x: (point.lng - a.lng) * METERS_PER_DEGREE * cosLat,
+    y: (point.lat - a.lat) * METERS_PER_DEGREE,
+  });
+  const pb = toXY(b);
+  const pp = toXY(p);
+  const lengthSq = pb.x * pb.x + pb.y * pb.y;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, (pp.x * pb.x + pp.y * pb.y) / lengthSq)) : 0;
+  return Math.hypot(pp.x - t * pb.x, pp.y - t * pb.y);
+};
+
+// 1区間の軌跡を許容誤差以内で簡略化（始点・終点は必ず残す）
+const simplifySegment = (points: GeoPoint[], tolerance: number): GeoPoint[] => {
+  if (points.length <= 2) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // 再帰の代わりにスタックで処理（長い軌跡でのスタックオーバーフロー防止）
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop() as [number, number];
+    let maxDistance = 0;
+    let maxIndex = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+    if (maxIndex !== -1 && maxDistance > tolerance) {
+      keep[maxIndex] = true;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+};
+
+// 記録区間毎に軌跡を簡略化（区間をまたいで線を繋げない）
+export function simplifyTrail(points: GeoPoint[], tolerance: number): GeoPoint[] {
+  return splitPointsBySegment(points).flatMap((segment) => simplifySegment(segment, tolerance));
+}
@@ -0,0 +1,211 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import type { RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import firebase from 'firebase/compat/app';
+import { createRulesTestEnvironment } from './testEnvironment';
+
+const { FieldValue, Timestamp } = firebase.firestore;
+
+const startTime = Timestamp.fromDate(new Date(Date.UTC(2025, 5, 1, 9)));
+
+const session = {
+  userId: 'alice',
+  startTime,
+  endTime: Timestamp.fromDate(new Date(Date.UTC(2025, 5, 1, 10))),
+  isActive: false,
+  storageMode: 'incremental',
+  pointsFormat: 'chunked',
+  pointCount: 0,
+  chunkCount: 0,
+};
+
+const photo = {
+  userId: 'alice',
+  sessionId: 'alice-session',
+  location: { lat: 35.68, lng: 139.76 },
+  imageUrl: 'https://example.com/photo.jpg',
+  thumbnailUrl: 'https://example.com/thumb.jpg',
+  timestamp: startTime,
+  tags: [],
+  isPublic: false,
+};
+
+let testEnv: RulesTestEnvironment;
+
+const alice = () => testEnv.authenticatedContext('alice').firestore();
+const bob = () => testEnv.authenticatedContext('bob').firestore();
+const anonymous = () => testEnv.unauthenticatedContext().firestore();
+
+beforeAll(async () => {
+  testEnv = await createRulesTestEnvironment();
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await db.doc('sessions/alice-session').set({ ...session, updatedAt: startTime });
+    await db.doc('photos/private-photo').set(photo);
+    await db.doc('photos/public-photo').set({ ...photo, isPublic: true });
+    await db
+      .doc('activeDevices/alice')
+      .set({ deviceId: 'device-a', sessionId: 'alice-session', claimedAt: startTime });
+  });
+});
+
+describe('sessions', () => {
+  it('lets only the owner read a session', async () => {
+    await assertSucceeds(alice().doc('sessions/alice-session').get());
+    await assertFails(bob().doc('sessions/alice-session').get());
+    await assertFails(anonymous().doc('sessions/alice-session').get());
+  });
+
+  it('allows listing only with a query filtered by the signed-in user', async () => {
+    await assertSucceeds(alice().collection('sessions').where('userId', '==', 'alice').get());
+    await assertFails(alice().collection('sessions').get());
+    await assertFails(bob().collection('sessions').where('userId', '==', 'alice').get());
+  });
+
+  it('creates sessions only for the signed-in user with a server updatedAt', async () => {
+    const created = { ...session, isActive: true, updatedAt: FieldValue.serverTimestamp() };
+    await assertSucceeds(alice().doc('sessions/new').set(created));
+    await assertFails(bob().doc('sessions/other').set(created));
+    await assertFails(anonymous().doc('sessions/anonymous').set(created));
+    await assertFails(
+      alice()
+        .doc('sessions/client-time')
+        .set({ ...created, updatedAt: startTime })
+    );
+    await assertFails(
+      alice()
+        .doc('sessions/inline')
+        .set({ ...created, points: [] })
+    );
+  });
+
+  it('lets the owner update progress but not the owner, device or storage mode', async () => {
+    const ref = () => alice().doc('sessions/alice-session');
+    await assertSucceeds(
+      ref().update({ pointCount: 10, chunkCount: 1, updatedAt: FieldValue.serverTimestamp() })
+    );
+    await assertFails(ref().update({ userId: 'bob' }));
+    await assertFails(ref().update({ deviceId: 'device-b' }));
+    await assertFails(ref().update({ storageMode: 'compact' }));
+    await assertFails(ref().update({ updatedAt: Timestamp.now() }));
+    await assertFails(bob().doc('sessions/alice-session').update({ pointCount: 10 }));
+  });
+
+  it('only lets a finished session start later when trimmed', async () => {
+    const ref = () => alice().doc('sessions/alice-session');
+    const later = Timestamp.fromMillis(startTime.toMillis() + 60 * 1000);
+    const earlier = Timestamp.fromMillis(startTime.toMillis() - 60 * 1000);
+    await assertFails(ref().update({ startTime: earlier }));
+    await assertSucceeds(ref().update({ startTime: later }));
+
+    await testEnv.withSecurityRulesDisabled((context) =>
+      context.firestore().doc('sessions/alice-session').update({ isActive: true })
+    );
+    await assertFails(
+      ref().update({ startTime: Timestamp.fromMillis(later.toMillis() + 60 * 1000) })
+    );
+  });
+
+  it('lets only the owner delete a session', async () => {
+    await assertFails(bob().doc('sessions/alice-session').delete());
+    await assertFails(anonymous().doc('sessions/alice-session').delete());
+    await assertSucceeds(alice().doc('sessions/alice-session').delete());
+  });
+});
+
+// ポイントのチャンクは get() で読み込んだ親のセッションの所有者で判定する
+describe('session point chunks', () => {
+  const chunk = {
+    seq: 0,
+    points: [{ lat: 35.68, lng: 139.76, timestamp: startTime }],
+  };
+  const compactChunk = {
+    seq: 1,
+    encoding: 'polyline6',
+    count: 1,
+    path: '_ibE_ibE',
+    times: '_ibE',
+    segments: '?',
+  };
+
+  it('lets only the session owner write and read chunks', async () => {
+    await assertSucceeds(alice().doc('sessions/alice-session/points/000000').set(chunk));
+    await assertSucceeds(alice().doc('sessions/alice-session/points/000001').set(compactChunk));
+    await assertSucceeds(alice().doc('sessions/alice-session/points/000000').get());
+
+    await assertFails(
+      bob()
+        .doc('sessions/alice-session/points/000002')
+        .set({ ...chunk, seq: 2 })
+    );
+    await assertFails(bob().doc('sessions/alice-session/points/000000').get());
+    await assertFails(anonymous().doc('sessions/alice-session/points/000000').get());
+  });
+
+  it('rejects chunks for a missing session or with a mismatched sequence', async () => {
+    await assertFails(alice().doc('sessions/missing/points/000000').set(chunk));
+    await assertFails(alice().doc('sessions/alice-session/points/000005').set(chunk));
+    await assertFails(
+      alice()
+        .doc('sessions/alice-session/points/000000')
+        .set({ ...chunk, points: Array.from({ length: 501 }, () => chunk.points[0]) })
+    );
+  });
+});
+
+describe('photos', () => {
+  it('lets anyone read public photos and only the owner read private ones', async () => {
+    await assertSucceeds(anonymous().doc('photos/public-photo').get());
+    await assertSucceeds(bob().doc('photos/public-photo').get());
+    await assertFails(anonymous().doc('photos/private-photo').get());
+    await assertFails(bob().doc('photos/private-photo').get());
+    await assertSucceeds(alice().doc('photos/private-photo').get());
+  });
+
+  it('creates photos only for the signed-in user', async () => {
+    await assertSucceeds(alice().doc('photos/new').set(photo));
+    await assertFails(bob().doc('photos/other').set(photo));
+    await assertFails(
+      anonymous()
+        .doc('photos/anonymous')
+        .set({ ...photo, isPublic: true })
+    );
+  });
+
+  it('lets the owner change only the caption, tags, visibility and session', async () => {
+    const ref = () => alice().doc('photos/private-photo');
+    await assertSucceeds(ref().update({ caption: '駅前', isPublic: true }));
+    await assertSucceeds(ref().update({ sessionId: null }));
+    await assertFails(ref().update({ imageUrl: 'https://example.com/other.jpg' }));
+    await assertFails(ref().update({ userId: 'bob' }));
+    await assertFails(bob().doc('photos/public-photo').update({ caption: '上書き' }));
+  });
+});
+
+describe('active devices', () => {
+  const claim = { deviceId: 'device-b', sessionId: 'alice-session', claimedAt: Timestamp.now() };
+
+  it('lets only the user read and claim their active device', async () => {
+    await assertSucceeds(alice().doc('activeDevices/alice').get());
+    await assertSucceeds(alice().doc('activeDevices/alice').set(claim));
+    await assertFails(bob().doc('activeDevices/alice').get());
+    await assertFails(bob().doc('activeDevices/alice').set(claim));
+    await assertFails(anonymous().doc('activeDevices/alice').get());
+  });
+
+  it('rejects claims with unknown fields', async () => {
+    await assertFails(
+      alice()
+        .doc('activeDevices/alice')
+        .set({ ...claim, extra: true })
+    );
+  });
+});
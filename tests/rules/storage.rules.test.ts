@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import type { RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import type firebase from 'firebase/compat/app';
+import { createRulesTestEnvironment } from './testEnvironment';
+
+const image = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+const archive = new TextEncoder().encode('[]');
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+let testEnv: RulesTestEnvironment;
+
+const alice = () => testEnv.authenticatedContext('alice').storage();
+const bob = () => testEnv.authenticatedContext('bob').storage();
+const anonymous = () => testEnv.unauthenticatedContext().storage();
+
+// アップロードの完了を待つ Promise（UploadTask は then のみを持つ）
+const upload = (
+  storage: firebase.storage.Storage,
+  path: string,
+  data: Uint8Array,
+  contentType: string
+) => storage.ref(path).put(data, { contentType }).then();
+
+beforeAll(async () => {
+  testEnv = await createRulesTestEnvironment();
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearStorage();
+  await testEnv.withSecurityRulesDisabled((context) =>
+    upload(context.storage(), 'photos/alice/photo.jpg', image, 'image/jpeg')
+  );
+});
+
+describe('photos', () => {
+  it('lets only the owner upload images under their own folder', async () => {
+    await assertSucceeds(upload(alice(), 'photos/alice/new.jpg', image, 'image/jpeg'));
+    await assertFails(upload(bob(), 'photos/alice/new.jpg', image, 'image/jpeg'));
+    await assertFails(upload(anonymous(), 'photos/alice/new.jpg', image, 'image/jpeg'));
+  });
+
+  it('rejects files that are not images or are too large', async () => {
+    await assertFails(upload(alice(), 'photos/alice/note.txt', image, 'text/plain'));
+    await assertFails(
+      upload(alice(), 'photos/alice/large.jpg', new Uint8Array(MAX_PHOTO_SIZE + 1), 'image/jpeg')
+    );
+  });
+
+  // 公開設定の写真も Storage では所有者のみ読み込める（表示はダウンロードURLのトークンで行う）
+  it('lets only the owner read and delete photos', async () => {
+    await assertSucceeds(alice().ref('photos/alice/photo.jpg').getMetadata());
+    await assertFails(bob().ref('photos/alice/photo.jpg').getMetadata());
+    await assertFails(anonymous().ref('photos/alice/photo.jpg').getMetadata());
+    await assertFails(bob().ref('photos/alice/photo.jpg').delete());
+    await assertSucceeds(alice().ref('photos/alice/photo.jpg').delete());
+  });
+});
+
+describe('archives', () => {
+  const path = 'archives/alice/sessions/session-1.json';
+
+  it('lets only the owner write JSON archives', async () => {
+    await assertSucceeds(upload(alice(), path, archive, 'application/json'));
+    await assertFails(upload(bob(), path, archive, 'application/json'));
+    await assertFails(
+      upload(alice(), 'archives/alice/sessions/session-1.txt', archive, 'text/plain')
+    );
+  });
+});
@@ -0,0 +1,16 @@
+import { readFileSync } from 'node:fs';
+import { initializeTestEnvironment } from '@firebase/rules-unit-testing';
+
+// セキュリティルールのテスト環境（npm run test:rules でエミュレータを起動して実行する）
+// エミュレータの接続先は firebase emulators:exec が設定する環境変数から読み込む
+
+// demo- で始まるプロジェクトIDは、ログインせずにエミュレータのみで動作する
+export const PROJECT_ID = 'demo-footpath';
+
+export function createRulesTestEnvironment() {
+  return initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    storage: { rules: readFileSync('storage.rules', 'utf8') },
+  });
+}
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// 単体テスト（src 内の *.test.ts）。セキュリティルールのテストは vitest.rules.config.ts で実行する
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});
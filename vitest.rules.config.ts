@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+// セキュリティルールのテスト（Firestore・Storage のエミュレータが必要なため npm run test:rules で実行する）
+// テスト毎にエミュレータのデータを消すため、ファイルを並列に実行しない
+export default defineConfig({
+  test: {
+    include: ['tests/rules/**/*.test.ts'],
+    environment: 'node',
+    fileParallelism: false,
+    testTimeout: 20000,
+  },
+});